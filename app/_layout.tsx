@@ -57,6 +57,11 @@ function Routes() {
               <Stack.Screen name="profile" options={{ title: 'Profile' }} />
               <Stack.Screen name="scanner" options={{ title: 'Scanner' }} />
               <Stack.Screen name="ai" options={{ title: 'AI Assistant' }} />
+              <Stack.Screen name="budgets/index" options={{ title: 'Budgets' }} />
+              <Stack.Screen name="budgets/[id]" options={{ title: 'Budget' }} />
+              <Stack.Screen name="analytics" options={{ title: 'Analytics' }} />
+              <Stack.Screen name="join" options={{ title: 'Join Family' }} />
+              <Stack.Screen name="notifications" options={{ title: 'Notifications' }} />
             </Stack>
           </View>
           <AppFooter />
@@ -32,10 +32,11 @@ import {
   TrendingUp,
   Wallet,
 } from 'lucide-react-native';
-import { getUserByClerkId, getUserDashboardData, getUserBudgets, createBudget, getUserAIChats, saveAIChat } from '@/db/actions';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Text as UIText } from '@/components/ui/text';
+import { api } from '@/lib/api';
+import { formatMoney } from '@/lib/money';
 
 const { height: SCREEN_HEIGHT, width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -103,14 +104,9 @@ export default function AIScreen() {
     if (!clerkUser?.id) return;
 
     try {
-      const dbUser = await getUserByClerkId(clerkUser.id);
-      if (dbUser) {
-        setUserData(dbUser);
-        const data = await getUserDashboardData(dbUser.id);
-        setDashboardData(data);
-        const userBudgets = await getUserBudgets(dbUser.id);
-        setBudgets(userBudgets);
-      }
+      setUserData(await api.getMe());
+      setDashboardData(await api.getDashboardData());
+      setBudgets(await api.getBudgets());
     } catch (error) {
       console.error('Error loading user data:', error);
       // Set demo data if database is not available
@@ -119,12 +115,15 @@ export default function AIScreen() {
         email: clerkUser?.primaryEmailAddress?.emailAddress || 'demo@example.com',
         firstName: clerkUser?.firstName || 'Demo',
         lastName: clerkUser?.lastName || 'User',
-        role: 'child'
       });
       setDashboardData({
-        totalBalance: '0.00',
+        totalBalance: 0,
+        availableBalance: 0,
         recentTransactions: [],
         pendingApprovals: [],
+        choresAwaitingApproval: [],
+        recentDecisions: [],
+        nextAllowance: null,
         accounts: []
       });
       setBudgets([]);
@@ -166,12 +165,12 @@ export default function AIScreen() {
     try {
       const budgetContext = dashboardData ? `
         Current financial data:
-        - Total Balance: ₹${dashboardData.totalBalance}
+        - Total Balance: ${formatMoney(dashboardData.totalBalance)}
         - Recent transactions: ${dashboardData.recentTransactions?.slice(0, 5).map((t: any) =>
-          `${t.type}: ₹${t.amount} (${t.description})`
+          `${t.type}: ${formatMoney(t.amount)} (${t.description})`
         ).join(', ')}
         - Active budgets: ${budgets.map((b: any) =>
-          `${b.category}: ₹${b.amount} (spent: ₹${b.spent})`
+          `${b.category}: ${formatMoney(b.amount)} (spent: ${formatMoney(b.spent)})`
         ).join(', ')}
       ` : '';
 
@@ -248,8 +247,7 @@ export default function AIScreen() {
       // Save to database (optional - won't crash if DB is not available)
       if (userData) {
         try {
-          await saveAIChat({
-            userId: userData.id,
+          await api.saveAIChat({
             message: inputText,
             response: aiResponse,
           });
@@ -319,7 +317,7 @@ export default function AIScreen() {
                       <UIText className="text-sm font-medium">Balance</UIText>
                     </View>
                     <UIText className="text-lg font-bold text-green-600">
-                      ₹{dashboardData.totalBalance}
+                      {formatMoney(dashboardData.totalBalance)}
                     </UIText>
                   </CardContent>
                 </Card>
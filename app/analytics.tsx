@@ -0,0 +1,223 @@
+import { BarChart, DonutChart, TrendChart, useChartColors } from '@/components/charts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Text } from '@/components/ui/text';
+import { ANALYTICS_RANGE_LABELS, ANALYTICS_RANGES, formatMonthKey, type AnalyticsRange } from '@/lib/analytics';
+import { api } from '@/lib/api';
+import { deviceTimeZone } from '@/lib/dates';
+import { formatMoney, subtractMoney } from '@/lib/money';
+import { cn } from '@/lib/utils';
+import { Stack } from 'expo-router';
+import * as React from 'react';
+import { ScrollView, View } from 'react-native';
+
+type Analytics = Awaited<ReturnType<typeof api.getSpendingAnalytics>>;
+
+// The donut shows this many categories; any others share the last slice
+const TOP_CATEGORIES = 4;
+
+// Where the user's money came from and went, over this month, 3 months or this year
+export default function AnalyticsScreen() {
+  const [range, setRange] = React.useState<AnalyticsRange>('month');
+  const [analytics, setAnalytics] = React.useState<Analytics | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const colors = useChartColors();
+
+  React.useEffect(() => {
+    setLoading(true);
+    // Days and months are counted in the time zone the device is set to
+    api.getSpendingAnalytics({ range, timeZone: deviceTimeZone() })
+      .then(setAnalytics)
+      .catch((error) => console.error('Error loading analytics:', error))
+      .finally(() => setLoading(false));
+  }, [range]);
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Analytics' }} />
+      <ScrollView className="flex-1 p-4">
+        <View className="mb-6 flex-row gap-2">
+          {ANALYTICS_RANGES.map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              className="flex-1"
+              variant={option === range ? 'default' : 'outline'}
+              onPress={() => setRange(option)}>
+              <Text>{ANALYTICS_RANGE_LABELS[option]}</Text>
+            </Button>
+          ))}
+        </View>
+
+        {loading && !analytics ? (
+          <Text className="text-center text-muted-foreground">Loading...</Text>
+        ) : !analytics ? (
+          <Text className="text-center text-muted-foreground">Analytics could not be loaded</Text>
+        ) : (
+          <View className={cn(loading && 'opacity-50')}>
+            <Summary analytics={analytics} />
+            <CategoryBreakdown analytics={analytics} colors={colors} />
+            <IncomeAndSpending analytics={analytics} colors={colors} />
+            <TopRecipients analytics={analytics} color={colors[2]} />
+            <DailySpending analytics={analytics} color={colors[0]} />
+          </View>
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+function Summary({ analytics }: { analytics: Analytics }) {
+  const net = subtractMoney(analytics.income, analytics.spending);
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="flex-row justify-between pt-6">
+        <View>
+          <Text className="text-sm text-muted-foreground">Money in</Text>
+          <Text className="text-lg font-bold text-green-600">{formatMoney(analytics.income)}</Text>
+        </View>
+        <View>
+          <Text className="text-sm text-muted-foreground">Spent</Text>
+          <Text className="text-lg font-bold text-red-600">{formatMoney(analytics.spending)}</Text>
+        </View>
+        <View>
+          <Text className="text-sm text-muted-foreground">Net</Text>
+          <Text className={cn('text-lg font-bold', net < 0 ? 'text-red-600' : 'text-green-600')}>
+            {formatMoney(net, { signed: true })}
+          </Text>
+        </View>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CategoryBreakdown({ analytics, colors }: { analytics: Analytics; colors: string[] }) {
+  const shown = analytics.byCategory.slice(0, TOP_CATEGORIES);
+  const rest = analytics.byCategory.slice(TOP_CATEGORIES);
+  const slices = [
+    ...shown.map(({ category, total }, index) => ({ label: category, value: total, color: colors[index] })),
+    ...(rest.length > 0
+      ? [{
+        label: `${rest.length} more`,
+        value: rest.reduce((sum, { total }) => sum + total, 0),
+        color: colors[TOP_CATEGORIES],
+      }]
+      : []),
+  ];
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Spending by Category</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {slices.length === 0 ? (
+          <Text className="text-sm text-muted-foreground">Nothing spent in this period</Text>
+        ) : (
+          <View className="items-center gap-4">
+            <DonutChart slices={slices} />
+            <View className="w-full gap-2">
+              {slices.map((slice) => (
+                <View key={slice.label} className="flex-row items-center gap-2">
+                  <View className="size-3 rounded-full" style={{ backgroundColor: slice.color }} />
+                  <Text className="flex-1 capitalize">{slice.label}</Text>
+                  <Text className="text-sm text-muted-foreground">
+                    {Math.round((slice.value / analytics.spending) * 100)}%
+                  </Text>
+                  <Text className="w-24 text-right font-medium">{formatMoney(slice.value)}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function IncomeAndSpending({ analytics, colors }: { analytics: Analytics; colors: string[] }) {
+  const legend = [
+    { label: 'Money in', color: colors[1] },
+    { label: 'Spent', color: colors[0] },
+  ];
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Money In and Out</CardTitle>
+        <CardDescription>By month</CardDescription>
+      </CardHeader>
+      <CardContent className="gap-3">
+        <BarChart
+          groups={analytics.monthly.map(({ month, income, spending }) => ({
+            label: formatMonthKey(month, analytics.monthly.length === 1),
+            values: [income, spending],
+          }))}
+          colors={legend.map(({ color }) => color)}
+        />
+        <View className="flex-row justify-center gap-4">
+          {legend.map(({ label, color }) => (
+            <View key={label} className="flex-row items-center gap-1.5">
+              <View className="size-3 rounded-full" style={{ backgroundColor: color }} />
+              <Text className="text-xs text-muted-foreground">{label}</Text>
+            </View>
+          ))}
+        </View>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TopRecipients({ analytics, color }: { analytics: Analytics; color: string }) {
+  const largest = analytics.topRecipients[0]?.total ?? 0;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Top Recipients</CardTitle>
+        <CardDescription>Who you paid the most</CardDescription>
+      </CardHeader>
+      <CardContent className="gap-3">
+        {analytics.topRecipients.length === 0 ? (
+          <Text className="text-sm text-muted-foreground">No payments to anyone in this period</Text>
+        ) : (
+          analytics.topRecipients.map(({ recipient, total, count }) => (
+            <View key={recipient} className="gap-1">
+              <View className="flex-row justify-between">
+                <Text className="font-medium">{recipient}</Text>
+                <Text className="text-sm text-muted-foreground">
+                  {formatMoney(total)} · {count} {count === 1 ? 'payment' : 'payments'}
+                </Text>
+              </View>
+              <View className="h-2 overflow-hidden rounded-full bg-muted">
+                <View className="h-full rounded-full" style={{ width: `${(total / largest) * 100}%`, backgroundColor: color }} />
+              </View>
+            </View>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function DailySpending({ analytics, color }: { analytics: Analytics; color: string }) {
+  const busiest = analytics.daily.reduce((top, day) => (day.spending > top.spending ? day : top), analytics.daily[0]);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Daily Spending</CardTitle>
+        <CardDescription>
+          {formatMoney(Math.round(analytics.spending / analytics.daily.length))} a day on average
+          {busiest.spending > 0
+            ? ` · most on ${new Date(busiest.day).toLocaleDateString(undefined, { timeZone: 'UTC' })} (${formatMoney(busiest.spending)})`
+            : ''}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <TrendChart values={analytics.daily.map(({ spending }) => spending)} color={color} />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+import { ActionError, type ActionErrorCode } from '@/db/errors';
+import { parseJson } from '@/lib/json';
+import { authenticate } from '@/server/auth';
+import { procedures, type ProcedureName } from '@/server/procedures';
+
+// HTTP status for each kind of expected failure; anything else is a 400
+const ERROR_STATUS: Partial<Record<ActionErrorCode, number>> = {
+  not_authenticated: 401,
+  not_authorized: 403,
+  account_not_found: 404,
+  transaction_not_found: 404,
+  allowance_not_found: 404,
+  chore_not_found: 404,
+  family_request_not_found: 404,
+  invite_not_found: 404,
+  household_member_not_found: 404,
+  budget_not_found: 404,
+  idempotency_key_reused: 409,
+  duplicate_family_request: 409,
+  invalid_status_transition: 409,
+  too_many_attempts: 429,
+};
+
+const errorResponse = (code: ActionErrorCode | 'internal_error', message: string, status: number) =>
+  Response.json({ error: { code, message } }, { status });
+
+// The request body, which each procedure checks against the input it takes
+const readInput = (body: string) => {
+  try {
+    return parseJson(body);
+  } catch {
+    throw new ActionError('invalid_input', 'The request body must be JSON');
+  }
+};
+
+// POST /api/<procedure> runs one procedure as the signed-in user, with the JSON body as
+// its input. See lib/api.ts for the client.
+export async function POST(request: Request, { procedure }: { procedure: string }) {
+  if (!Object.hasOwn(procedures, procedure)) {
+    return errorResponse('internal_error', `Unknown procedure ${procedure}`, 404);
+  }
+
+  try {
+    const caller = await authenticate(request);
+    const input = readInput(await request.text());
+    const run = procedures[procedure as ProcedureName] as (caller: unknown, input: unknown) => Promise<unknown>;
+    return Response.json((await run(caller, input)) ?? null);
+  } catch (error) {
+    if (error instanceof ActionError) {
+      return errorResponse(error.code, error.message, ERROR_STATUS[error.code] ?? 400);
+    }
+    console.error(`Error in ${procedure}:`, error);
+    return errorResponse('internal_error', 'Something went wrong', 500);
+  }
+}
@@ -0,0 +1,35 @@
+import { runDueAllowances } from '@/db/actions';
+import { timingSafeEqual } from 'node:crypto';
+
+// Whether the request carries `Authorization: Bearer <CRON_SECRET>`. Without a secret
+// configured, nothing can run the job.
+const isScheduler = (request: Request) => {
+  const secret = process.env.CRON_SECRET;
+  const token = request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1];
+  if (!secret || !token) {
+    return false;
+  }
+  const expected = Buffer.from(secret);
+  const given = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+// POST /api/cron/allowances pays every allowance that has come due, for all users. Call it
+// from a scheduler every few minutes; a run that's missed is paid on the next call.
+export async function POST(request: Request) {
+  if (!isScheduler(request)) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const runs = await runDueAllowances();
+    return Response.json({
+      paid: runs.filter((run) => run.status === 'paid').length,
+      failed: runs.filter((run) => run.status === 'failed').length,
+    });
+  } catch (error) {
+    // Runs already paid stay paid; the next call picks up where this one stopped
+    console.error('Error running due allowances:', error);
+    return new Response('Failed to run allowances', { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import type { UserJSON } from '@clerk/backend';
+import { verifyWebhook } from '@clerk/backend/webhooks';
+import { deleteClerkUser, syncClerkUser } from '@/db/actions';
+
+const profileFromClerk = (data: UserJSON) => ({
+  clerkId: data.id,
+  email: data.email_addresses.find((email) => email.id === data.primary_email_address_id)?.email_address ?? '',
+  firstName: data.first_name ?? undefined,
+  lastName: data.last_name ?? undefined,
+  profileImageUrl: data.image_url,
+});
+
+// POST /api/webhooks/clerk keeps the users table in step with Clerk. Deliveries are
+// signed by svix and checked here against CLERK_WEBHOOK_SIGNING_SECRET, without calling
+// out to Clerk. Each is applied once, by its svix-id, so Clerk can safely retry.
+export async function POST(request: Request) {
+  let event;
+  try {
+    event = await verifyWebhook(request);
+  } catch {
+    return new Response('Invalid webhook signature', { status: 400 });
+  }
+
+  // verifyWebhook only accepts signed deliveries, which always carry an id
+  const eventId = request.headers.get('svix-id')!;
+  try {
+    switch (event.type) {
+      case 'user.created':
+      case 'user.updated':
+        await syncClerkUser(eventId, event.type, profileFromClerk(event.data));
+        break;
+      case 'user.deleted':
+        if (event.data.id) {
+          await deleteClerkUser(eventId, event.type, event.data.id);
+        }
+        break;
+    }
+  } catch (error) {
+    // A failed delivery records nothing, so Clerk's retry applies it in full
+    console.error(`Error handling Clerk ${event.type} webhook:`, error);
+    return new Response('Failed to handle webhook', { status: 500 });
+  }
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,171 @@
+import { BudgetForm } from '@/components/budget-form';
+import { BudgetProgress } from '@/components/budget-progress';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Text } from '@/components/ui/text';
+import { ActionError } from '@/db/errors';
+import { api } from '@/lib/api';
+import { budgetAvailable, formatBudgetDates } from '@/lib/budgets';
+import { compareMoney, formatMoney } from '@/lib/money';
+import { Link, Stack, router, useLocalSearchParams } from 'expo-router';
+import * as React from 'react';
+import { Alert, Pressable, ScrollView, View } from 'react-native';
+
+// One budget, with the spending that counted towards it and its earlier periods
+export default function BudgetScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [details, setDetails] = React.useState<Awaited<ReturnType<typeof api.getBudget>> | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [editing, setEditing] = React.useState(false);
+
+  const loadBudget = React.useCallback(() => {
+    api.getBudget({ budgetId: id })
+      .then(setDetails)
+      .catch((error) => console.error('Error loading budget:', error))
+      .finally(() => setLoading(false));
+  }, [id]);
+
+  React.useEffect(loadBudget, [loadBudget]);
+
+  const handleDelete = () => {
+    Alert.alert('Delete budget', 'This removes the budget. Your transactions are not affected.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await api.deleteBudget({ budgetId: id });
+            router.replace('/budgets');
+          } catch (error) {
+            Alert.alert('Error', error instanceof ActionError ? error.message : 'Failed to delete budget');
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View className="flex-1 items-center justify-center">
+        <Text>Loading...</Text>
+      </View>
+    );
+  }
+
+  if (!details) {
+    return (
+      <View className="flex-1 items-center justify-center gap-3 p-4">
+        <Text className="text-muted-foreground">This budget could not be found</Text>
+        <Button variant="outline" onPress={() => router.replace('/budgets')}>
+          <Text>Back to budgets</Text>
+        </Button>
+      </View>
+    );
+  }
+
+  const { budget, transactions, earlier } = details;
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Budget' }} />
+      <ScrollView className="flex-1 p-4">
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="capitalize">{budget.category}</CardTitle>
+            <CardDescription className="capitalize">
+              {budget.period} · {formatBudgetDates(budget.startDate, budget.endDate)}
+              {budget.recurring ? ' · repeats' : ''}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="gap-4">
+            {editing ? (
+              <BudgetForm
+                budget={budget}
+                onSaved={() => {
+                  setEditing(false);
+                  loadBudget();
+                }}
+                onCancel={() => setEditing(false)}
+              />
+            ) : (
+              <>
+                <BudgetProgress spent={budget.spent} amount={budgetAvailable(budget)} />
+                {budget.carriedOver !== 0 && (
+                  <Text className="text-xs text-muted-foreground">
+                    {formatMoney(budget.amount)} budget{' '}
+                    {budget.carriedOver > 0
+                      ? `plus ${formatMoney(budget.carriedOver)} left from last time`
+                      : `less ${formatMoney(-budget.carriedOver)} overspent last time`}
+                  </Text>
+                )}
+                <View className="flex-row gap-2">
+                  <Button size="sm" variant="outline" className="flex-1" onPress={() => setEditing(true)}>
+                    <Text>Edit</Text>
+                  </Button>
+                  <Button size="sm" variant="destructive" className="flex-1" onPress={handleDelete}>
+                    <Text>Delete</Text>
+                  </Button>
+                </View>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Spending</CardTitle>
+            <CardDescription>Completed purchases and payments in this category and period</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {transactions.length === 0 ? (
+              <Text className="text-sm text-muted-foreground">Nothing spent yet</Text>
+            ) : (
+              transactions.map((transaction) => (
+                <View key={transaction.id} className="flex-row items-center justify-between border-b border-border py-3">
+                  <View className="flex-1">
+                    <Text className="font-medium">{transaction.description || transaction.recipient || 'Transaction'}</Text>
+                    <Text className="text-xs text-muted-foreground">
+                      {new Date(transaction.createdAt).toLocaleDateString()}
+                      {transaction.type === 'transfer' && transaction.recipient ? ` · to ${transaction.recipient}` : ''}
+                    </Text>
+                  </View>
+                  <Text className="font-bold text-red-600">-{formatMoney(transaction.amount)}</Text>
+                </View>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {earlier.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Earlier Periods</CardTitle>
+              <CardDescription>How this period compares with the ones before it</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {earlier.map((previous) => {
+                const difference = compareMoney(previous.spent, budget.spent);
+                return (
+                  <Link key={previous.id} href={{ pathname: '/budgets/[id]', params: { id: previous.id } }} asChild>
+                    <Pressable className="flex-row items-center justify-between border-b border-border py-3">
+                      <View className="flex-1">
+                        <Text className="font-medium">{formatBudgetDates(previous.startDate, previous.endDate)}</Text>
+                        <Text className="text-xs text-muted-foreground">
+                          {formatMoney(previous.spent)} of {formatMoney(budgetAvailable(previous))}
+                        </Text>
+                      </View>
+                      <Text className="text-xs text-muted-foreground">
+                        {difference === 0 ? 'Same as now' : difference > 0 ? 'Spent more' : 'Spent less'}
+                      </Text>
+                    </Pressable>
+                  </Link>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+      </ScrollView>
+    </>
+  );
+}
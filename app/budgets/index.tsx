@@ -0,0 +1,109 @@
+import { BudgetForm } from '@/components/budget-form';
+import { BudgetProgress } from '@/components/budget-progress';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Text } from '@/components/ui/text';
+import type { Budget } from '@/db/schema';
+import { api } from '@/lib/api';
+import { budgetAvailable, formatBudgetDates } from '@/lib/budgets';
+import { useFocusEffect } from '@react-navigation/native';
+import { Link, Stack } from 'expo-router';
+import * as React from 'react';
+import { Pressable, ScrollView, View } from 'react-native';
+
+const SECTIONS = [
+  { key: 'current', title: 'This Period' },
+  { key: 'upcoming', title: 'Upcoming' },
+  { key: 'past', title: 'Past' },
+] as const;
+
+const sectionOf = (budget: Budget, now: Date) =>
+  new Date(budget.startDate) > now ? 'upcoming' : new Date(budget.endDate) <= now ? 'past' : 'current';
+
+export default function BudgetsScreen() {
+  const [budgets, setBudgets] = React.useState<Budget[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [creating, setCreating] = React.useState(false);
+
+  const loadBudgets = React.useCallback(() => {
+    api.getBudgets()
+      .then(setBudgets)
+      .catch((error) => console.error('Error loading budgets:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useFocusEffect(loadBudgets);
+
+  if (loading) {
+    return (
+      <View className="flex-1 items-center justify-center">
+        <Text>Loading...</Text>
+      </View>
+    );
+  }
+
+  const now = new Date();
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Budgets' }} />
+      <ScrollView className="flex-1 p-4">
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>New Budget</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {creating ? (
+              <BudgetForm
+                budget={null}
+                onSaved={() => {
+                  setCreating(false);
+                  loadBudgets();
+                }}
+                onCancel={() => setCreating(false)}
+              />
+            ) : (
+              <Button onPress={() => setCreating(true)}>
+                <Text>Set a budget</Text>
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        {budgets.length === 0 && (
+          <Text className="text-center text-muted-foreground">
+            No budgets yet. Set one to see how your spending in a category adds up.
+          </Text>
+        )}
+
+        {SECTIONS.map(({ key, title }) => {
+          const section = budgets.filter((budget) => sectionOf(budget, now) === key);
+          if (section.length === 0) return null;
+
+          return (
+            <Card key={key} className="mb-6">
+              <CardHeader>
+                <CardTitle>{title}</CardTitle>
+              </CardHeader>
+              <CardContent className="gap-4">
+                {section.map((budget) => (
+                  <Link key={budget.id} href={{ pathname: '/budgets/[id]', params: { id: budget.id } }} asChild>
+                    <Pressable className="gap-2">
+                      <View className="flex-row items-center justify-between">
+                        <Text className="font-medium capitalize">{budget.category}</Text>
+                        <Text className="text-xs capitalize text-muted-foreground">
+                          {budget.period} · {formatBudgetDates(budget.startDate, budget.endDate)}
+                        </Text>
+                      </View>
+                      <BudgetProgress spent={budget.spent} amount={budgetAvailable(budget)} />
+                    </Pressable>
+                  </Link>
+                ))}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </ScrollView>
+    </>
+  );
+}
@@ -3,14 +3,29 @@ import { Icon } from '@/components/ui/icon';
 import { Text } from '@/components/ui/text';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { UserMenu } from '@/components/user-menu';
+import { SendMoneyForm } from '@/components/send-money-form';
+import { WithdrawForm } from '@/components/withdraw-form';
+import { PendingApprovalItem } from '@/components/pending-approval-item';
+import { ChoreApprovalItem } from '@/components/chore-approval-item';
 import { useUser } from '@clerk/clerk-expo';
 import { Link, Stack } from 'expo-router';
-import { PlusIcon, MinusIcon, UsersIcon, BotIcon, ScanLineIcon, SunIcon, MoonStarIcon } from 'lucide-react-native';
+import { PlusIcon, MinusIcon, SendIcon, UsersIcon, PiggyBankIcon, BotIcon, ScanLineIcon, WalletIcon, ChartPieIcon, SunIcon, MoonStarIcon } from 'lucide-react-native';
 import { useColorScheme } from 'nativewind';
 import * as React from 'react';
 import { View, ScrollView, Alert } from 'react-native';
 import { useFocusEffect } from '@react-navigation/native';
-import { getUserByClerkId, getUserDashboardData, createTransaction, createUser } from '@/db/actions';
+import { ActionError } from '@/db/errors';
+import type { AccountPermission } from '@/db/schema';
+import { api } from '@/lib/api';
+import { deviceTimeZone } from '@/lib/dates';
+import { useIdempotencyKey } from '@/lib/idempotency';
+import { formatMoney, isCredit, parseMoney } from '@/lib/money';
+
+const JOINT_ACCESS_LABELS: Record<AccountPermission, string> = {
+  view: 'view only',
+  spend: 'full access',
+  spend_with_approval: 'spending needs approval',
+};
 
 const SCREEN_OPTIONS = {
   header: () => (
@@ -27,6 +42,9 @@ export default function Screen() {
   const [userData, setUserData] = React.useState<any>(null);
   const [dashboardData, setDashboardData] = React.useState<any>(null);
   const [loading, setLoading] = React.useState(true);
+  const [sendMoneyOpen, setSendMoneyOpen] = React.useState(false);
+  const [withdrawOpen, setWithdrawOpen] = React.useState(false);
+  const idempotency = useIdempotencyKey();
 
   const loadDashboardData = async () => {
     if (!clerkUser?.id) {
@@ -35,31 +53,28 @@ export default function Screen() {
     }
 
     try {
-      let dbUser = await getUserByClerkId(clerkUser.id);
-      
-      if (!dbUser) {
-        // Create user if they don't exist
-        dbUser = await createUser({
-          clerkId: clerkUser.id,
-          email: clerkUser.primaryEmailAddress?.emailAddress || '',
-          firstName: clerkUser.firstName,
-          lastName: clerkUser.lastName,
-          profileImageUrl: clerkUser.imageUrl,
-        });
-      }
-
-      if (dbUser) {
-        setUserData(dbUser);
-        const data = await getUserDashboardData(dbUser.id);
-        setDashboardData(data);
+      // The API creates the user from their Clerk profile on their first request
+      let dbUser = await api.getMe();
+      // The server counts allowance days, budget periods and spending limits in this zone
+      if (dbUser.timeZone !== deviceTimeZone()) {
+        dbUser = await api.updateTimeZone({ timeZone: deviceTimeZone() });
       }
+      setUserData(dbUser);
+      const data = await api.getDashboardData();
+      setDashboardData(data);
     } catch (error) {
       console.error('Error loading dashboard data:', error);
       // Set demo data if database is not available
       setDashboardData({
-        totalBalance: '0.00',
+        totalBalance: 0,
+        availableBalance: 0,
         recentTransactions: [],
         pendingApprovals: [],
+        choresAwaitingApproval: [],
+        recentDecisions: [],
+        nextAllowance: null,
+        household: null,
+        primaryAccountId: null,
         accounts: []
       });
     } finally {
@@ -73,40 +88,41 @@ export default function Screen() {
     }, [clerkUser?.id])
   );
 
-  const handleTransaction = async (type: 'deposit' | 'withdrawal') => {
+  // The user's own personal account; joint accounts are only used through Send money
+  const primaryAccount = dashboardData?.accounts?.find((account: any) => account.id === dashboardData.primaryAccountId);
+
+  const handleDeposit = async () => {
     Alert.prompt(
-      `${type === 'deposit' ? 'Deposit' : 'Withdraw'} Amount`,
-      `Enter amount to ${type}:`,
+      'Deposit Amount',
+      'Enter amount to deposit:',
       async (amount) => {
-        if (!amount || !userData || !dashboardData?.accounts?.[0]) return;
+        if (!amount || !userData || !primaryAccount) return;
 
-        const numAmount = parseFloat(amount);
-        if (isNaN(numAmount) || numAmount <= 0) {
+        const parsedAmount = parseMoney(amount);
+        if (parsedAmount === null || parsedAmount <= 0) {
           Alert.alert('Error', 'Please enter a valid amount');
           return;
         }
 
-        // Check if withdrawal amount exceeds balance
-        if (type === 'withdrawal' && numAmount > parseFloat(dashboardData.totalBalance)) {
-          Alert.alert('Error', 'Insufficient balance');
-          return;
-        }
-
+        const accountId = primaryAccount.id;
         try {
-          const requiresApproval = userData.role === 'child' && userData.parentId;
-          await createTransaction({
-            userId: userData.id,
-            accountId: dashboardData.accounts[0].id,
-            type,
-            amount: numAmount.toString(),
-            description: `${type} transaction`,
-            requiresApproval
+          const transaction = await api.createTransaction({
+            accountId,
+            type: 'deposit',
+            amount: parsedAmount,
+            description: 'deposit transaction',
+            // Re-entering the same amount after a timeout reuses the key, so it can't post twice
+            idempotencyKey: idempotency.keyFor({ type: 'deposit', accountId, amount: parsedAmount }),
           });
+          idempotency.settle();
 
-          Alert.alert('Success', `${type} transaction ${requiresApproval ? 'submitted for approval' : 'completed'}!`);
+          Alert.alert('Success', `deposit transaction ${transaction.status === 'pending' ? 'submitted for approval' : 'completed'}!`);
           loadDashboardData();
         } catch (error) {
-          Alert.alert('Error', `Failed to ${type}`);
+          if (error instanceof ActionError) {
+            idempotency.settle();
+          }
+          Alert.alert('Error', error instanceof ActionError ? error.message : 'Failed to deposit');
         }
       }
     );
@@ -139,12 +155,37 @@ export default function Screen() {
           </CardHeader>
           <CardContent>
             <Text className="text-3xl font-bold text-green-600">
-              ₹{dashboardData?.totalBalance || '0.00'}
+              {formatMoney(dashboardData?.totalBalance ?? 0)}
+            </Text>
+            <Text className="text-muted-foreground">
+              {formatMoney(dashboardData?.availableBalance ?? 0)} available
+              {dashboardData?.availableBalance !== dashboardData?.totalBalance ? ' (rest awaiting approval)' : ''}
             </Text>
-            <Text className="text-muted-foreground">Available balance</Text>
           </CardContent>
         </Card>
 
+        {/* Accounts, including joint accounts shared with this user */}
+        {dashboardData?.accounts?.length > 1 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Accounts</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {dashboardData.accounts.map((account: any) => (
+                <View key={account.id} className="flex-row justify-between items-center py-2">
+                  <View>
+                    <Text className="font-medium">{account.accountName}</Text>
+                    <Text className="text-sm text-muted-foreground">
+                      {account.accountType === 'joint_family' ? `Joint · ${JOINT_ACCESS_LABELS[account.permission as AccountPermission]}` : 'Personal'}
+                    </Text>
+                  </View>
+                  <Text className="font-medium">{formatMoney(account.balance)}</Text>
+                </View>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Quick Actions */}
         <Card className="mb-6">
           <CardHeader>
@@ -154,7 +195,7 @@ export default function Screen() {
             <View className="flex-row gap-3">
               <Button
                 className="flex-1"
-                onPress={() => handleTransaction('deposit')}
+                onPress={handleDeposit}
               >
                 <Icon as={PlusIcon} size={20} color="white" />
                 <Text className="ml-2 text-white">Deposit</Text>
@@ -162,15 +203,57 @@ export default function Screen() {
               <Button
                 className="flex-1"
                 variant="outline"
-                onPress={() => handleTransaction('withdrawal')}
+                disabled={!userData || !primaryAccount}
+                onPress={() => {
+                  setWithdrawOpen(true);
+                  setSendMoneyOpen(false);
+                }}
               >
                 <Icon as={MinusIcon} size={20} />
                 <Text className="ml-2">Withdraw</Text>
               </Button>
+              <Button
+                className="flex-1"
+                variant="outline"
+                disabled={!userData || !dashboardData?.accounts?.length}
+                onPress={() => {
+                  setSendMoneyOpen(true);
+                  setWithdrawOpen(false);
+                }}
+              >
+                <Icon as={SendIcon} size={20} />
+                <Text className="ml-2">Send money</Text>
+              </Button>
             </View>
           </CardContent>
         </Card>
 
+        {withdrawOpen && primaryAccount && (
+          <WithdrawForm
+            account={primaryAccount}
+            categoryRequired={dashboardData?.household?.role === 'child'}
+            onWithdrawn={(transaction) => {
+              setWithdrawOpen(false);
+              Alert.alert('Success', `Withdrawal ${transaction.status === 'pending' ? 'submitted for approval' : 'completed'}!`);
+              loadDashboardData();
+            }}
+            onCancel={() => setWithdrawOpen(false)}
+          />
+        )}
+
+        {sendMoneyOpen && userData && (
+          <SendMoneyForm
+            accounts={(dashboardData?.accounts ?? []).filter((account: any) => account.permission !== 'view')}
+            categoryRequired={dashboardData?.household?.role === 'child'}
+            onSent={() => {
+              setSendMoneyOpen(false);
+              Alert.alert('Success', 'Money sent!');
+              loadDashboardData();
+            }}
+            onCancel={() => setSendMoneyOpen(false)}
+          />
+        )}
+
         {/* Family Account Status */}
         {userData && (
           <Card className="mb-6">
@@ -178,15 +261,15 @@ export default function Screen() {
               <CardTitle>Joint Family Account</CardTitle>
             </CardHeader>
             <CardContent>
-              {userData.role === 'child' && userData.parentId ? (
+              {dashboardData?.household?.role === 'guardian' ? (
                 <View className="flex-row items-center gap-2">
-                  <Icon as={UsersIcon} size={20} color="green" />
-                  <Text className="text-green-600">Connected to Family Account</Text>
+                  <Icon as={UsersIcon} size={20} color="blue" />
+                  <Text className="text-blue-600">Guardian of {dashboardData.household.household.name}</Text>
                 </View>
-              ) : userData.role === 'parent' ? (
+              ) : dashboardData?.household ? (
                 <View className="flex-row items-center gap-2">
-                  <Icon as={UsersIcon} size={20} color="blue" />
-                  <Text className="text-blue-600">Family Account Manager</Text>
+                  <Icon as={UsersIcon} size={20} color="green" />
+                  <Text className="text-green-600">Connected to {dashboardData.household.household.name}</Text>
                 </View>
               ) : (
                 <View className="flex-row items-center gap-2">
@@ -198,6 +281,55 @@ export default function Screen() {
           </Card>
         )}
 
+        {/* Upcoming pocket money for children */}
+        {dashboardData?.nextAllowance && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Next Allowance</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <View className="flex-row items-center gap-2">
+                <Icon as={PiggyBankIcon} size={20} color="green" />
+                <Text className="text-lg font-bold text-green-600">
+                  {formatMoney(dashboardData.nextAllowance.amount)}
+                </Text>
+                <Text className="text-muted-foreground">
+                  on {new Date(dashboardData.nextAllowance.nextRunAt).toLocaleDateString()}
+                </Text>
+              </View>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Parent decisions on this user's transactions */}
+        {dashboardData?.recentDecisions && dashboardData.recentDecisions.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Parent Decisions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {dashboardData.recentDecisions.map(({ decision, transaction, decider }: any) => (
+                <View key={decision.id} className="py-3 border-b border-border">
+                  <View className="flex-row justify-between items-center">
+                    <Text className="font-medium">
+                      {transaction.description || 'Transaction'} · {formatMoney(transaction.amount)}
+                    </Text>
+                    <Text className={decision.decision === 'approved' ? 'text-green-600' : 'text-red-600'}>
+                      {decision.decision === 'approved' ? 'Approved' : 'Rejected'}
+                    </Text>
+                  </View>
+                  <Text className="text-xs text-muted-foreground">
+                    by {decider.firstName || decider.email} on {new Date(decision.createdAt).toLocaleDateString()}
+                  </Text>
+                  {decision.comment ? (
+                    <Text className="text-sm text-muted-foreground">"{decision.comment}"</Text>
+                  ) : null}
+                </View>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Recent Transactions */}
         {dashboardData?.recentTransactions && dashboardData.recentTransactions.length > 0 && (
           <Card className="mb-6">
@@ -214,12 +346,13 @@ export default function Screen() {
                     </Text>
                     <Text className="text-xs text-muted-foreground">
                       {new Date(transaction.createdAt).toLocaleDateString()}
+                      {transaction.status !== 'completed' ? ` · ${transaction.status}` : ''}
                     </Text>
                   </View>
                   <Text className={`font-bold text-lg ${
-                    transaction.type === 'deposit' ? 'text-green-600' : 'text-red-600'
+                    isCredit(transaction) ? 'text-green-600' : 'text-red-600'
                   }`}>
-                    {transaction.type === 'deposit' ? '+' : '-'}₹{transaction.amount}
+                    {isCredit(transaction) ? '+' : '-'}{formatMoney(transaction.amount)}
                   </Text>
                 </View>
               ))}
@@ -237,6 +370,22 @@ export default function Screen() {
               </View>
             </Button>
           </Link>
+          <Link href="/budgets" asChild>
+            <Button className="flex-1 h-20" variant="outline">
+              <View className="items-center gap-2">
+                <Icon as={WalletIcon} size={24} />
+                <Text className="text-sm">Budgets</Text>
+              </View>
+            </Button>
+          </Link>
+          <Link href="/analytics" asChild>
+            <Button className="flex-1 h-20" variant="outline">
+              <View className="items-center gap-2">
+                <Icon as={ChartPieIcon} size={24} />
+                <Text className="text-sm">Analytics</Text>
+              </View>
+            </Button>
+          </Link>
           <Link href="/scanner" asChild>
             <Button className="flex-1 h-20" variant="outline">
               <View className="items-center gap-2">
@@ -248,25 +397,28 @@ export default function Screen() {
         </View>
 
         {/* Pending Approvals for Parents */}
-        {dashboardData?.pendingApprovals && dashboardData.pendingApprovals.length > 0 && (
+        {(dashboardData?.pendingApprovals?.length > 0 || dashboardData?.choresAwaitingApproval?.length > 0) && (
           <Card className="mb-6">
             <CardHeader>
               <CardTitle>Pending Approvals</CardTitle>
             </CardHeader>
             <CardContent>
               <Text className="text-sm text-muted-foreground mb-2">
-                Transactions from family members requiring your approval
+                Transactions and chores from family members requiring your approval
               </Text>
               {dashboardData.pendingApprovals.map((approval: any) => (
-                <View key={approval.id} className="p-3 bg-yellow-50 rounded mb-2">
-                  <Text className="font-medium">{approval.description}</Text>
-                  <Text className="text-sm text-muted-foreground">
-                    Amount: ₹{approval.amount}
-                  </Text>
-                  <Text className="text-sm text-muted-foreground">
-                    Status: {approval.status}
-                  </Text>
-                </View>
+                <PendingApprovalItem
+                  key={approval.transaction.id}
+                  approval={approval}
+                  onDecided={loadDashboardData}
+                />
+              ))}
+              {dashboardData.choresAwaitingApproval.map((approval: any) => (
+                <ChoreApprovalItem
+                  key={approval.chore.id}
+                  approval={approval}
+                  onDecided={loadDashboardData}
+                />
               ))}
             </CardContent>
           </Card>
@@ -0,0 +1,100 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Text } from '@/components/ui/text';
+import { familyRequestMessage } from '@/components/join-family-form';
+import { useUser } from '@clerk/clerk-expo';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import * as React from 'react';
+import { View, Alert } from 'react-native';
+import { ActionError } from '@/db/errors';
+import { api } from '@/lib/api';
+import { parseFamilyInvite } from '@/lib/invites';
+
+// Opened from a FimPay://join?code=... link, or after scanning a guardian's invite QR code
+export default function JoinFamilyScreen() {
+  const { code } = useLocalSearchParams<{ code?: string }>();
+  const { user: clerkUser } = useUser();
+  const [userData, setUserData] = React.useState<any>(null);
+  const [household, setHousehold] = React.useState<Awaited<ReturnType<typeof api.getHousehold>>>(null);
+  const [invite, setInvite] = React.useState<Awaited<ReturnType<typeof api.getFamilyInvite>> | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [sending, setSending] = React.useState(false);
+
+  const inviteCode = code ? parseFamilyInvite(code) : null;
+
+  React.useEffect(() => {
+    const load = async () => {
+      try {
+        if (clerkUser?.id) {
+          setUserData(await api.getMe());
+          setHousehold(await api.getHousehold());
+        }
+        if (inviteCode) {
+          setInvite(await api.getFamilyInvite({ code: inviteCode }));
+        }
+      } catch (error) {
+        console.error('Error loading invite:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [clerkUser?.id, inviteCode]);
+
+  const handleJoin = async () => {
+    if (!userData || !inviteCode) return;
+
+    setSending(true);
+    try {
+      await api.joinFamilyWithInvite({ code: inviteCode, message: familyRequestMessage(userData) });
+      Alert.alert('Success', 'Family account request sent!');
+      router.replace('/profile');
+    } catch (error) {
+      Alert.alert('Error', error instanceof ActionError ? error.message : 'Failed to send request');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View className="flex-1 items-center justify-center">
+        <Text>Loading...</Text>
+      </View>
+    );
+  }
+
+  const parentName = invite ? [invite.parent.firstName, invite.parent.lastName].filter(Boolean).join(' ') : '';
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Join Family' }} />
+      <View className="flex-1 p-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Join Family Account</CardTitle>
+            <CardDescription>
+              {invite
+                ? invite.invite.role === 'child'
+                  ? `${parentName || 'A guardian'} has invited you to their family account`
+                  : `${parentName || 'A guardian'} has invited you to join their household as a ${invite.invite.role}`
+                : 'This invite code is invalid or has expired. Ask your guardian for a new one.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="gap-3">
+            {invite && household ? (
+              <Text className="text-muted-foreground">You are already part of {household.household.name}</Text>
+            ) : invite ? (
+              <Button disabled={sending || !userData} onPress={handleJoin}>
+                <Text>{sending ? 'Sending...' : 'Send join request'}</Text>
+              </Button>
+            ) : null}
+            <Button variant="outline" onPress={() => router.replace('/profile')}>
+              <Text>Back to profile</Text>
+            </Button>
+          </CardContent>
+        </Card>
+      </View>
+    </>
+  );
+}
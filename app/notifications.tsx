@@ -0,0 +1,142 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Text } from '@/components/ui/text';
+import { ActionError } from '@/db/errors';
+import type { Notification, NotificationType } from '@/db/schema';
+import { api } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { useFocusEffect } from '@react-navigation/native';
+import { Stack, router, type Href } from 'expo-router';
+import * as React from 'react';
+import { Alert, Pressable, ScrollView, View } from 'react-native';
+
+// The kinds of notification a user can turn off, in the order they're listed
+const NOTIFICATION_SETTINGS: { type: NotificationType; label: string }[] = [
+  { type: 'approval_needed', label: 'Someone needs my approval' },
+  { type: 'approval_decided', label: 'My purchases and chores are approved or declined' },
+  { type: 'family_request', label: 'Someone asks to join my family' },
+  { type: 'allowance_paid', label: 'My allowance is paid' },
+  { type: 'budget_half_spent', label: 'Half of a budget is spent' },
+  { type: 'budget_nearly_spent', label: '80% of a budget is spent' },
+  { type: 'budget_overspent', label: 'A budget is used up' },
+];
+
+export default function NotificationsScreen() {
+  const [notifications, setNotifications] = React.useState<Notification[]>([]);
+  const [muted, setMuted] = React.useState<NotificationType[]>([]);
+  const [loading, setLoading] = React.useState(true);
+
+  const loadNotifications = React.useCallback(() => {
+    Promise.all([api.getNotifications(), api.getMe()])
+      .then(([inbox, me]) => {
+        setNotifications(inbox);
+        setMuted(me.mutedNotifications);
+      })
+      .catch((error) => console.error('Error loading notifications:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useFocusEffect(loadNotifications);
+
+  const markAllRead = async () => {
+    try {
+      await api.markNotificationsRead();
+      loadNotifications();
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  const open = (notification: Notification) => {
+    if (!notification.readAt) {
+      api.markNotificationsRead({ notificationIds: [notification.id] })
+        .catch((error) => console.error('Error marking notification read:', error));
+      setNotifications((current) =>
+        current.map((item) => (item.id === notification.id ? { ...item, readAt: new Date() } : item))
+      );
+    }
+    if (notification.href) {
+      router.push(notification.href as Href);
+    }
+  };
+
+  const toggle = async (type: NotificationType) => {
+    const next = muted.includes(type) ? muted.filter((item) => item !== type) : [...muted, type];
+    try {
+      setMuted((await api.setMutedNotifications({ muted: next })).mutedNotifications);
+    } catch (error) {
+      Alert.alert('Error', error instanceof ActionError ? error.message : 'Failed to save your settings');
+    }
+  };
+
+  if (loading) {
+    return (
+      <View className="flex-1 items-center justify-center">
+        <Text>Loading...</Text>
+      </View>
+    );
+  }
+
+  const unread = notifications.filter((notification) => !notification.readAt).length;
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Notifications' }} />
+      <ScrollView className="flex-1 p-4">
+        <Card className="mb-6">
+          <CardHeader className="flex-row items-center justify-between">
+            <CardTitle>Inbox</CardTitle>
+            {unread > 0 && (
+              <Button size="sm" variant="outline" onPress={markAllRead}>
+                <Text>Mark all read</Text>
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {notifications.length === 0 ? (
+              <Text className="text-sm text-muted-foreground">Nothing here yet</Text>
+            ) : (
+              notifications.map((notification) => (
+                <Pressable
+                  key={notification.id}
+                  className="flex-row items-start gap-3 border-b border-border py-3"
+                  onPress={() => open(notification)}>
+                  <View
+                    className={cn('mt-1.5 size-2 rounded-full', notification.readAt ? 'bg-transparent' : 'bg-red-600')}
+                  />
+                  <View className="flex-1">
+                    <Text className={cn(notification.readAt ? 'font-normal' : 'font-semibold')}>{notification.title}</Text>
+                    <Text className="text-sm text-muted-foreground">{notification.body}</Text>
+                    <Text className="text-xs text-muted-foreground">
+                      {new Date(notification.createdAt).toLocaleString()}
+                    </Text>
+                  </View>
+                </Pressable>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Tell Me When</CardTitle>
+            <CardDescription>Turned-off notifications stop arriving; ones you already have stay</CardDescription>
+          </CardHeader>
+          <CardContent className="gap-3">
+            {NOTIFICATION_SETTINGS.map(({ type, label }) => {
+              const on = !muted.includes(type);
+              return (
+                <View key={type} className="flex-row items-center justify-between gap-3">
+                  <Text className="flex-1 text-sm">{label}</Text>
+                  <Button size="sm" variant={on ? 'default' : 'outline'} onPress={() => toggle(type)}>
+                    <Text>{on ? 'On' : 'Off'}</Text>
+                  </Button>
+                </View>
+              );
+            })}
+          </CardContent>
+        </Card>
+      </ScrollView>
+    </>
+  );
+}
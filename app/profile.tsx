@@ -7,15 +7,32 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Separator } from '@/components/ui/separator';
+import { PendingApprovalItem } from '@/components/pending-approval-item';
+import { SpendingLimitsForm } from '@/components/spending-limits-form';
+import { AllowanceManager } from '@/components/allowance-manager';
+import { ChoreManager } from '@/components/chore-manager';
+import { ChoreApprovalItem } from '@/components/chore-approval-item';
+import { FamilyInviteCard } from '@/components/family-invite-card';
+import { JoinFamilyForm } from '@/components/join-family-form';
+import { JointAccounts } from '@/components/joint-accounts';
+import { HouseholdHistory } from '@/components/household-history';
 import { useFocusEffect } from '@react-navigation/native';
-import { getUserByClerkId, getUserDashboardData, getFamilyRequests, getUserChildren, createFamilyRequest, approveFamilyRequest, getUserByEmail, createUser } from '@/db/actions';
+import { formatMoney, isCredit } from '@/lib/money';
+import { ActionError } from '@/db/errors';
+import { api } from '@/lib/api';
 
 export default function ProfileScreen() {
   const { user: clerkUser } = useUser();
   const [userData, setUserData] = React.useState<any>(null);
   const [dashboardData, setDashboardData] = React.useState<any>(null);
-  const [familyRequests, setFamilyRequests] = React.useState<any[]>([]);
+  const [familyRequests, setFamilyRequests] = React.useState<Awaited<ReturnType<typeof api.getFamilyRequests>>>([]);
+  const [sentRequests, setSentRequests] = React.useState<any[]>([]);
   const [children, setChildren] = React.useState<any[]>([]);
+  const [editingLimitsFor, setEditingLimitsFor] = React.useState<string | null>(null);
+  const [managingAllowanceFor, setManagingAllowanceFor] = React.useState<string | null>(null);
+  const [managingChoresFor, setManagingChoresFor] = React.useState<string | null>(null);
+  const [myChores, setMyChores] = React.useState<any[]>([]);
+  const [myLimits, setMyLimits] = React.useState<Awaited<ReturnType<typeof api.getSpendingLimits>> | null>(null);
   const [loading, setLoading] = React.useState(true);
 
   const loadUserData = async () => {
@@ -25,31 +42,29 @@ export default function ProfileScreen() {
     }
 
     try {
-      let dbUser = await getUserByClerkId(clerkUser.id);
-      
-      if (!dbUser) {
-        // Create user if they don't exist
-        dbUser = await createUser({
-          clerkId: clerkUser.id,
-          email: clerkUser.primaryEmailAddress?.emailAddress || '',
-          firstName: clerkUser.firstName,
-          lastName: clerkUser.lastName,
-          profileImageUrl: clerkUser.imageUrl,
-        });
+      // The API creates the user from their Clerk profile on their first request
+      const dbUser = await api.getMe();
+      setUserData(dbUser);
+      const data = await api.getDashboardData();
+      setDashboardData(data);
+
+      // Load family requests and the household's children if user is a guardian
+      if (data.household?.role === 'guardian') {
+        const requests = await api.getFamilyRequests();
+        setFamilyRequests(requests);
+        const userChildren = await api.getChildren();
+        setChildren(userChildren);
       }
 
-      if (dbUser) {
-        setUserData(dbUser);
-        const data = await getUserDashboardData(dbUser.id);
-        setDashboardData(data);
+      // Load requests this user has sent to join a family account
+      if (!data.household) {
+        setSentRequests(await api.getSentFamilyRequests());
+      }
 
-        // Load family requests if user is a parent
-        if (dbUser.role === 'parent') {
-          const requests = await getFamilyRequests(dbUser.id);
-          setFamilyRequests(requests);
-          const userChildren = await getUserChildren(dbUser.id);
-          setChildren(userChildren);
-        }
+      // Load chores if user is a child in a household
+      if (data.household?.role === 'child') {
+        setMyChores(await api.getMyChores());
+        setMyLimits(await api.getSpendingLimits({ childId: dbUser.id }));
       }
     } catch (error) {
       console.error('Error loading user data:', error);
@@ -59,12 +74,16 @@ export default function ProfileScreen() {
         email: clerkUser?.primaryEmailAddress?.emailAddress || 'demo@example.com',
         firstName: clerkUser?.firstName || 'Demo',
         lastName: clerkUser?.lastName || 'User',
-        role: 'child'
       });
       setDashboardData({
-        totalBalance: '0.00',
+        totalBalance: 0,
+        availableBalance: 0,
         recentTransactions: [],
         pendingApprovals: [],
+        choresAwaitingApproval: [],
+        recentDecisions: [],
+        nextAllowance: null,
+        household: null,
         accounts: []
       });
     } finally {
@@ -78,46 +97,74 @@ export default function ProfileScreen() {
     }, [clerkUser?.id])
   );
 
-  const handleJoinFamilyAccount = async () => {
-    Alert.prompt(
-      'Join Family Account',
-      'Enter parent email address:',
-      async (parentEmail) => {
-        if (!parentEmail || !userData) return;
-
-        try {
-          // Find parent by email
-          const parent = await getUserByEmail(parentEmail); // Search by email
-          if (!parent) {
-            Alert.alert('Error', 'Parent not found with this email');
-            return;
-          }
-
-          await createFamilyRequest({
-            childId: userData.id,
-            parentId: parent.id,
-            message: `${userData.firstName} wants to join your family account`
-          });
-
-          Alert.alert('Success', 'Family account request sent!');
-          loadUserData();
-        } catch (error) {
-          Alert.alert('Error', 'Failed to send request');
-        }
-      }
-    );
+  const handleSubmitChore = async (choreId: string) => {
+    try {
+      await api.submitChore({ choreId });
+      Alert.alert('Success', 'Sent to your parent for approval!');
+      loadUserData();
+    } catch (error) {
+      Alert.alert('Error', error instanceof ActionError ? error.message : 'Failed to update chore');
+    }
   };
 
   const handleApproveRequest = async (requestId: string) => {
     try {
-      await approveFamilyRequest(requestId);
+      await api.approveFamilyRequest({ requestId });
       Alert.alert('Success', 'Family member approved!');
       loadUserData();
     } catch (error) {
-      Alert.alert('Error', 'Failed to approve request');
+      Alert.alert('Error', error instanceof ActionError ? error.message : 'Failed to approve request');
+    }
+  };
+
+  const handleRejectRequest = async (requestId: string) => {
+    try {
+      await api.rejectFamilyRequest({ requestId });
+      loadUserData();
+    } catch (error) {
+      Alert.alert('Error', error instanceof ActionError ? error.message : 'Failed to reject request');
+    }
+  };
+
+  const handleCancelRequest = async (requestId: string) => {
+    try {
+      await api.cancelFamilyRequest({ requestId });
+      loadUserData();
+    } catch (error) {
+      Alert.alert('Error', error instanceof ActionError ? error.message : 'Failed to withdraw request');
     }
   };
 
+  // Membership changes can't be undone from the app, so ask first
+  const confirmThen = (title: string, message: string, action: () => Promise<unknown>, failure: string) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Confirm',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await action();
+            loadUserData();
+          } catch (error) {
+            Alert.alert('Error', error instanceof ActionError ? error.message : failure);
+          }
+        },
+      },
+    ]);
+  };
+
+  const household = dashboardData?.household;
+  const leaveRequested = (childId: string) =>
+    household?.members.some((member: any) => member.user.id === childId && member.leaveRequestedAt);
+  // Other adults in the household, alongside this guardian
+  const coMembers = (household?.members ?? []).filter(
+    (member: any) => member.role !== 'child' && member.user.id !== userData?.id
+  );
+
+  // Accounts this user can pay allowances and chore rewards from
+  const spendableAccounts = (dashboardData?.accounts ?? []).filter((account: any) => account.permission === 'spend');
+
   if (loading) {
     return (
       <View className="flex-1 items-center justify-center">
@@ -144,7 +191,7 @@ export default function ProfileScreen() {
                 <CardTitle>{clerkUser?.firstName} {clerkUser?.lastName}</CardTitle>
                 <Text className="text-muted-foreground">{clerkUser?.primaryEmailAddress?.emailAddress}</Text>
                 <Text className="text-sm text-muted-foreground capitalize">
-                  Role: {userData?.role || 'Child'}
+                  Role: {household?.role || 'Not in a household'}
                 </Text>
               </View>
             </View>
@@ -158,51 +205,255 @@ export default function ProfileScreen() {
           </CardHeader>
           <CardContent>
             <Text className="text-2xl font-bold text-green-600">
-              ₹{dashboardData?.totalBalance || '0.00'}
+              {formatMoney(dashboardData?.totalBalance ?? 0)}
             </Text>
             <Text className="text-muted-foreground">Total Balance</Text>
           </CardContent>
         </Card>
 
+        {/* Joint Accounts */}
+        {userData && (
+          <Card className="mb-4">
+            <CardHeader>
+              <CardTitle>Shared Accounts</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <JointAccounts
+                userId={userData.id}
+                accounts={dashboardData?.accounts ?? []}
+                candidates={(household?.members ?? [])
+                  .map((member: any) => member.user)
+                  .filter((user: any) => user.id !== userData.id)}
+                onChanged={loadUserData}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Joint Family Account Section */}
         <Card className="mb-4">
           <CardHeader>
             <CardTitle>Joint Family Account</CardTitle>
           </CardHeader>
           <CardContent className="gap-3">
-            {userData?.role === 'child' && !userData?.parentId && (
-              <Button onPress={handleJoinFamilyAccount}>
-                <Text>Join Family Account</Text>
-              </Button>
+            {userData && !household && (
+              <View className="gap-3">
+                <JoinFamilyForm
+                  user={userData}
+                  onSent={() => {
+                    Alert.alert('Success', 'Family account request sent!');
+                    loadUserData();
+                  }}
+                />
+                <Separator />
+                <Text className="text-sm text-muted-foreground">Are you a parent?</Text>
+                <FamilyInviteCard onCreated={loadUserData} />
+              </View>
             )}
 
-            {userData?.role === 'child' && userData?.parentId && (
+            {sentRequests.length > 0 && !household && (
+              <View className="gap-2">
+                <Text className="font-medium">Sent Requests:</Text>
+                {sentRequests.map(({ request, parent }) => (
+                  <View key={request.id} className="flex-row justify-between items-center p-2 bg-muted rounded">
+                    <View className="flex-1">
+                      <Text>{[parent.firstName, parent.lastName].filter(Boolean).join(' ') || parent.email}</Text>
+                      <Text className="text-sm text-muted-foreground capitalize">
+                        {request.status}
+                        {request.status === 'pending'
+                          ? ` · expires ${new Date(request.expiresAt).toLocaleDateString()}`
+                          : ''}
+                      </Text>
+                    </View>
+                    {request.status === 'pending' && (
+                      <Button size="sm" variant="outline" onPress={() => handleCancelRequest(request.id)}>
+                        <Text>Withdraw</Text>
+                      </Button>
+                    )}
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {household && household.role !== 'guardian' && (
               <View>
-                <Text className="text-green-600">✓ Connected to Family Account</Text>
-                <Text className="text-sm text-muted-foreground">
-                  Your transactions require parental approval
-                </Text>
+                <Text className="text-green-600">✓ Connected to {household.household.name}</Text>
+                {household.role === 'child' && (
+                  <Text className="text-sm text-muted-foreground">
+                    {approvalRule(myLimits?.autoApproveThreshold ?? null)}
+                  </Text>
+                )}
+                {household.role === 'child' && (household.leaveRequestedAt ? (
+                  <View className="mt-2 gap-2">
+                    <Text className="text-sm text-muted-foreground">
+                      You've asked to leave. A guardian needs to confirm it.
+                    </Text>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onPress={() => api.cancelLeaveHousehold().then(loadUserData, (error) =>
+                        Alert.alert('Error', error instanceof ActionError ? error.message : 'Failed to withdraw request')
+                      )}>
+                      <Text>Stay in household</Text>
+                    </Button>
+                  </View>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="mt-2"
+                    onPress={() => confirmThen(
+                      'Leave household',
+                      'Ask your guardians to let you leave? They will need to confirm it.',
+                      () => api.requestLeaveHousehold(),
+                      'Failed to send request'
+                    )}>
+                    <Text>Leave household</Text>
+                  </Button>
+                ))}
               </View>
             )}
 
-            {userData?.role === 'parent' && (
+            {household?.role === 'guardian' && (
               <View className="gap-3">
+                <Text className="font-medium">{household.household.name}</Text>
+                <FamilyInviteCard />
+                {coMembers.map(({ user, role }: any) => (
+                  <View key={user.id} className="flex-row justify-between items-center p-2 bg-muted rounded">
+                    <View>
+                      <Text>{user.firstName} {user.lastName}</Text>
+                      <Text className="text-sm text-muted-foreground">{user.email}</Text>
+                    </View>
+                    <Text className="text-sm text-muted-foreground capitalize">{role}</Text>
+                  </View>
+                ))}
+                <FamilyInviteCard role="guardian" />
                 <Text className="font-medium">Family Members:</Text>
                 {children.map((child) => (
-                  <View key={child.id} className="flex-row justify-between items-center p-2 bg-muted rounded">
-                    <Text>{child.firstName} {child.lastName}</Text>
-                    <Text className="text-sm text-muted-foreground">{child.email}</Text>
+                  <View key={child.id} className="gap-2">
+                    <View className="flex-row justify-between items-center p-2 bg-muted rounded">
+                      <View>
+                        <Text>{child.firstName} {child.lastName}</Text>
+                        <Text className="text-sm text-muted-foreground">{child.email}</Text>
+                      </View>
+                      <View className="flex-row gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onPress={() => setManagingChoresFor(managingChoresFor === child.id ? null : child.id)}
+                        >
+                          <Text>Chores</Text>
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onPress={() => setManagingAllowanceFor(managingAllowanceFor === child.id ? null : child.id)}
+                        >
+                          <Text>Allowance</Text>
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onPress={() => setEditingLimitsFor(editingLimitsFor === child.id ? null : child.id)}
+                        >
+                          <Text>Limits</Text>
+                        </Button>
+                      </View>
+                    </View>
+                    {leaveRequested(child.id) && (
+                      <View className="gap-2 rounded bg-orange-50 p-2">
+                        <Text className="text-sm">{child.firstName || child.email} has asked to leave the household</Text>
+                        <View className="flex-row gap-2">
+                          <Button
+                            size="sm"
+                            onPress={() => confirmThen(
+                              'Let them leave',
+                              `${child.firstName || child.email} will no longer be part of ${household.household.name}.`,
+                              () => api.unlinkChild({ childId: child.id }),
+                              'Failed to unlink'
+                            )}>
+                            <Text>Let them leave</Text>
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onPress={() => api.declineLeaveHousehold({ childId: child.id }).then(loadUserData, (error) =>
+                              Alert.alert('Error', error instanceof ActionError ? error.message : 'Failed to decline')
+                            )}>
+                            <Text>Decline</Text>
+                          </Button>
+                        </View>
+                      </View>
+                    )}
+                    <View className="flex-row justify-end gap-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onPress={() => confirmThen(
+                          'Graduate',
+                          `${child.firstName || child.email} will become an adult member: their spending limits, ` +
+                            'pending approvals, chores and allowances end, and they keep their accounts.',
+                          () => api.graduateChild({ childId: child.id }),
+                          'Failed to graduate'
+                        )}>
+                        <Text>Graduate</Text>
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onPress={() => confirmThen(
+                          'Unlink',
+                          `Remove ${child.firstName || child.email} from ${household.household.name}? ` +
+                            'They keep their accounts and history.',
+                          () => api.unlinkChild({ childId: child.id }),
+                          'Failed to unlink'
+                        )}>
+                        <Text className="text-destructive">Unlink</Text>
+                      </Button>
+                    </View>
+                    {managingChoresFor === child.id && (
+                      <ChoreManager
+                        childId={child.id}
+                        accounts={spendableAccounts}
+                      />
+                    )}
+                    {managingAllowanceFor === child.id && (
+                      <AllowanceManager
+                        childId={child.id}
+                        accounts={spendableAccounts}
+                      />
+                    )}
+                    {editingLimitsFor === child.id && (
+                      <SpendingLimitsForm
+                        childId={child.id}
+                        onSaved={() => {
+                          setEditingLimitsFor(null);
+                          Alert.alert('Success', 'Spending limits updated!');
+                        }}
+                        onCancel={() => setEditingLimitsFor(null)}
+                      />
+                    )}
                   </View>
                 ))}
 
-                {familyRequests.length > 0 && (
+                {familyRequests.some(({ request }) => request.status === 'pending') && (
                   <View className="mt-4">
                     <Text className="font-medium mb-2">Pending Requests:</Text>
                     {familyRequests
-                      .filter(req => req.status === 'pending')
-                      .map((request) => (
+                      .filter(({ request }) => request.status === 'pending')
+                      .map(({ request, requester }) => (
                       <View key={request.id} className="p-3 bg-orange-50 rounded mb-2">
-                        <Text>{request.message}</Text>
+                        <Text className="font-medium">
+                          {[requester.firstName, requester.lastName].filter(Boolean).join(' ') || requester.email}
+                        </Text>
+                        <Text className="text-sm text-muted-foreground">
+                          {requester.email}
+                          {request.role === 'child' ? '' : ` · joining as a ${request.role}`}
+                        </Text>
+                        {request.message ? <Text className="mt-1">{request.message}</Text> : null}
+                        <Text className="text-xs text-muted-foreground">
+                          Expires {new Date(request.expiresAt).toLocaleDateString()}
+                        </Text>
                         <View className="flex-row gap-2 mt-2">
                           <Button
                             size="sm"
@@ -213,7 +464,7 @@ export default function ProfileScreen() {
                           <Button
                             size="sm"
                             variant="outline"
-                            onPress={() => {/* Handle reject */}}
+                            onPress={() => handleRejectRequest(request.id)}
                           >
                             <Text>Reject</Text>
                           </Button>
@@ -224,6 +475,8 @@ export default function ProfileScreen() {
                 )}
               </View>
             )}
+
+            {userData && household && <HouseholdHistory refreshKey={dashboardData} />}
           </CardContent>
         </Card>
 
@@ -240,8 +493,8 @@ export default function ProfileScreen() {
                     <Text className="font-medium capitalize">{transaction.type}</Text>
                     <Text className="text-sm text-muted-foreground">{transaction.description}</Text>
                   </View>
-                  <Text className={`font-medium ${transaction.type === 'deposit' ? 'text-green-600' : 'text-red-600'}`}>
-                    {transaction.type === 'deposit' ? '+' : '-'}₹{transaction.amount}
+                  <Text className={`font-medium ${isCredit(transaction) ? 'text-green-600' : 'text-red-600'}`}>
+                    {isCredit(transaction) ? '+' : '-'}{formatMoney(transaction.amount)}
                   </Text>
                 </View>
               ))}
@@ -249,23 +502,59 @@ export default function ProfileScreen() {
           </Card>
         )}
 
+        {/* Chores for Children */}
+        {myChores.length > 0 && (
+          <Card className="mb-4">
+            <CardHeader>
+              <CardTitle>My Chores</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {myChores.map((chore) => (
+                <View key={chore.id} className="flex-row justify-between items-center py-2 border-b border-border">
+                  <View className="flex-1">
+                    <Text className="font-medium">{chore.title}</Text>
+                    <Text className="text-sm text-muted-foreground">
+                      Earn {formatMoney(chore.reward)} · due {new Date(chore.dueDate).toLocaleDateString()}
+                    </Text>
+                    {chore.parentComment ? (
+                      <Text className="text-sm text-muted-foreground">"{chore.parentComment}"</Text>
+                    ) : null}
+                  </View>
+                  {chore.status === 'open' ? (
+                    <Button size="sm" onPress={() => handleSubmitChore(chore.id)}>
+                      <Text>Mark done</Text>
+                    </Button>
+                  ) : (
+                    <Text className={chore.status === 'approved' ? 'text-green-600' : 'text-muted-foreground'}>
+                      {chore.status === 'approved' ? 'Paid' : 'Awaiting approval'}
+                    </Text>
+                  )}
+                </View>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Pending Approvals for Parents */}
-        {dashboardData?.pendingApprovals && dashboardData.pendingApprovals.length > 0 && (
+        {(dashboardData?.pendingApprovals?.length > 0 || dashboardData?.choresAwaitingApproval?.length > 0) && (
           <Card className="mb-4">
             <CardHeader>
               <CardTitle>Pending Approvals</CardTitle>
             </CardHeader>
             <CardContent>
               {dashboardData.pendingApprovals.map((approval: any) => (
-                <View key={approval.id} className="p-3 bg-yellow-50 rounded mb-2">
-                  <Text className="font-medium">{approval.description}</Text>
-                  <Text className="text-sm text-muted-foreground">
-                    Amount: ₹{approval.amount}
-                  </Text>
-                  <Text className="text-sm text-muted-foreground">
-                    Child: {approval.child?.firstName} {approval.child?.lastName}
-                  </Text>
-                </View>
+                <PendingApprovalItem
+                  key={approval.transaction.id}
+                  approval={approval}
+                  onDecided={loadUserData}
+                />
+              ))}
+              {dashboardData.choresAwaitingApproval.map((approval: any) => (
+                <ChoreApprovalItem
+                  key={approval.chore.id}
+                  approval={approval}
+                  onDecided={loadUserData}
+                />
               ))}
             </CardContent>
           </Card>
@@ -273,4 +562,12 @@ export default function ProfileScreen() {
       </ScrollView>
     </>
   );
-}
\ No newline at end of file
+}
+
+// What a child's spending needs approval for, from the auto-approve threshold their
+// guardians set. Without one, every payment waits for a guardian.
+function approvalRule(autoApproveThreshold: number | null) {
+  return autoApproveThreshold
+    ? `Spending over ${formatMoney(autoApproveThreshold)} needs a guardian's approval`
+    : "Your spending needs a guardian's approval";
+}
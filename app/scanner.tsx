@@ -1,4 +1,4 @@
-import { Stack } from 'expo-router';
+import { Stack, router } from 'expo-router';
 import * as React from 'react';
 import { View, TouchableOpacity, Alert, StyleSheet, Dimensions } from 'react-native';
 import { Button } from '@/components/ui/button';
@@ -7,12 +7,22 @@ import { Icon } from '@/components/ui/icon';
 import { Text } from '@/components/ui/text';
 import { ScanLine, Camera, QrCode, CreditCard, Smartphone } from 'lucide-react-native';
 import { CameraView, useCameraPermissions } from 'expo-camera';
+import { useFocusEffect } from '@react-navigation/native';
+import { parseFamilyInvite } from '@/lib/invites';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
 export default function ScannerScreen() {
   const [scanMode, setScanMode] = React.useState<'qr' | 'card' | 'receipt'>('qr');
   const [permission, requestPermission] = useCameraPermissions();
+  // The camera reports the same code many times a second; act on it once per visit
+  const handledScan = React.useRef(false);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      handledScan.current = false;
+    }, [])
+  );
 
   if (!permission) {
     // Camera permissions are still loading
@@ -32,6 +42,16 @@ export default function ScannerScreen() {
   }
 
   const handleBarCodeScanned = ({ type, data }: { type: string; data: string }) => {
+    if (handledScan.current) return;
+
+    // A parent's family invite opens the join screen
+    const inviteCode = parseFamilyInvite(data);
+    if (inviteCode) {
+      handledScan.current = true;
+      router.push({ pathname: '/join', params: { code: inviteCode } });
+      return;
+    }
+
     Alert.alert(`Bar code with type ${type} and data ${data} has been scanned!`);
     // Here you can process the scanned data, e.g., send to backend
   };
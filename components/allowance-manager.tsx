@@ -0,0 +1,221 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+import { ActionError } from '@/db/errors';
+import type { Account, AllowanceFrequency, AllowanceRun, AllowanceSchedule } from '@/db/schema';
+import { api } from '@/lib/api';
+import { parseDateInput, toDateInput } from '@/lib/dates';
+import { formatMoney, parseMoney, toRupeeString } from '@/lib/money';
+import * as React from 'react';
+import { Alert, View } from 'react-native';
+
+const FREQUENCIES: AllowanceFrequency[] = ['weekly', 'fortnightly', 'monthly'];
+
+type AllowanceManagerProps = {
+  childId: string;
+  accounts: Account[];
+};
+
+export function AllowanceManager({ childId, accounts }: AllowanceManagerProps) {
+  const [schedules, setSchedules] = React.useState<{ schedule: AllowanceSchedule; lastRun: AllowanceRun | null }[]>([]);
+  // The schedule being edited, 'new' for the create form, or null when the form is closed
+  const [editing, setEditing] = React.useState<AllowanceSchedule | 'new' | null>(null);
+  const [busy, setBusy] = React.useState(false);
+
+  const loadSchedules = React.useCallback(() => {
+    api.getAllowanceSchedules({ childId })
+      .then(setSchedules)
+      .catch((err) => console.error('Error loading allowances:', err));
+  }, [childId]);
+
+  React.useEffect(loadSchedules, [loadSchedules]);
+
+  const act = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      loadSchedules();
+    } catch (error) {
+      Alert.alert('Error', error instanceof ActionError ? error.message : failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <View className="gap-3 rounded border border-border p-3">
+      {schedules.length === 0 && editing === null && (
+        <Text className="text-sm text-muted-foreground">No allowance set up yet</Text>
+      )}
+      {schedules.map(({ schedule, lastRun }) => (
+        <View key={schedule.id} className="gap-2 rounded bg-muted p-2">
+          <View>
+            <Text className="font-medium">
+              {formatMoney(schedule.amount)} <Text className="capitalize">{schedule.frequency}</Text>
+            </Text>
+            <Text className="text-sm text-muted-foreground">
+              {schedule.isPaused ? 'Paused' : `Next on ${new Date(schedule.nextRunAt).toLocaleDateString()}`}
+            </Text>
+            {lastRun?.status === 'failed' && (
+              <Text className="text-sm text-destructive">
+                Missed {new Date(lastRun.scheduledFor).toLocaleDateString()}: {lastRun.failureReason}
+              </Text>
+            )}
+          </View>
+          <View className="flex-row gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1"
+              disabled={busy}
+              onPress={() => act(() => api.setAllowancePaused({ scheduleId: schedule.id, paused: !schedule.isPaused }), 'Failed to update allowance')}>
+              <Text>{schedule.isPaused ? 'Resume' : 'Pause'}</Text>
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1"
+              disabled={busy || schedule.isPaused}
+              onPress={() => act(() => api.skipNextAllowance({ scheduleId: schedule.id }), 'Failed to skip allowance')}>
+              <Text>Skip next</Text>
+            </Button>
+            <Button size="sm" variant="outline" className="flex-1" disabled={busy} onPress={() => setEditing(schedule)}>
+              <Text>Edit</Text>
+            </Button>
+          </View>
+        </View>
+      ))}
+      {editing === null ? (
+        <Button size="sm" disabled={!accounts.length} onPress={() => setEditing('new')}>
+          <Text>New allowance</Text>
+        </Button>
+      ) : (
+        <AllowanceScheduleForm
+          key={editing === 'new' ? 'new' : editing.id}
+          childId={childId}
+          accounts={accounts}
+          schedule={editing === 'new' ? null : editing}
+          onSaved={() => {
+            setEditing(null);
+            loadSchedules();
+          }}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+    </View>
+  );
+}
+
+type AllowanceScheduleFormProps = {
+  childId: string;
+  accounts: Account[];
+  schedule: AllowanceSchedule | null;
+  onSaved: () => void;
+  onCancel: () => void;
+};
+
+function AllowanceScheduleForm({ childId, accounts, schedule, onSaved, onCancel }: AllowanceScheduleFormProps) {
+  const [amount, setAmount] = React.useState(schedule ? toRupeeString(schedule.amount) : '');
+  const [frequency, setFrequency] = React.useState<AllowanceFrequency>(schedule?.frequency ?? 'weekly');
+  const [sourceAccountId, setSourceAccountId] = React.useState(schedule?.sourceAccountId ?? accounts[0]?.id);
+  const [startDate, setStartDate] = React.useState(toDateInput(schedule ? new Date(schedule.startDate) : new Date()));
+  const [error, setError] = React.useState<string | null>(null);
+  const [saving, setSaving] = React.useState(false);
+
+  const onSubmit = async () => {
+    const parsedAmount = parseMoney(amount);
+    if (parsedAmount === null || parsedAmount <= 0) {
+      setError('Please enter a valid amount');
+      return;
+    }
+    const start = parseDateInput(startDate);
+    if (!start) {
+      setError('Start date must be YYYY-MM-DD');
+      return;
+    }
+    if (!sourceAccountId) return;
+
+    setError(null);
+    setSaving(true);
+    try {
+      if (schedule) {
+        const startChanged = toDateInput(start) !== toDateInput(new Date(schedule.startDate));
+        await api.updateAllowanceSchedule({
+          scheduleId: schedule.id,
+          changes: {
+            amount: parsedAmount,
+            sourceAccountId,
+            // Only re-plan the schedule when its timing actually changed
+            ...(frequency !== schedule.frequency || startChanged ? { frequency, startDate: start } : {}),
+          },
+        });
+      } else {
+        await api.createAllowanceSchedule({ childId, sourceAccountId, amount: parsedAmount, frequency, startDate: start });
+      }
+      onSaved();
+    } catch (err) {
+      setError(err instanceof ActionError ? err.message : 'Failed to save allowance');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View className="gap-3">
+      <View className="gap-1.5">
+        <Label htmlFor="allowanceAmount">Amount (₹)</Label>
+        <Input
+          id="allowanceAmount"
+          value={amount}
+          placeholder="0.00"
+          keyboardType="decimal-pad"
+          onChangeText={setAmount}
+        />
+      </View>
+      <View className="gap-1.5">
+        <Label>Frequency</Label>
+        <View className="flex-row flex-wrap gap-2">
+          {FREQUENCIES.map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={option === frequency ? 'default' : 'outline'}
+              onPress={() => setFrequency(option)}>
+              <Text className="capitalize">{option}</Text>
+            </Button>
+          ))}
+        </View>
+      </View>
+      {accounts.length > 1 && (
+        <View className="gap-1.5">
+          <Label>Pay from</Label>
+          <View className="flex-row flex-wrap gap-2">
+            {accounts.map((account) => (
+              <Button
+                key={account.id}
+                size="sm"
+                variant={account.id === sourceAccountId ? 'default' : 'outline'}
+                onPress={() => setSourceAccountId(account.id)}>
+                <Text>{account.accountName}</Text>
+              </Button>
+            ))}
+          </View>
+        </View>
+      )}
+      <View className="gap-1.5">
+        <Label htmlFor="allowanceStart">Starting</Label>
+        <Input id="allowanceStart" value={startDate} placeholder="YYYY-MM-DD" onChangeText={setStartDate} />
+      </View>
+      {error ? <Text className="text-sm font-medium text-destructive">{error}</Text> : null}
+      <View className="flex-row gap-2">
+        <Button size="sm" className="flex-1" disabled={saving} onPress={onSubmit}>
+          <Text>{saving ? 'Saving...' : 'Save allowance'}</Text>
+        </Button>
+        <Button size="sm" variant="outline" className="flex-1" onPress={onCancel}>
+          <Text>Cancel</Text>
+        </Button>
+      </View>
+    </View>
+  );
+}
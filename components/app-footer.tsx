@@ -1,7 +1,7 @@
 import { Icon } from '@/components/ui/icon';
 import { Text } from '@/components/ui/text';
 import { cn } from '@/lib/utils';
-import { HomeIcon, ScanLine, Bot, User } from 'lucide-react-native';
+import { HomeIcon, ScanLine, Bot, User, Wallet } from 'lucide-react-native';
 import { Link, usePathname } from 'expo-router';
 import * as React from 'react';
 import { View, Pressable } from 'react-native';
@@ -13,10 +13,11 @@ export function AppFooter() {
   const maroonHex = '#800000';
 
   // active tab state keeps the tab highlighted on press; syncs with pathname
-  const [active, setActive] = React.useState<'home' | 'ai' | 'profile' | 'scanner' | null>(() => {
+  const [active, setActive] = React.useState<'home' | 'ai' | 'budgets' | 'profile' | 'scanner' | null>(() => {
     if (pathname === '/' || pathname === '/index') return 'home';
     if (pathname === '/profile') return 'profile';
     if (pathname === '/ai') return 'ai';
+    if (pathname.startsWith('/budgets')) return 'budgets';
     if (pathname === '/scanner') return 'scanner';
     return null;
   });
@@ -26,12 +27,14 @@ export function AppFooter() {
     if (pathname === '/' || pathname === '/index') setActive('home');
     else if (pathname === '/profile') setActive('profile');
     else if (pathname === '/ai') setActive('ai');
+    else if (pathname.startsWith('/budgets')) setActive('budgets');
     else if (pathname === '/scanner') setActive('scanner');
   }, [pathname]);
 
   const isHome = active === 'home';
   const isProfile = active === 'profile';
   const isAi = active === 'ai';
+  const isBudgets = active === 'budgets';
   const isScanner = active === 'scanner';
 
 
@@ -86,6 +89,28 @@ export function AppFooter() {
           </Pressable>
         </Link>
 
+        {/* Budgets Navigation */}
+        <Link href="/budgets" asChild>
+          <Pressable
+            android_ripple={{ color: 'transparent' }}
+            className="relative flex-1 items-center justify-center py-4"
+            onPress={() => setActive('budgets')}
+          >
+            <Icon
+              as={Wallet}
+              size={24}
+              color={isBudgets ? maroonHex : '#71717a'}
+            />
+
+            {isBudgets && (
+              <View
+                className="absolute bottom-0 h-[3px] w-3/5 rounded-t-full"
+                style={{ backgroundColor: maroonHex }}
+              />
+            )}
+          </Pressable>
+        </Link>
+
         {/* Scanner Navigation */}
         <Link href="/scanner" asChild>
           <Pressable
@@ -0,0 +1,153 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+import { ActionError } from '@/db/errors';
+import type { Budget } from '@/db/schema';
+import { api } from '@/lib/api';
+import { BUDGET_PERIOD_NAMES, BUDGET_PERIODS, budgetPeriodEnd, budgetPeriodStart, isBudgetPeriod, type BudgetPeriod } from '@/lib/budgets';
+import { isTransactionCategory, TRANSACTION_CATEGORIES, type TransactionCategory } from '@/lib/categories';
+import { parseDateInput, toDateInput } from '@/lib/dates';
+import { parseMoney, toRupeeString } from '@/lib/money';
+import * as React from 'react';
+import { View } from 'react-native';
+
+type BudgetFormProps = {
+  budget: Budget | null; // null to create one
+  onSaved: (budget: Budget) => void;
+  onCancel: () => void;
+};
+
+export function BudgetForm({ budget, onSaved, onCancel }: BudgetFormProps) {
+  const [category, setCategory] = React.useState<TransactionCategory>(
+    budget && isTransactionCategory(budget.category) ? budget.category : TRANSACTION_CATEGORIES[0]
+  );
+  const [amount, setAmount] = React.useState(budget ? toRupeeString(budget.amount) : '');
+  const [period, setPeriod] = React.useState<BudgetPeriod>(
+    budget && isBudgetPeriod(budget.period) ? budget.period : 'monthly'
+  );
+  const [startDate, setStartDate] = React.useState(
+    toDateInput(budget ? new Date(budget.startDate) : budgetPeriodStart(new Date(), 'monthly'))
+  );
+  const [recurring, setRecurring] = React.useState(budget?.recurring ?? false);
+  const [carryOver, setCarryOver] = React.useState(budget?.carryOver ?? false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [saving, setSaving] = React.useState(false);
+
+  // A new period starts at the beginning of the week, month or year around the chosen date
+  const choosePeriod = (option: BudgetPeriod) => {
+    setPeriod(option);
+    setStartDate(toDateInput(budgetPeriodStart(parseDateInput(startDate) ?? new Date(), option)));
+  };
+
+  const onSubmit = async () => {
+    const parsedAmount = parseMoney(amount);
+    if (parsedAmount === null || parsedAmount <= 0) {
+      setError('Please enter a valid amount');
+      return;
+    }
+    const start = parseDateInput(startDate);
+    if (!start) {
+      setError('Start date must be YYYY-MM-DD');
+      return;
+    }
+
+    const fields = {
+      category,
+      amount: parsedAmount,
+      period,
+      startDate: start,
+      endDate: budgetPeriodEnd(start, period),
+      recurring,
+      carryOver: recurring && carryOver,
+    };
+    setError(null);
+    setSaving(true);
+    try {
+      onSaved(budget ? await api.updateBudget({ budgetId: budget.id, changes: fields }) : await api.createBudget(fields));
+    } catch (err) {
+      setError(err instanceof ActionError ? err.message : 'Failed to save budget');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View className="gap-3">
+      <View className="gap-1.5">
+        <Label>Category</Label>
+        <View className="flex-row flex-wrap gap-2">
+          {TRANSACTION_CATEGORIES.map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={option === category ? 'default' : 'outline'}
+              onPress={() => setCategory(option)}>
+              <Text className="capitalize">{option}</Text>
+            </Button>
+          ))}
+        </View>
+      </View>
+      <View className="gap-1.5">
+        <Label htmlFor="budgetAmount">Amount (₹)</Label>
+        <Input id="budgetAmount" value={amount} placeholder="0.00" keyboardType="decimal-pad" onChangeText={setAmount} />
+      </View>
+      <View className="gap-1.5">
+        <Label>Period</Label>
+        <View className="flex-row flex-wrap gap-2">
+          {BUDGET_PERIODS.map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={option === period ? 'default' : 'outline'}
+              onPress={() => choosePeriod(option)}>
+              <Text className="capitalize">{option}</Text>
+            </Button>
+          ))}
+        </View>
+      </View>
+      <View className="gap-1.5">
+        <Label htmlFor="budgetStart">Starting</Label>
+        <Input id="budgetStart" value={startDate} placeholder="YYYY-MM-DD" onChangeText={setStartDate} />
+      </View>
+      <View className="gap-1.5">
+        <Label>Repeat</Label>
+        <View className="flex-row flex-wrap gap-2">
+          <Button size="sm" variant={recurring ? 'outline' : 'default'} onPress={() => setRecurring(false)}>
+            <Text>Just this {BUDGET_PERIOD_NAMES[period]}</Text>
+          </Button>
+          <Button size="sm" variant={recurring ? 'default' : 'outline'} onPress={() => setRecurring(true)}>
+            <Text>Every {BUDGET_PERIOD_NAMES[period]}</Text>
+          </Button>
+        </View>
+      </View>
+      {recurring && (
+        <View className="gap-1.5">
+          <Label>What's left at the end</Label>
+          <View className="flex-row flex-wrap gap-2">
+            <Button size="sm" variant={carryOver ? 'outline' : 'default'} onPress={() => setCarryOver(false)}>
+              <Text>Start fresh</Text>
+            </Button>
+            <Button size="sm" variant={carryOver ? 'default' : 'outline'} onPress={() => setCarryOver(true)}>
+              <Text>Carry it forward</Text>
+            </Button>
+          </View>
+          {carryOver && (
+            <Text className="text-xs text-muted-foreground">
+              Money left over is added to the next {BUDGET_PERIOD_NAMES[period]}; overspending comes off it.
+            </Text>
+          )}
+        </View>
+      )}
+      {error ? <Text className="text-sm font-medium text-destructive">{error}</Text> : null}
+      <View className="flex-row gap-2">
+        <Button size="sm" className="flex-1" disabled={saving} onPress={onSubmit}>
+          <Text>{saving ? 'Saving...' : 'Save budget'}</Text>
+        </Button>
+        <Button size="sm" variant="outline" className="flex-1" onPress={onCancel}>
+          <Text>Cancel</Text>
+        </Button>
+      </View>
+    </View>
+  );
+}
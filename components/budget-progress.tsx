@@ -0,0 +1,35 @@
+import { Text } from '@/components/ui/text';
+import { compareMoney, formatMoney, subtractMoney, type Money } from '@/lib/money';
+import { cn } from '@/lib/utils';
+import { View } from 'react-native';
+
+type BudgetProgressProps = {
+  spent: Money;
+  amount: Money;
+  className?: string;
+};
+
+// A bar filling up as the budget is spent: amber from 80%, red once it's overspent
+export function BudgetProgress({ spent, amount, className }: BudgetProgressProps) {
+  const ratio = amount > 0 ? spent / amount : 1;
+  const over = compareMoney(spent, amount) > 0;
+
+  return (
+    <View className={cn('gap-1', className)}>
+      <View className="h-2 overflow-hidden rounded-full bg-muted">
+        <View
+          className={cn('h-full rounded-full', over ? 'bg-red-600' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-green-600')}
+          style={{ width: `${Math.min(ratio, 1) * 100}%` }}
+        />
+      </View>
+      <View className="flex-row justify-between">
+        <Text className="text-sm text-muted-foreground">
+          {formatMoney(spent)} of {formatMoney(amount)}
+        </Text>
+        <Text className={cn('text-sm', over ? 'text-red-600' : 'text-muted-foreground')}>
+          {over ? `${formatMoney(subtractMoney(spent, amount))} over` : `${formatMoney(subtractMoney(amount, spent))} left`}
+        </Text>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,27 @@
+import { Button } from '@/components/ui/button';
+import { Text } from '@/components/ui/text';
+import { TRANSACTION_CATEGORIES, type TransactionCategory } from '@/lib/categories';
+import { View } from 'react-native';
+
+type CategoryPickerProps = {
+  value: TransactionCategory | null;
+  onChange: (category: TransactionCategory | null) => void;
+};
+
+// What a payment is for, so it counts towards the budget for it. Pressing the chosen
+// category again clears it.
+export function CategoryPicker({ value, onChange }: CategoryPickerProps) {
+  return (
+    <View className="flex-row flex-wrap gap-2">
+      {TRANSACTION_CATEGORIES.map((category) => (
+        <Button
+          key={category}
+          size="sm"
+          variant={category === value ? 'default' : 'outline'}
+          onPress={() => onChange(category === value ? null : category)}>
+          <Text className="capitalize">{category}</Text>
+        </Button>
+      ))}
+    </View>
+  );
+}
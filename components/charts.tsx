@@ -0,0 +1,126 @@
+import { Text } from '@/components/ui/text';
+import { THEME } from '@/lib/theme';
+import { cn } from '@/lib/utils';
+import { useColorScheme } from 'nativewind';
+import { View } from 'react-native';
+import Svg, { Circle, Path } from 'react-native-svg';
+
+// Small charts drawn with react-native-svg and plain views, coloured from the theme's
+// chart1–chart5
+
+export function useChartColors() {
+  const { colorScheme } = useColorScheme();
+  const theme = THEME[colorScheme ?? 'light'];
+  return [theme.chart1, theme.chart2, theme.chart3, theme.chart4, theme.chart5];
+}
+
+type DonutChartProps = {
+  slices: { value: number; color: string }[];
+  size?: number;
+  thickness?: number;
+};
+
+// A ring cut into slices in proportion to their values, starting at the top
+export function DonutChart({ slices, size = 160, thickness = 24 }: DonutChartProps) {
+  const { colorScheme } = useColorScheme();
+  const radius = (size - thickness) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+
+  let offset = 0;
+  const arcs = slices.map((slice) => {
+    const length = total > 0 ? (slice.value / total) * circumference : 0;
+    const arc = { color: slice.color, length, offset };
+    offset += length;
+    return arc;
+  });
+
+  return (
+    <Svg width={size} height={size}>
+      <Circle
+        cx={size / 2}
+        cy={size / 2}
+        r={radius}
+        fill="none"
+        stroke={THEME[colorScheme ?? 'light'].muted}
+        strokeWidth={thickness}
+      />
+      {arcs.map((arc, index) => (
+        <Circle
+          key={index}
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          stroke={arc.color}
+          strokeWidth={thickness}
+          strokeDasharray={`${arc.length} ${circumference - arc.length}`}
+          strokeDashoffset={-arc.offset}
+          rotation={-90}
+          origin={`${size / 2}, ${size / 2}`}
+        />
+      ))}
+    </Svg>
+  );
+}
+
+type BarChartProps = {
+  groups: { label: string; values: number[] }[];
+  colors: string[]; // One per value in a group
+  height?: number;
+};
+
+// Bars side by side for each group (income and spending for each month, say), scaled
+// to the largest value
+export function BarChart({ groups, colors, height = 140 }: BarChartProps) {
+  const max = Math.max(0, ...groups.flatMap((group) => group.values));
+
+  return (
+    <View className="flex-row items-end gap-2">
+      {groups.map((group) => (
+        <View key={group.label} className="flex-1 items-center gap-1">
+          <View className="w-full flex-row items-end justify-center gap-0.5" style={{ height }}>
+            {group.values.map((value, index) => (
+              <View
+                key={index}
+                className="flex-1 rounded-t-sm"
+                style={{
+                  height: max > 0 ? Math.max((value / max) * height, value > 0 ? 2 : 0) : 0,
+                  backgroundColor: colors[index],
+                }}
+              />
+            ))}
+          </View>
+          <Text className="text-xs text-muted-foreground" numberOfLines={1}>
+            {group.label}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+type TrendChartProps = {
+  values: number[];
+  color: string;
+  height?: number;
+  className?: string;
+};
+
+// A line through the values, evenly spaced across the full width, with the area under
+// it shaded
+export function TrendChart({ values, color, height = 120, className }: TrendChartProps) {
+  const max = Math.max(0, ...values);
+  const width = Math.max(values.length - 1, 1);
+  const points = values.map((value, index) => `${index},${max > 0 ? 100 - (value / max) * 100 : 100}`);
+  const line = `M${points.join(' L')}`;
+
+  return (
+    <View className={cn('w-full', className)} style={{ height }}>
+      <Svg width="100%" height="100%" viewBox={`0 0 ${width} 100`} preserveAspectRatio="none">
+        <Path d={`${line} L${width},100 L0,100 Z`} fill={color} fillOpacity={0.15} />
+        <Path d={line} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </Svg>
+    </View>
+  );
+}
@@ -0,0 +1,66 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Text } from '@/components/ui/text';
+import { ActionError } from '@/db/errors';
+import type { Chore, User } from '@/db/schema';
+import { api } from '@/lib/api';
+import { formatMoney } from '@/lib/money';
+import * as React from 'react';
+import { Alert, View } from 'react-native';
+
+type ChoreApprovalItemProps = {
+  approval: { chore: Chore; child: User };
+  onDecided: () => void;
+};
+
+export function ChoreApprovalItem({ approval, onDecided }: ChoreApprovalItemProps) {
+  const { chore, child } = approval;
+  const [comment, setComment] = React.useState('');
+  const [deciding, setDeciding] = React.useState(false);
+
+  const decide = async (decision: 'approve' | 'reject') => {
+    setDeciding(true);
+    try {
+      if (decision === 'approve') {
+        await api.approveChore({ choreId: chore.id, comment });
+      } else {
+        await api.rejectChore({ choreId: chore.id, comment });
+      }
+      onDecided();
+    } catch (error) {
+      Alert.alert('Error', error instanceof ActionError ? error.message : `Failed to ${decision} chore`);
+    } finally {
+      setDeciding(false);
+    }
+  };
+
+  return (
+    <View className="mb-2 gap-2 rounded bg-blue-50 p-3">
+      <View>
+        <Text className="font-medium">{chore.title}</Text>
+        {chore.description ? <Text className="text-sm text-muted-foreground">{chore.description}</Text> : null}
+        <Text className="text-sm text-muted-foreground">
+          Chore reward · {formatMoney(chore.reward)}
+        </Text>
+        <Text className="text-sm text-muted-foreground">
+          Done by {child.firstName} {child.lastName}
+          {chore.submittedAt ? ` on ${new Date(chore.submittedAt).toLocaleDateString()}` : ''}
+        </Text>
+      </View>
+      <Input value={comment} placeholder="Add a comment (optional)" onChangeText={setComment} />
+      <View className="flex-row gap-2">
+        <Button size="sm" className="flex-1" disabled={deciding} onPress={() => decide('approve')}>
+          <Text>Approve & pay</Text>
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1"
+          disabled={deciding}
+          onPress={() => decide('reject')}>
+          <Text>Not done yet</Text>
+        </Button>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,190 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+import { ActionError } from '@/db/errors';
+import type { Account, Chore } from '@/db/schema';
+import { api } from '@/lib/api';
+import { parseDateInput, toDateInput } from '@/lib/dates';
+import { formatMoney, parseMoney } from '@/lib/money';
+import * as React from 'react';
+import { Alert, View } from 'react-native';
+
+type ChoreManagerProps = {
+  childId: string;
+  accounts: Account[];
+};
+
+// A guardian's view of one child's chores: what's still outstanding, and a form to add more
+export function ChoreManager({ childId, accounts }: ChoreManagerProps) {
+  const [outstanding, setOutstanding] = React.useState<Chore[]>([]);
+  const [adding, setAdding] = React.useState(false);
+
+  const loadChores = React.useCallback(() => {
+    api.getOutstandingChores({ childId })
+      .then(setOutstanding)
+      .catch((err) => console.error('Error loading chores:', err));
+  }, [childId]);
+
+  React.useEffect(loadChores, [loadChores]);
+
+  const handleCancel = async (choreId: string) => {
+    try {
+      await api.cancelChore({ choreId });
+      loadChores();
+    } catch (error) {
+      Alert.alert('Error', error instanceof ActionError ? error.message : 'Failed to cancel chore');
+    }
+  };
+
+  return (
+    <View className="gap-3 rounded border border-border p-3">
+      {outstanding.length === 0 && !adding && (
+        <Text className="text-sm text-muted-foreground">No chores outstanding</Text>
+      )}
+      {outstanding.map((chore) => (
+        <View key={chore.id} className="flex-row items-center justify-between rounded bg-muted p-2">
+          <View className="flex-1">
+            <Text className="font-medium">
+              {chore.title} · {formatMoney(chore.reward)}
+            </Text>
+            <Text className="text-sm text-muted-foreground">
+              {chore.status === 'submitted' ? 'Done, awaiting your approval' : 'To do'} · due{' '}
+              {new Date(chore.dueDate).toLocaleDateString()}
+            </Text>
+          </View>
+          <Button size="sm" variant="ghost" onPress={() => handleCancel(chore.id)}>
+            <Text>Cancel</Text>
+          </Button>
+        </View>
+      ))}
+      {adding ? (
+        <ChoreForm
+          childId={childId}
+          accounts={accounts}
+          onSaved={() => {
+            setAdding(false);
+            loadChores();
+          }}
+          onCancel={() => setAdding(false)}
+        />
+      ) : (
+        <Button size="sm" disabled={!accounts.length} onPress={() => setAdding(true)}>
+          <Text>New chore</Text>
+        </Button>
+      )}
+    </View>
+  );
+}
+
+type ChoreFormProps = {
+  childId: string;
+  accounts: Account[];
+  onSaved: () => void;
+  onCancel: () => void;
+};
+
+function ChoreForm({ childId, accounts, onSaved, onCancel }: ChoreFormProps) {
+  const [title, setTitle] = React.useState('');
+  const [description, setDescription] = React.useState('');
+  const [reward, setReward] = React.useState('');
+  const [dueDate, setDueDate] = React.useState(() => {
+    const nextWeek = new Date();
+    nextWeek.setDate(nextWeek.getDate() + 7);
+    return toDateInput(nextWeek);
+  });
+  const [sourceAccountId, setSourceAccountId] = React.useState(accounts[0]?.id);
+  const [error, setError] = React.useState<string | null>(null);
+  const [saving, setSaving] = React.useState(false);
+
+  const onSubmit = async () => {
+    if (!title.trim()) {
+      setError('Give the chore a title');
+      return;
+    }
+    const parsedReward = parseMoney(reward);
+    if (parsedReward === null || parsedReward <= 0) {
+      setError('Please enter a valid reward');
+      return;
+    }
+    const due = parseDateInput(dueDate);
+    if (!due) {
+      setError('Due date must be YYYY-MM-DD');
+      return;
+    }
+    if (!sourceAccountId) return;
+
+    // Due at the end of the chosen day
+    due.setHours(23, 59, 59, 999);
+
+    setError(null);
+    setSaving(true);
+    try {
+      await api.createChore({
+        childId,
+        sourceAccountId,
+        title,
+        description: description.trim() || undefined,
+        reward: parsedReward,
+        dueDate: due,
+      });
+      onSaved();
+    } catch (err) {
+      setError(err instanceof ActionError ? err.message : 'Failed to create chore');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View className="gap-3">
+      <View className="gap-1.5">
+        <Label htmlFor="choreTitle">Chore</Label>
+        <Input id="choreTitle" value={title} placeholder="e.g. Wash the dishes" onChangeText={setTitle} />
+      </View>
+      <View className="gap-1.5">
+        <Label htmlFor="choreDescription">Details (optional)</Label>
+        <Input id="choreDescription" value={description} onChangeText={setDescription} />
+      </View>
+      <View className="gap-1.5">
+        <Label htmlFor="choreReward">Reward (₹)</Label>
+        <Input
+          id="choreReward"
+          value={reward}
+          placeholder="0.00"
+          keyboardType="decimal-pad"
+          onChangeText={setReward}
+        />
+      </View>
+      <View className="gap-1.5">
+        <Label htmlFor="choreDueDate">Due by</Label>
+        <Input id="choreDueDate" value={dueDate} placeholder="YYYY-MM-DD" onChangeText={setDueDate} />
+      </View>
+      {accounts.length > 1 && (
+        <View className="gap-1.5">
+          <Label>Pay reward from</Label>
+          <View className="flex-row flex-wrap gap-2">
+            {accounts.map((account) => (
+              <Button
+                key={account.id}
+                size="sm"
+                variant={account.id === sourceAccountId ? 'default' : 'outline'}
+                onPress={() => setSourceAccountId(account.id)}>
+                <Text>{account.accountName}</Text>
+              </Button>
+            ))}
+          </View>
+        </View>
+      )}
+      {error ? <Text className="text-sm font-medium text-destructive">{error}</Text> : null}
+      <View className="flex-row gap-2">
+        <Button size="sm" className="flex-1" disabled={saving} onPress={onSubmit}>
+          <Text>{saving ? 'Saving...' : 'Add chore'}</Text>
+        </Button>
+        <Button size="sm" variant="outline" className="flex-1" onPress={onCancel}>
+          <Text>Cancel</Text>
+        </Button>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,72 @@
+import { Button } from '@/components/ui/button';
+import { Text } from '@/components/ui/text';
+import { ActionError } from '@/db/errors';
+import type { FamilyInvite, HouseholdRole } from '@/db/schema';
+import { api } from '@/lib/api';
+import { familyInviteLink } from '@/lib/invites';
+import * as React from 'react';
+import { Alert, View } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+
+type FamilyInviteCardProps = {
+  role?: HouseholdRole;
+  onCreated?: () => void;
+};
+
+const INVITE_COPY: Record<HouseholdRole, { action: string; instructions: string }> = {
+  child: { action: 'Invite a child', instructions: 'Have your child scan this code in FimPay' },
+  guardian: { action: 'Invite a guardian', instructions: 'Have the other guardian scan this code in FimPay' },
+  member: { action: 'Invite a member', instructions: 'Have them scan this code in FimPay' },
+};
+
+// Shows the guardian's current invite for `role` as a QR code, link and typed code, for
+// someone to scan or enter
+export function FamilyInviteCard({ role = 'child', onCreated }: FamilyInviteCardProps) {
+  const [invite, setInvite] = React.useState<FamilyInvite | null>(null);
+  const [creating, setCreating] = React.useState(false);
+
+  React.useEffect(() => {
+    api.getActiveFamilyInvite({ role })
+      .then(setInvite)
+      .catch((err) => console.error('Error loading invite:', err));
+  }, [role]);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      setInvite(await api.createFamilyInvite({ role }));
+      onCreated?.();
+    } catch (error) {
+      Alert.alert('Error', error instanceof ActionError ? error.message : 'Failed to create invite');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (!invite) {
+    return (
+      <Button variant="outline" disabled={creating} onPress={handleCreate}>
+        <Text>{creating ? 'Creating...' : INVITE_COPY[role].action}</Text>
+      </Button>
+    );
+  }
+
+  return (
+    <View className="items-center gap-2 rounded border border-border p-3">
+      <Text className="text-sm text-muted-foreground">{INVITE_COPY[role].instructions}</Text>
+      <View className="rounded bg-white p-3">
+        <QRCode value={familyInviteLink(invite.code)} size={160} />
+      </View>
+      <Text className="text-2xl font-bold tracking-widest">{invite.code}</Text>
+      <Text selectable className="text-xs text-muted-foreground">
+        {familyInviteLink(invite.code)}
+      </Text>
+      <Text className="text-xs text-muted-foreground">
+        Expires {new Date(invite.expiresAt).toLocaleString()}
+      </Text>
+      <Button size="sm" variant="ghost" disabled={creating} onPress={handleCreate}>
+        <Text>New code</Text>
+      </Button>
+    </View>
+  );
+}
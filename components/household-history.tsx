@@ -0,0 +1,52 @@
+import { Text } from '@/components/ui/text';
+import type { HouseholdEvent, HouseholdEventType, User } from '@/db/schema';
+import { api } from '@/lib/api';
+import * as React from 'react';
+import { View } from 'react-native';
+
+const EVENT_LABELS: Record<HouseholdEventType, string> = {
+  joined: 'joined the household',
+  leave_requested: 'asked to leave',
+  leave_cancelled: 'withdrew their request to leave',
+  leave_declined: 'request to leave was declined',
+  unlinked: 'was unlinked from the household',
+  graduated: 'graduated to an adult member',
+};
+
+type HouseholdHistoryProps = {
+  // Bump to reload, e.g. after a membership change
+  refreshKey?: unknown;
+};
+
+// The household's audit trail: who joined, left or graduated, and who made the change
+export function HouseholdHistory({ refreshKey }: HouseholdHistoryProps) {
+  const [events, setEvents] = React.useState<{ event: HouseholdEvent; user: User; actor: User }[]>([]);
+
+  React.useEffect(() => {
+    api.getHouseholdEvents()
+      .then(setEvents)
+      .catch((err) => console.error('Error loading household history:', err));
+  }, [refreshKey]);
+
+  if (events.length === 0) {
+    return null;
+  }
+
+  return (
+    <View className="gap-1">
+      <Text className="font-medium">History:</Text>
+      {events.map(({ event, user, actor }) => (
+        <View key={event.id} className="py-1">
+          <Text className="text-sm">
+            {user.firstName || user.email} {EVENT_LABELS[event.type]}
+            {actor.id !== user.id ? ` (by ${actor.firstName || actor.email})` : ''}
+          </Text>
+          <Text className="text-xs text-muted-foreground">
+            {new Date(event.createdAt).toLocaleString()}
+            {event.note ? ` · "${event.note}"` : ''}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
@@ -0,0 +1,75 @@
+import { Button } from '@/components/ui/button';
+import { Icon } from '@/components/ui/icon';
+import { Input } from '@/components/ui/input';
+import { Text } from '@/components/ui/text';
+import { ActionError } from '@/db/errors';
+import type { User } from '@/db/schema';
+import { api } from '@/lib/api';
+import { parseFamilyInvite } from '@/lib/invites';
+import { Link } from 'expo-router';
+import { ScanLineIcon } from 'lucide-react-native';
+import * as React from 'react';
+import { View } from 'react-native';
+
+type JoinFamilyFormProps = {
+  user: User;
+  onSent: () => void;
+};
+
+export function JoinFamilyForm({ user, onSent }: JoinFamilyFormProps) {
+  const [code, setCode] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+  const [sending, setSending] = React.useState(false);
+
+  const onSubmit = async () => {
+    const inviteCode = parseFamilyInvite(code);
+    if (!inviteCode) {
+      setError('Enter the 12-character code from your guardian');
+      return;
+    }
+
+    setError(null);
+    setSending(true);
+    try {
+      await api.joinFamilyWithInvite({ code: inviteCode, message: familyRequestMessage(user) });
+      setCode('');
+      onSent();
+    } catch (err) {
+      setError(err instanceof ActionError ? err.message : 'Failed to send request');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <View className="gap-2">
+      <Text className="text-sm text-muted-foreground">
+        Ask a guardian for their invite code, or scan the QR code on their phone
+      </Text>
+      <View className="flex-row gap-2">
+        <Input
+          className="flex-1"
+          value={code}
+          placeholder="Invite code"
+          autoCapitalize="characters"
+          autoCorrect={false}
+          onChangeText={setCode}
+        />
+        <Button disabled={sending} onPress={onSubmit}>
+          <Text>{sending ? 'Sending...' : 'Join'}</Text>
+        </Button>
+      </View>
+      {error ? <Text className="text-sm font-medium text-destructive">{error}</Text> : null}
+      <Link href="/scanner" asChild>
+        <Button variant="outline">
+          <Icon as={ScanLineIcon} size={20} />
+          <Text className="ml-2">Scan QR code</Text>
+        </Button>
+      </Link>
+    </View>
+  );
+}
+
+export function familyRequestMessage(user: Pick<User, 'firstName' | 'email'>) {
+  return `${user.firstName || user.email} wants to join your family account`;
+}
@@ -0,0 +1,225 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+import { ActionError } from '@/db/errors';
+import type { Account, AccountMember, AccountPermission, Transaction, User } from '@/db/schema';
+import { api } from '@/lib/api';
+import { formatMoney, isCredit } from '@/lib/money';
+import * as React from 'react';
+import { Alert, View } from 'react-native';
+
+const PERMISSION_LABELS: Record<AccountPermission, string> = {
+  view: 'Can view',
+  spend: 'Can spend',
+  spend_with_approval: 'Spends with approval',
+};
+
+const PERMISSIONS = Object.keys(PERMISSION_LABELS) as AccountPermission[];
+
+type JointAccountsProps = {
+  userId: string;
+  accounts: (Account & { permission: AccountPermission })[];
+  // People who could be added to an account, e.g. the rest of the household
+  candidates: User[];
+  onChanged: () => void;
+};
+
+// The joint accounts this user shares, and a form to open a new one
+export function JointAccounts({ userId, accounts, candidates, onChanged }: JointAccountsProps) {
+  const [expanded, setExpanded] = React.useState<string | null>(null);
+  const [name, setName] = React.useState('');
+  const [creating, setCreating] = React.useState(false);
+
+  const jointAccounts = accounts.filter((account) => account.accountType === 'joint_family');
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+
+    setCreating(true);
+    try {
+      const account = await api.createJointAccount({ accountName: name.trim() });
+      setName('');
+      setExpanded(account.id);
+      onChanged();
+    } catch (error) {
+      Alert.alert('Error', error instanceof ActionError ? error.message : 'Failed to create account');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <View className="gap-3">
+      {jointAccounts.length === 0 && (
+        <Text className="text-sm text-muted-foreground">You don't share any accounts yet</Text>
+      )}
+      {jointAccounts.map((account) => (
+        <View key={account.id} className="gap-2">
+          <View className="flex-row items-center justify-between rounded bg-muted p-2">
+            <View className="flex-1">
+              <Text className="font-medium">{account.accountName}</Text>
+              <Text className="text-sm text-muted-foreground">
+                {formatMoney(account.balance)} · {PERMISSION_LABELS[account.permission]}
+              </Text>
+            </View>
+            <Button
+              size="sm"
+              variant="outline"
+              onPress={() => setExpanded(expanded === account.id ? null : account.id)}>
+              <Text>{expanded === account.id ? 'Hide' : 'Details'}</Text>
+            </Button>
+          </View>
+          {expanded === account.id && (
+            <JointAccountDetails account={account} userId={userId} candidates={candidates} />
+          )}
+        </View>
+      ))}
+      <View className="gap-1.5">
+        <Label htmlFor="jointAccountName">New joint account</Label>
+        <View className="flex-row gap-2">
+          <Input
+            id="jointAccountName"
+            className="flex-1"
+            value={name}
+            placeholder="e.g. Household expenses"
+            onChangeText={setName}
+          />
+          <Button disabled={creating || !name.trim()} onPress={handleCreate}>
+            <Text>{creating ? 'Creating...' : 'Create'}</Text>
+          </Button>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+type JointAccountDetailsProps = {
+  account: Account;
+  userId: string;
+  candidates: User[];
+};
+
+// Who shares the account and its latest transactions, with who made each one. The owner
+// can add members and change or remove their access.
+function JointAccountDetails({ account, userId, candidates }: JointAccountDetailsProps) {
+  const [members, setMembers] = React.useState<{ member: AccountMember; user: User }[]>([]);
+  const [history, setHistory] = React.useState<{ transaction: Transaction; member: User }[]>([]);
+  const [busy, setBusy] = React.useState(false);
+
+  const isOwner = account.userId === userId;
+
+  const load = React.useCallback(() => {
+    Promise.all([
+      api.getAccountMembers({ accountId: account.id }),
+      api.getAccountTransactions({ accountId: account.id, limit: 10 }),
+    ])
+      .then(([accountMembers, transactions]) => {
+        setMembers(accountMembers);
+        setHistory(transactions);
+      })
+      .catch((err) => console.error('Error loading joint account:', err));
+  }, [account.id, userId]);
+
+  React.useEffect(load, [load]);
+
+  const act = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      load();
+    } catch (error) {
+      Alert.alert('Error', error instanceof ActionError ? error.message : failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addable = candidates.filter(
+    (candidate) => !members.some(({ user }) => user.id === candidate.id)
+  );
+
+  return (
+    <View className="gap-3 rounded border border-border p-3">
+      <Text className="font-medium">Members</Text>
+      {members.map(({ member, user }) => (
+        <View key={member.id} className="gap-1">
+          <View className="flex-row items-center justify-between">
+            <Text>
+              {user.firstName} {user.lastName}
+              {user.id === account.userId ? ' (owner)' : ''}
+            </Text>
+            <Text className="text-sm text-muted-foreground">{PERMISSION_LABELS[member.permission]}</Text>
+          </View>
+          {isOwner && user.id !== account.userId && (
+            <View className="flex-row flex-wrap gap-2">
+              {PERMISSIONS.map((permission) => (
+                <Button
+                  key={permission}
+                  size="sm"
+                  variant={member.permission === permission ? 'default' : 'outline'}
+                  disabled={busy}
+                  onPress={() =>
+                    act(
+                      () => api.setAccountMember({ accountId: account.id, memberId: user.id, permission }),
+                      'Failed to update member'
+                    )
+                  }>
+                  <Text>{PERMISSION_LABELS[permission]}</Text>
+                </Button>
+              ))}
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={busy}
+                onPress={() => act(() => api.removeAccountMember({ accountId: account.id, memberId: user.id }), 'Failed to remove member')}>
+                <Text>Remove</Text>
+              </Button>
+            </View>
+          )}
+        </View>
+      ))}
+
+      {isOwner && addable.length > 0 && (
+        <View className="gap-2">
+          <Text className="text-sm text-muted-foreground">Share with</Text>
+          <View className="flex-row flex-wrap gap-2">
+            {addable.map((candidate) => (
+              <Button
+                key={candidate.id}
+                size="sm"
+                variant="outline"
+                disabled={busy}
+                onPress={() =>
+                  act(
+                    () => api.setAccountMember({ accountId: account.id, memberId: candidate.id, permission: 'view' }),
+                    'Failed to add member'
+                  )
+                }>
+                <Text>{candidate.firstName || candidate.email}</Text>
+              </Button>
+            ))}
+          </View>
+        </View>
+      )}
+
+      <Text className="font-medium">Recent activity</Text>
+      {history.length === 0 && <Text className="text-sm text-muted-foreground">No transactions yet</Text>}
+      {history.map(({ transaction, member }) => (
+        <View key={transaction.id} className="flex-row items-center justify-between">
+          <View className="flex-1">
+            <Text className="capitalize">{transaction.description || transaction.type}</Text>
+            <Text className="text-sm text-muted-foreground">
+              By {member.firstName || member.email} · {new Date(transaction.createdAt).toLocaleDateString()}
+              {transaction.status !== 'completed' ? ` · ${transaction.status}` : ''}
+            </Text>
+          </View>
+          <Text>
+            {isCredit(transaction) ? '+' : '-'}
+            {formatMoney(transaction.amount)}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
@@ -0,0 +1,66 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Text } from '@/components/ui/text';
+import { ActionError } from '@/db/errors';
+import type { Transaction, User } from '@/db/schema';
+import { api } from '@/lib/api';
+import { formatMoney } from '@/lib/money';
+import * as React from 'react';
+import { Alert, View } from 'react-native';
+
+type PendingApprovalItemProps = {
+  approval: { transaction: Transaction; child: User | null };
+  onDecided: () => void;
+};
+
+export function PendingApprovalItem({ approval, onDecided }: PendingApprovalItemProps) {
+  const { transaction, child } = approval;
+  const [comment, setComment] = React.useState('');
+  const [deciding, setDeciding] = React.useState(false);
+
+  const decide = async (decision: 'approve' | 'reject') => {
+    setDeciding(true);
+    try {
+      if (decision === 'approve') {
+        await api.approveTransaction({ transactionId: transaction.id, comment });
+      } else {
+        await api.rejectTransaction({ transactionId: transaction.id, comment });
+      }
+      onDecided();
+    } catch (error) {
+      Alert.alert('Error', error instanceof ActionError ? error.message : `Failed to ${decision} transaction`);
+    } finally {
+      setDeciding(false);
+    }
+  };
+
+  return (
+    <View className="mb-2 gap-2 rounded bg-yellow-50 p-3">
+      <View>
+        <Text className="font-medium">{transaction.description || 'Transaction'}</Text>
+        <Text className="text-sm text-muted-foreground">
+          <Text className="capitalize">{transaction.type}</Text> · {formatMoney(transaction.amount)}
+        </Text>
+        {child && (
+          <Text className="text-sm text-muted-foreground">
+            Requested by {child.firstName} {child.lastName}
+          </Text>
+        )}
+      </View>
+      <Input value={comment} placeholder="Add a comment (optional)" onChangeText={setComment} />
+      <View className="flex-row gap-2">
+        <Button size="sm" className="flex-1" disabled={deciding} onPress={() => decide('approve')}>
+          <Text>Approve</Text>
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1"
+          disabled={deciding}
+          onPress={() => decide('reject')}>
+          <Text>Reject</Text>
+        </Button>
+      </View>
+    </View>
+  );
+}
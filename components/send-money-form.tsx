@@ -0,0 +1,180 @@
+import { CategoryPicker } from '@/components/category-picker';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+import { ActionError } from '@/db/errors';
+import type { Account } from '@/db/schema';
+import { api } from '@/lib/api';
+import type { TransactionCategory } from '@/lib/categories';
+import { useIdempotencyKey } from '@/lib/idempotency';
+import { parseMoney } from '@/lib/money';
+import * as React from 'react';
+import { View } from 'react-native';
+
+type SendMoneyFormProps = {
+  accounts: Account[];
+  categoryRequired?: boolean; // A child's spending needs one, for their guardian's rules
+  onSent: () => void;
+  onCancel: () => void;
+};
+
+export function SendMoneyForm({ accounts, categoryRequired, onSent, onCancel }: SendMoneyFormProps) {
+  const [fromAccountId, setFromAccountId] = React.useState(accounts[0]?.id);
+  // Either one of the user's other accounts, or another user's email
+  const [toAccountId, setToAccountId] = React.useState<string | null>(null);
+  const [email, setEmail] = React.useState('');
+  const [amount, setAmount] = React.useState('');
+  const [category, setCategory] = React.useState<TransactionCategory | null>(null);
+  const [description, setDescription] = React.useState('');
+  const [error, setError] = React.useState<{ recipient?: string; amount?: string; category?: string }>({});
+  const [submitting, setSubmitting] = React.useState(false);
+  const idempotency = useIdempotencyKey();
+
+  const ownDestinations = accounts.filter((account) => account.id !== fromAccountId);
+
+  const onSubmit = async () => {
+    if (!fromAccountId) return;
+
+    const parsedAmount = parseMoney(amount);
+    if (parsedAmount === null || parsedAmount <= 0) {
+      setError({ amount: 'Please enter a valid amount' });
+      return;
+    }
+    if (!toAccountId && !email) {
+      setError({ recipient: 'Choose an account or enter an email' });
+      return;
+    }
+    if (categoryRequired && !category) {
+      setError({ category: 'Choose a category' });
+      return;
+    }
+
+    setError({});
+    setSubmitting(true);
+    try {
+      const transfer = {
+        fromAccountId,
+        ...(toAccountId ? { toAccountId } : { toEmail: email.trim().toLowerCase() }),
+        amount: parsedAmount,
+        category: category ?? undefined,
+        description: description || 'Money sent',
+      };
+      await api.createTransfer({ ...transfer, idempotencyKey: idempotency.keyFor(transfer) });
+      idempotency.settle();
+      onSent();
+    } catch (err) {
+      if (err instanceof ActionError) {
+        idempotency.settle();
+      }
+      if (err instanceof ActionError && err.code === 'account_not_found' && !toAccountId) {
+        setError({ recipient: err.message });
+        return;
+      }
+      setError({ amount: err instanceof ActionError ? err.message : 'Failed to send money' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Send Money</CardTitle>
+        <CardDescription>Transfer to another FimPay user or between your accounts</CardDescription>
+      </CardHeader>
+      <CardContent className="gap-4">
+        {accounts.length > 1 && (
+          <View className="gap-1.5">
+            <Label>From</Label>
+            <View className="flex-row flex-wrap gap-2">
+              {accounts.map((account) => (
+                <Button
+                  key={account.id}
+                  size="sm"
+                  variant={account.id === fromAccountId ? 'default' : 'outline'}
+                  onPress={() => {
+                    setFromAccountId(account.id);
+                    if (toAccountId === account.id) setToAccountId(null);
+                  }}>
+                  <Text>{account.accountName}</Text>
+                </Button>
+              ))}
+            </View>
+          </View>
+        )}
+        <View className="gap-1.5">
+          <Label htmlFor="recipient">To</Label>
+          {ownDestinations.length > 0 && (
+            <View className="flex-row flex-wrap gap-2">
+              {ownDestinations.map((account) => (
+                <Button
+                  key={account.id}
+                  size="sm"
+                  variant={account.id === toAccountId ? 'default' : 'outline'}
+                  onPress={() => {
+                    setToAccountId(account.id === toAccountId ? null : account.id);
+                    setEmail('');
+                  }}>
+                  <Text>{account.accountName}</Text>
+                </Button>
+              ))}
+            </View>
+          )}
+          <Input
+            id="recipient"
+            value={email}
+            placeholder="Recipient email"
+            keyboardType="email-address"
+            autoCapitalize="none"
+            onChangeText={(text) => {
+              setEmail(text);
+              setToAccountId(null);
+            }}
+          />
+          {error.recipient ? (
+            <Text className="text-sm font-medium text-destructive">{error.recipient}</Text>
+          ) : null}
+        </View>
+        <View className="gap-1.5">
+          <Label htmlFor="amount">Amount (₹)</Label>
+          <Input
+            id="amount"
+            value={amount}
+            placeholder="0.00"
+            keyboardType="decimal-pad"
+            onChangeText={setAmount}
+          />
+          {error.amount ? (
+            <Text className="text-sm font-medium text-destructive">{error.amount}</Text>
+          ) : null}
+        </View>
+        <View className="gap-1.5">
+          <Label>{categoryRequired ? 'Category' : 'Category (optional)'}</Label>
+          <CategoryPicker value={category} onChange={setCategory} />
+          {error.category ? (
+            <Text className="text-sm font-medium text-destructive">{error.category}</Text>
+          ) : null}
+        </View>
+        <View className="gap-1.5">
+          <Label htmlFor="description">Note</Label>
+          <Input
+            id="description"
+            value={description}
+            placeholder="What's it for?"
+            onChangeText={setDescription}
+          />
+        </View>
+        <View className="flex-row gap-3">
+          <Button className="flex-1" onPress={onSubmit} disabled={submitting}>
+            <Text>{submitting ? 'Sending...' : 'Send'}</Text>
+          </Button>
+          <Button className="flex-1" variant="outline" onPress={onCancel}>
+            <Text>Cancel</Text>
+          </Button>
+        </View>
+      </CardContent>
+    </Card>
+  );
+}
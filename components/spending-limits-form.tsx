@@ -0,0 +1,127 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+import { ActionError } from '@/db/errors';
+import { api } from '@/lib/api';
+import { isTransactionCategory, TRANSACTION_CATEGORIES, type TransactionCategory } from '@/lib/categories';
+import { parseMoney, toRupeeString, type Money } from '@/lib/money';
+import * as React from 'react';
+import { View } from 'react-native';
+
+const AMOUNT_FIELDS = [
+  { key: 'dailyLimit', label: 'Daily limit' },
+  { key: 'weeklyLimit', label: 'Weekly limit' },
+  { key: 'monthlyLimit', label: 'Monthly limit' },
+  { key: 'perTransactionLimit', label: 'Max per transaction' },
+  { key: 'autoApproveThreshold', label: 'Auto-approve up to' },
+] as const;
+
+type AmountField = (typeof AMOUNT_FIELDS)[number]['key'];
+
+type SpendingLimitsFormProps = {
+  childId: string;
+  onSaved: () => void;
+  onCancel: () => void;
+};
+
+export function SpendingLimitsForm({ childId, onSaved, onCancel }: SpendingLimitsFormProps) {
+  // Amounts are edited as rupee strings; blank means no limit
+  const [amounts, setAmounts] = React.useState<Record<AmountField, string>>({
+    dailyLimit: '',
+    weeklyLimit: '',
+    monthlyLimit: '',
+    perTransactionLimit: '',
+    autoApproveThreshold: '',
+  });
+  const [blockedCategories, setBlockedCategories] = React.useState<TransactionCategory[]>([]);
+  const [error, setError] = React.useState<string | null>(null);
+  const [saving, setSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    api.getSpendingLimits({ childId })
+      .then((limits) => {
+        if (!limits) return;
+        setAmounts(
+          Object.fromEntries(
+            AMOUNT_FIELDS.map(({ key }) => [key, limits[key] === null ? '' : toRupeeString(limits[key])])
+          ) as Record<AmountField, string>
+        );
+        setBlockedCategories(limits.blockedCategories.filter(isTransactionCategory));
+      })
+      .catch((err) => console.error('Error loading spending limits:', err));
+  }, [childId]);
+
+  const toggleCategory = (category: TransactionCategory) => {
+    setBlockedCategories((current) =>
+      current.includes(category) ? current.filter((c) => c !== category) : [...current, category]
+    );
+  };
+
+  const onSubmit = async () => {
+    const parsed = {} as Record<AmountField, Money | null>;
+    for (const { key, label } of AMOUNT_FIELDS) {
+      if (!amounts[key].trim()) {
+        parsed[key] = null;
+        continue;
+      }
+      const amount = parseMoney(amounts[key]);
+      if (amount === null || amount < 0) {
+        setError(`${label} must be a valid amount`);
+        return;
+      }
+      parsed[key] = amount;
+    }
+
+    setError(null);
+    setSaving(true);
+    try {
+      await api.updateSpendingLimits({ childId, limits: { ...parsed, blockedCategories } });
+      onSaved();
+    } catch (err) {
+      setError(err instanceof ActionError ? err.message : 'Failed to save limits');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View className="gap-3 rounded border border-border p-3">
+      {AMOUNT_FIELDS.map(({ key, label }) => (
+        <View key={key} className="gap-1.5">
+          <Label htmlFor={key}>{label} (₹)</Label>
+          <Input
+            id={key}
+            value={amounts[key]}
+            placeholder="No limit"
+            keyboardType="decimal-pad"
+            onChangeText={(text) => setAmounts((current) => ({ ...current, [key]: text }))}
+          />
+        </View>
+      ))}
+      <View className="gap-1.5">
+        <Label>Blocked categories</Label>
+        <View className="flex-row flex-wrap gap-2">
+          {TRANSACTION_CATEGORIES.map((category) => (
+            <Button
+              key={category}
+              size="sm"
+              variant={blockedCategories.includes(category) ? 'destructive' : 'outline'}
+              onPress={() => toggleCategory(category)}>
+              <Text className="capitalize">{category}</Text>
+            </Button>
+          ))}
+        </View>
+      </View>
+      {error ? <Text className="text-sm font-medium text-destructive">{error}</Text> : null}
+      <View className="flex-row gap-2">
+        <Button size="sm" className="flex-1" disabled={saving} onPress={onSubmit}>
+          <Text>{saving ? 'Saving...' : 'Save limits'}</Text>
+        </Button>
+        <Button size="sm" variant="outline" className="flex-1" onPress={onCancel}>
+          <Text>Cancel</Text>
+        </Button>
+      </View>
+    </View>
+  );
+}
@@ -3,9 +3,11 @@ import { Button } from '@/components/ui/button';
 import { Icon } from '@/components/ui/icon';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Text } from '@/components/ui/text';
+import { api } from '@/lib/api';
 import { useAuth, useUser } from '@clerk/clerk-expo';
 import type { TriggerRef } from '@rn-primitives/popover';
-import { LogOutIcon, PlusIcon, SettingsIcon } from 'lucide-react-native';
+import { router, usePathname } from 'expo-router';
+import { BellIcon, LogOutIcon, PlusIcon, SettingsIcon } from 'lucide-react-native';
 import * as React from 'react';
 import { View } from 'react-native';
 
@@ -13,6 +15,15 @@ export function UserMenu() {
   const { user } = useUser();
   const { signOut } = useAuth();
   const popoverTriggerRef = React.useRef<TriggerRef>(null);
+  const pathname = usePathname();
+  const [unread, setUnread] = React.useState(0);
+
+  // Recounted on every navigation, so the badge clears on the way back from the inbox
+  React.useEffect(() => {
+    api.getUnreadNotificationCount()
+      .then(setUnread)
+      .catch((error) => console.error('Error loading notification count:', error));
+  }, [pathname]);
 
   async function onSignOut() {
     popoverTriggerRef.current?.close();
@@ -22,8 +33,13 @@ export function UserMenu() {
   return (
     <Popover>
       <PopoverTrigger asChild ref={popoverTriggerRef}>
-        <Button variant="ghost" size="icon" className="size-8 rounded-full">
+        <Button variant="ghost" size="icon" className="relative size-8 rounded-full">
           <UserAvatar />
+          {unread > 0 && (
+            <View className="absolute -right-1 -top-1 h-4 min-w-4 items-center justify-center rounded-full bg-red-600 px-1">
+              <Text className="text-[10px] font-bold leading-3 text-white">{unread > 9 ? '9+' : unread}</Text>
+            </View>
+          )}
         </Button>
       </PopoverTrigger>
       <PopoverContent align="end" side="bottom" className="w-80 p-0">
@@ -57,6 +73,20 @@ export function UserMenu() {
             </Button>
           </View>
         </View>
+        <Button
+          variant="ghost"
+          size="lg"
+          className="h-16 justify-start gap-3 rounded-none border-b border-border px-3 sm:h-14"
+          onPress={() => {
+            popoverTriggerRef.current?.close();
+            router.push('/notifications');
+          }}>
+          <View className="size-10 items-center justify-center">
+            <Icon as={BellIcon} className="size-5" />
+          </View>
+          <Text className="flex-1">Notifications</Text>
+          {unread > 0 && <Text className="text-sm text-muted-foreground">{unread} unread</Text>}
+        </Button>
         <Button
           variant="ghost"
           size="lg"
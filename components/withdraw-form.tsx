@@ -0,0 +1,114 @@
+import { CategoryPicker } from '@/components/category-picker';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+import { ActionError } from '@/db/errors';
+import type { Account, Transaction } from '@/db/schema';
+import { api } from '@/lib/api';
+import type { TransactionCategory } from '@/lib/categories';
+import { useIdempotencyKey } from '@/lib/idempotency';
+import { compareMoney, formatMoney, parseMoney, subtractMoney } from '@/lib/money';
+import * as React from 'react';
+import { View } from 'react-native';
+
+type WithdrawFormProps = {
+  account: Account;
+  categoryRequired?: boolean; // A child's spending needs one, for their guardian's rules
+  onWithdrawn: (transaction: Transaction) => void;
+  onCancel: () => void;
+};
+
+export function WithdrawForm({ account, categoryRequired, onWithdrawn, onCancel }: WithdrawFormProps) {
+  const [amount, setAmount] = React.useState('');
+  const [category, setCategory] = React.useState<TransactionCategory | null>(null);
+  const [description, setDescription] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+  const [submitting, setSubmitting] = React.useState(false);
+  const idempotency = useIdempotencyKey();
+
+  const available = subtractMoney(account.balance, account.heldBalance);
+
+  const onSubmit = async () => {
+    const parsedAmount = parseMoney(amount);
+    if (parsedAmount === null || parsedAmount <= 0) {
+      setError('Please enter a valid amount');
+      return;
+    }
+    if (compareMoney(parsedAmount, available) > 0) {
+      setError('Insufficient balance');
+      return;
+    }
+    if (categoryRequired && !category) {
+      setError('Choose a category');
+      return;
+    }
+
+    setError(null);
+    setSubmitting(true);
+    try {
+      const withdrawal = {
+        accountId: account.id,
+        type: 'withdrawal' as const,
+        amount: parsedAmount,
+        category: category ?? undefined,
+        description: description || 'Withdrawal',
+      };
+      // Submitting the same details again after a timeout reuses the key, so it can't post twice
+      const transaction = await api.createTransaction({ ...withdrawal, idempotencyKey: idempotency.keyFor(withdrawal) });
+      idempotency.settle();
+      onWithdrawn(transaction);
+    } catch (err) {
+      if (err instanceof ActionError) {
+        idempotency.settle();
+      }
+      setError(err instanceof ActionError ? err.message : 'Failed to withdraw');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Withdraw</CardTitle>
+        <CardDescription>{formatMoney(available)} available in {account.accountName}</CardDescription>
+      </CardHeader>
+      <CardContent className="gap-4">
+        <View className="gap-1.5">
+          <Label htmlFor="withdrawAmount">Amount (₹)</Label>
+          <Input
+            id="withdrawAmount"
+            value={amount}
+            placeholder="0.00"
+            keyboardType="decimal-pad"
+            onChangeText={setAmount}
+          />
+        </View>
+        <View className="gap-1.5">
+          <Label>{categoryRequired ? 'Category' : 'Category (optional)'}</Label>
+          <CategoryPicker value={category} onChange={setCategory} />
+        </View>
+        <View className="gap-1.5">
+          <Label htmlFor="withdrawDescription">Note</Label>
+          <Input
+            id="withdrawDescription"
+            value={description}
+            placeholder="What's it for?"
+            onChangeText={setDescription}
+          />
+        </View>
+        {error ? <Text className="text-sm font-medium text-destructive">{error}</Text> : null}
+        <View className="flex-row gap-3">
+          <Button className="flex-1" onPress={onSubmit} disabled={submitting}>
+            <Text>{submitting ? 'Withdrawing...' : 'Withdraw'}</Text>
+          </Button>
+          <Button className="flex-1" variant="outline" onPress={onCancel}>
+            <Text>Cancel</Text>
+          </Button>
+        </View>
+      </CardContent>
+    </Card>
+  );
+}
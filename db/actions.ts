@@ -1,28 +1,70 @@
-import { db } from './index';
-import { users, accounts, paymentMethods, transactions, familyRequests, budgets, aiChats } from './schema';
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { db, type Tx } from './index';
+import { ActionError } from './errors';
+import { BUDGET_PERIOD_NAMES, BUDGET_PERIODS, budgetAvailable, budgetPeriodEnd, isBudgetPeriod, type BudgetPeriod } from '../lib/budgets';
+import { analyticsRangeStart, dayKeys, isAnalyticsRange, monthKeys, type AnalyticsRange } from '../lib/analytics';
+import { fromWallClock, isTimeZone, wallClock } from '../lib/dates';
+import { generateInviteCode } from '../lib/invites';
+import { addMoney, formatMoney, isMoney, subtractMoney, type Money } from '../lib/money';
+import { users, accounts, accountMembers, paymentMethods, transactions, transactionApprovals, idempotencyKeys, webhookEvents, spendingLimits, allowanceSchedules, allowanceRuns, chores, households, householdMembers, householdEvents, familyInvites, inviteCodeFailures, familyRequests, budgets, notifications, aiChats, notificationTypeEnum, type AccountPermission, type Transaction, type TransactionStatus, type AllowanceSchedule, type AllowanceFrequency, type Chore, type FamilyRequest, type FamilyRequestStatus, type HouseholdRole, type HouseholdEventType, type Budget, type NewNotification, type NotificationType } from './schema';
+import { alias } from 'drizzle-orm/pg-core';
+import { eq, ne, and, or, desc, lt, lte, gt, gte, inArray, isNull, isNotNull, like, sql, type SQL } from 'drizzle-orm';
 
 // User actions
-export const createUser = async (userData: {
+type UserProfile = {
   clerkId: string;
   email: string;
   firstName?: string;
   lastName?: string;
   phoneNumber?: string;
   profileImageUrl?: string;
-}) => {
-  const result = await db.insert(users).values(userData).returning();
-  const user = Array.isArray(result) ? result[0] : result;
+};
 
-  // Create a default personal account for the user
-  if (user) {
-    await createAccount({
-      userId: user.id,
-      accountName: 'Main Account',
-    });
+// Inserts the user for a Clerk id, with their default personal account, unless they
+// already exist. Returns the stored user either way, so concurrent sign-ins share one row.
+const insertUser = async (tx: Tx, userData: UserProfile) => {
+  const findByClerkId = async () => {
+    const [existing] = await tx.select().from(users).where(eq(users.clerkId, userData.clerkId));
+    return existing;
+  };
+
+  const existing = await findByClerkId();
+  if (existing) {
+    return existing;
   }
 
-  return user;
+  // Users imported from the legacy database (drizzle/0015_import_legacy_data.sql) are
+  // claimed by the first Clerk account with the same email
+  const [legacy] = userData.email
+    ? await tx.select({ id: users.id })
+      .from(users)
+      .where(and(
+        like(users.clerkId, 'legacy\\_%'),
+        sql`lower(${users.email}) = lower(${userData.email})`
+      ))
+      .orderBy(users.createdAt)
+      .limit(1)
+      .for('update')
+    : [];
+  if (legacy) {
+    const [claimed] = await tx.update(users)
+      .set({ clerkId: userData.clerkId, updatedAt: new Date() })
+      .where(eq(users.id, legacy.id))
+      .returning();
+    return claimed;
+  }
+
+  const [created] = await tx.insert(users).values(userData).onConflictDoNothing({ target: users.clerkId }).returning();
+  if (!created) {
+    return await findByClerkId();
+  }
+
+  // Create a default personal account for the user
+  await tx.insert(accounts).values({ userId: created.id, accountName: 'Main Account' });
+  return created;
+};
+
+export const createUser = async (userData: UserProfile) => {
+  return await db.transaction((tx) => insertUser(tx, userData));
 };
 
 export const getUserByClerkId = async (clerkId: string) => {
@@ -34,37 +76,219 @@ export const getUserByClerkId = async (clerkId: string) => {
   return user;
 };
 
-export const getUserByEmail = async (email: string) => {
-  const [user] = await db.select().from(users).where(eq(users.email, email));
+export const updateUser = async (userId: string, updates: Partial<typeof users.$inferInsert>) => {
+  const [user] = await db.update(users).set(updates).where(eq(users.id, userId)).returning();
   return user;
 };
 
-export const updateUser = async (userId: string, updates: Partial<typeof users.$inferInsert>) => {
-  const [user] = await db.update(users).set(updates).where(eq(users.id, userId)).returning();
+// Stores the time zone the user's device is set to. Allowances, budget periods and
+// spending limits count days and months in it.
+export const updateTimeZone = async (userId: string, timeZone: string) => {
+  if (!isTimeZone(timeZone)) {
+    throw new ActionError('invalid_input', `Unknown time zone ${timeZone}`);
+  }
+  const [user] = await db.update(users)
+    .set({ timeZone, updatedAt: new Date() })
+    .where(eq(users.id, userId))
+    .returning();
   return user;
 };
 
+const getTimeZone = async (tx: Tx, userId: string) => {
+  const [user] = await tx.select({ timeZone: users.timeZone }).from(users).where(eq(users.id, userId));
+  return user.timeZone;
+};
+
+// Records a Clerk webhook delivery within `tx`. Returns false if it was already handled,
+// so redeliveries and retries after a timeout change nothing.
+const claimWebhookEvent = async (tx: Tx, eventId: string, type: string) => {
+  const [claimed] = await tx.insert(webhookEvents).values({ id: eventId, type }).onConflictDoNothing().returning();
+  return !!claimed;
+};
+
+// Applies a Clerk user.created or user.updated event: creates the user if they're new, or
+// brings their name, email and avatar up to date. Deleted users stay deleted.
+export const syncClerkUser = async (eventId: string, type: string, profile: UserProfile) => {
+  return await db.transaction(async (tx) => {
+    if (!(await claimWebhookEvent(tx, eventId, type))) {
+      return;
+    }
+
+    const user = await insertUser(tx, profile);
+    if (user.deletedAt) {
+      return;
+    }
+    await tx.update(users)
+      .set({
+        email: profile.email,
+        firstName: profile.firstName ?? null,
+        lastName: profile.lastName ?? null,
+        profileImageUrl: profile.profileImageUrl ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, user.id));
+  });
+};
+
+// Applies a Clerk user.deleted event. The user and their history are kept for the
+// ledger, but they can no longer sign in and their accounts are closed.
+export const deleteClerkUser = async (eventId: string, type: string, clerkId: string) => {
+  return await db.transaction(async (tx) => {
+    if (!(await claimWebhookEvent(tx, eventId, type))) {
+      return;
+    }
+
+    const [user] = await tx.update(users)
+      .set({ deletedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(users.clerkId, clerkId), isNull(users.deletedAt)))
+      .returning();
+    if (!user) {
+      return;
+    }
+    await tx.update(accounts)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(accounts.userId, user.id));
+  });
+};
+
 // Account actions
 export const createAccount = async (accountData: {
   userId: string;
   accountType?: 'personal' | 'joint_family';
   accountName: string;
-  balance?: string;
+  balance?: Money;
 }) => {
-  const [account] = await db.insert(accounts).values(accountData).returning();
-  return account;
+  return await db.transaction(async (tx) => {
+    const [account] = await tx.insert(accounts).values(accountData).returning();
+
+    // A joint account's owner is its first member, with full use of it
+    if (account.accountType === 'joint_family') {
+      await tx.insert(accountMembers).values({ accountId: account.id, userId: account.userId, permission: 'spend' });
+    }
+    return account;
+  });
 };
 
+// The user's own accounts and the joint accounts shared with them, oldest first, each
+// with what the user may do with it
 export const getUserAccounts = async (userId: string) => {
-  return await db.select().from(accounts).where(eq(accounts.userId, userId));
+  const rows = await db.select({ account: accounts, permission: accountMembers.permission })
+    .from(accounts)
+    .leftJoin(accountMembers, and(eq(accountMembers.accountId, accounts.id), eq(accountMembers.userId, userId)))
+    .where(or(eq(accounts.userId, userId), eq(accountMembers.userId, userId)))
+    .orderBy(accounts.createdAt);
+  return rows.map(({ account, permission }) => ({ ...account, permission: permission ?? ('spend' as const) }));
+};
+
+// Shares a joint account with `memberId`, or changes what they may do with it. Only the
+// account's owner manages its members.
+export const setAccountMember = async (
+  accountId: string,
+  ownerId: string,
+  memberId: string,
+  permission: AccountPermission
+) => {
+  const [account] = await db.select().from(accounts).where(eq(accounts.id, accountId));
+  if (!account || !account.isActive) {
+    throw new ActionError('account_not_found', 'Account not found');
+  }
+  if (account.userId !== ownerId) {
+    throw new ActionError('not_authorized', "Only the account's owner can manage who shares it");
+  }
+  if (account.accountType !== 'joint_family') {
+    throw new ActionError('invalid_account_member', 'Only joint accounts can be shared');
+  }
+  if (memberId === ownerId) {
+    throw new ActionError('invalid_account_member', "The owner's access can't be changed");
+  }
+
+  const [member] = await db.insert(accountMembers)
+    .values({ accountId, userId: memberId, permission })
+    .onConflictDoUpdate({
+      target: [accountMembers.accountId, accountMembers.userId],
+      set: { permission },
+    })
+    .returning();
+  return member;
+};
+
+// Stops sharing a joint account with `memberId`. Their past transactions stay on it.
+export const removeAccountMember = async (accountId: string, ownerId: string, memberId: string) => {
+  const [account] = await db.select().from(accounts).where(eq(accounts.id, accountId));
+  if (!account || account.userId !== ownerId) {
+    throw new ActionError('not_authorized', "Only the account's owner can manage who shares it");
+  }
+  if (memberId === ownerId) {
+    throw new ActionError('invalid_account_member', "The owner can't be removed from their account");
+  }
+
+  const [removed] = await db.delete(accountMembers)
+    .where(and(eq(accountMembers.accountId, accountId), eq(accountMembers.userId, memberId)))
+    .returning();
+  return removed;
+};
+
+// Everyone sharing a joint account, owner first
+export const getAccountMembers = async (accountId: string, userId: string) => {
+  if (!(await getAccountPermission(db, userId, accountId))) {
+    throw new ActionError('account_not_found', 'Account not found');
+  }
+  return await db.select({ member: accountMembers, user: users })
+    .from(accountMembers)
+    .innerJoin(users, eq(accountMembers.userId, users.id))
+    .where(eq(accountMembers.accountId, accountId))
+    .orderBy(accountMembers.createdAt);
+};
+
+// An account's transactions, newest first, each with the member who made it
+export const getAccountTransactions = async (accountId: string, userId: string, limit = 50) => {
+  if (!(await getAccountPermission(db, userId, accountId))) {
+    throw new ActionError('account_not_found', 'Account not found');
+  }
+  return await db.select({ transaction: transactions, member: users })
+    .from(transactions)
+    .innerJoin(users, eq(transactions.userId, users.id))
+    .where(eq(transactions.accountId, accountId))
+    .orderBy(desc(transactions.createdAt))
+    .limit(limit);
+};
+
+// What `userId` may do with an active account: its owner has full use of it, and a
+// joint account's members have the permission they were given. Null for anyone else.
+const getAccountPermission = async (
+  executor: Tx | typeof db,
+  userId: string,
+  accountId: string
+): Promise<AccountPermission | null> => {
+  const [row] = await executor.select({ account: accounts, permission: accountMembers.permission })
+    .from(accounts)
+    .leftJoin(accountMembers, and(eq(accountMembers.accountId, accounts.id), eq(accountMembers.userId, userId)))
+    .where(eq(accounts.id, accountId));
+  if (!row || !row.account.isActive) {
+    return null;
+  }
+  return row.permission ?? (row.account.userId === userId ? 'spend' : null);
+};
+
+// Throws unless `userId` may post to `accountId`. Returns whether their spending from it
+// needs another member's approval.
+const checkAccountUse = async (tx: Tx, userId: string, accountId: string) => {
+  const permission = await getAccountPermission(tx, userId, accountId);
+  if (!permission) {
+    throw new ActionError('account_not_found', 'Account not found');
+  }
+  if (permission === 'view') {
+    throw new ActionError('not_authorized', 'You can only view this account');
+  }
+  return permission === 'spend_with_approval';
 };
 
 export const getAccountBalance = async (accountId: string) => {
   const [account] = await db.select().from(accounts).where(eq(accounts.id, accountId));
-  return account?.balance || '0.00';
+  return account?.balance ?? 0;
 };
 
-export const updateAccountBalance = async (accountId: string, newBalance: string) => {
+export const updateAccountBalance = async (accountId: string, newBalance: Money) => {
   const [account] = await db.update(accounts)
     .set({ balance: newBalance, updatedAt: new Date() })
     .where(eq(accounts.id, accountId))
@@ -102,28 +326,415 @@ export const createTransaction = async (transactionData: {
   userId: string;
   accountId: string;
   paymentMethodId?: string;
-  type: 'deposit' | 'withdrawal' | 'transfer';
-  amount: string;
+  type: 'deposit' | 'withdrawal';
+  amount: Money;
   description?: string;
   category?: string;
   recipient?: string;
-  requiresApproval?: boolean;
+  idempotencyKey?: string;
+}) => {
+  const { idempotencyKey, ...values } = transactionData;
+
+  // A transfer has two legs and moves money between accounts; only createTransfer posts one
+  if (values.type !== 'deposit' && values.type !== 'withdrawal') {
+    throw new ActionError('invalid_transfer', 'Send money to another account as a transfer');
+  }
+  if (!isMoney(values.amount) || values.amount <= 0) {
+    throw new ActionError('invalid_amount', 'Amount must be greater than zero');
+  }
+
+  // Insert and balance change commit or roll back together
+  return await db.transaction(async (tx) => {
+    if (idempotencyKey) {
+      const previousId = await claimIdempotencyKey(tx, values.userId, idempotencyKey, ['transaction', values]);
+      if (previousId) {
+        const [previous] = await tx.select().from(transactions).where(eq(transactions.id, previousId));
+        return previous;
+      }
+    }
+
+    const needsMemberApproval = await checkAccountUse(tx, values.userId, values.accountId);
+    const requiresApproval = await checkParentControls(tx, values.userId, {
+      amount: values.amount,
+      category: values.category,
+      outgoing: values.type !== 'deposit',
+    }) || (needsMemberApproval && values.type !== 'deposit');
+    const [transaction] = await tx.insert(transactions).values({
+      ...values,
+      requiresApproval,
+      status: requiresApproval ? 'pending' : 'completed',
+    }).returning();
+
+    await refreshBudgetSpent(tx, transaction);
+
+    if (requiresApproval) {
+      // Reserve the funds now so they can't be spent twice while the parent decides
+      if (values.type === 'withdrawal') {
+        await applyBalanceChange(tx, values.accountId, { held: values.amount });
+      }
+      await notifyApprovalNeeded(tx, transaction);
+    } else if (values.type === 'deposit') {
+      await applyBalanceChange(tx, values.accountId, { balance: values.amount });
+    } else if (values.type === 'withdrawal') {
+      await applyBalanceChange(tx, values.accountId, { balance: -values.amount });
+    }
+
+    if (idempotencyKey) {
+      await completeIdempotencyKey(tx, values.userId, idempotencyKey, transaction.id);
+    }
+
+    return transaction;
+  });
+};
+
+// Applies a child's spending rules to a new transaction: throws if it breaks one,
+// otherwise says whether it still needs a guardian's approval. Users who aren't a
+// household's children are unaffected.
+const checkParentControls = async (
+  tx: Tx,
+  userId: string,
+  transaction: { amount: Money; category?: string; outgoing: boolean }
+) => {
+  const [membership] = await tx.select().from(householdMembers).where(eq(householdMembers.userId, userId));
+  if (membership?.role !== 'child') {
+    return false;
+  }
+  // Without a category, blocked categories (and budgets) couldn't see what it was spent on
+  if (transaction.outgoing && !transaction.category) {
+    throw new ActionError('category_required', 'Choose a category for this payment');
+  }
+
+  // Locking the child's rules row serializes their spending, so two purchases made at
+  // once can't both fit under the same remaining cap
+  const [limits] = await tx.select()
+    .from(spendingLimits)
+    .where(eq(spendingLimits.childId, userId))
+    .for('update');
+  if (!limits) {
+    return true;
+  }
+
+  if (transaction.outgoing) {
+    if (transaction.category && limits.blockedCategories.includes(transaction.category)) {
+      throw new ActionError('category_blocked', `Your parent has blocked spending on ${transaction.category}`);
+    }
+    if (limits.perTransactionLimit !== null && transaction.amount > limits.perTransactionLimit) {
+      throw new ActionError(
+        'limit_exceeded',
+        `This is over your ${formatMoney(limits.perTransactionLimit)} per-transaction limit`
+      );
+    }
+
+    const spent = await getOutgoingTotals(tx, userId);
+    const periods = [
+      ['daily', limits.dailyLimit, spent.day],
+      ['weekly', limits.weeklyLimit, spent.week],
+      ['monthly', limits.monthlyLimit, spent.month],
+    ] as const;
+    for (const [period, limit, total] of periods) {
+      if (limit !== null && total + transaction.amount > limit) {
+        throw new ActionError(
+          'limit_exceeded',
+          `This would take you over your ${period} limit of ${formatMoney(limit)} ` +
+            `(${formatMoney(Math.max(limit - total, 0))} left)`
+        );
+      }
+    }
+  }
+
+  return limits.autoApproveThreshold === null || transaction.amount > limits.autoApproveThreshold;
+};
+
+// Money a user has sent or withdrawn (pending or completed) so far this calendar day,
+// week (from Monday) and month, where the user lives
+const getOutgoingTotals = async (tx: Tx, userId: string) => {
+  const timeZone = await getTimeZone(tx, userId);
+  const today = wallClock(new Date(), timeZone);
+  const startOf = (year: number, month: number, day: number) => fromWallClock(new Date(Date.UTC(year, month, day)), timeZone);
+  const dayStart = startOf(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate());
+  const weekStart = startOf(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - ((today.getUTCDay() + 6) % 7));
+  const monthStart = startOf(today.getUTCFullYear(), today.getUTCMonth(), 1);
+  const earliest = weekStart < monthStart ? weekStart : monthStart;
+
+  const sumSince = (start: Date) =>
+    sql`coalesce(sum(${transactions.amount}) filter (where ${gte(transactions.createdAt, start)}), 0)`.mapWith(Number);
+
+  const [totals] = await tx.select({
+    day: sumSince(dayStart),
+    week: sumSince(weekStart),
+    month: sumSince(monthStart),
+  })
+    .from(transactions)
+    .where(and(
+      eq(transactions.userId, userId),
+      or(eq(transactions.type, 'withdrawal'), eq(transactions.transferDirection, 'debit')),
+      inArray(transactions.status, ['pending', 'completed']),
+      gte(transactions.createdAt, earliest)
+    ));
+  return totals;
+};
+
+// Adjusts an account's balance and/or held amount in a single conditional update, so
+// concurrent postings can't overwrite each other and the available balance
+// (balance - held) can never go below zero.
+const applyBalanceChange = async (
+  tx: Tx,
+  accountId: string,
+  change: { balance?: Money; held?: Money }
+) => {
+  const balanceDelta = change.balance ?? 0;
+  const heldDelta = change.held ?? 0;
+
+  const [account] = await tx.update(accounts)
+    .set({
+      balance: sql`${accounts.balance} + ${balanceDelta}`,
+      heldBalance: sql`${accounts.heldBalance} + ${heldDelta}`,
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(accounts.id, accountId),
+      sql`${accounts.balance} + ${balanceDelta} - (${accounts.heldBalance} + ${heldDelta}) >= 0`,
+      sql`${accounts.heldBalance} + ${heldDelta} >= 0`
+    ))
+    .returning();
+
+  if (!account) {
+    const [existing] = await tx.select({ id: accounts.id }).from(accounts).where(eq(accounts.id, accountId));
+    if (!existing) {
+      throw new ActionError('account_not_found', 'Account not found');
+    }
+    throw new ActionError('insufficient_funds', 'Insufficient balance');
+  }
+
+  return account;
+};
+
+// Transfer actions
+// The destination is either an account id (one of the sender's own accounts, say) or
+// another user's email. Emails are only resolved here, so no one can look up who has
+// an account without sending them money.
+export const createTransfer = async (transferData: {
+  userId: string;
+  fromAccountId: string;
+  toAccountId?: string;
+  toEmail?: string;
+  amount: Money;
+  description?: string;
+  category?: string;
+  idempotencyKey?: string;
+}) => {
+  const { idempotencyKey, ...request } = transferData;
+
+  if (!isMoney(transferData.amount) || transferData.amount <= 0) {
+    throw new ActionError('invalid_amount', 'Amount must be greater than zero');
+  }
+  if (!transferData.toAccountId === !transferData.toEmail) {
+    throw new ActionError('invalid_transfer', 'Choose an account or enter an email');
+  }
+
+  return await db.transaction(async (tx) => {
+    if (idempotencyKey) {
+      const previousTransferId = await claimIdempotencyKey(tx, request.userId, idempotencyKey, ['transfer', request]);
+      if (previousTransferId) {
+        const [debit, credit] = await tx.select()
+          .from(transactions)
+          .where(eq(transactions.transferId, previousTransferId))
+          .orderBy(transactions.transferDirection);
+        return { debit, credit };
+      }
+    }
+
+    const { toEmail, ...transfer } = request;
+    const toAccountId = transfer.toAccountId ?? await getRecipientAccountId(tx, toEmail!);
+    if (transfer.fromAccountId === toAccountId) {
+      throw new ActionError('invalid_transfer', 'Cannot transfer to the same account');
+    }
+
+    const { debit, credit } = await insertTransfer(tx, { ...transfer, toAccountId });
+
+    if (idempotencyKey) {
+      await completeIdempotencyKey(tx, request.userId, idempotencyKey, debit.transferId!);
+    }
+
+    return { debit, credit };
+  });
+};
+
+// The account a transfer to `email` lands in: the recipient's oldest active personal
+// account
+const getRecipientAccountId = async (tx: Tx, email: string) => {
+  const [recipient] = await tx.select({ accountId: accounts.id })
+    .from(accounts)
+    .innerJoin(users, eq(accounts.userId, users.id))
+    .where(and(
+      eq(users.email, email.trim().toLowerCase()),
+      eq(accounts.accountType, 'personal'),
+      eq(accounts.isActive, true)
+    ))
+    .orderBy(accounts.createdAt)
+    .limit(1);
+  if (!recipient) {
+    throw new ActionError('account_not_found', 'No FimPay user found with this email');
+  }
+  return recipient.accountId;
+};
+
+// Checks, posts (or holds) and records a transfer within `tx`
+const insertTransfer = async (tx: Tx, transfer: {
+  userId: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: Money;
+  description?: string;
+  category?: string;
 }) => {
-  const [transaction] = await db.insert(transactions).values(transactionData).returning();
+  const needsMemberApproval = await checkAccountUse(tx, transfer.userId, transfer.fromAccountId);
+
+  const [destination] = await tx.select({ account: accounts, owner: users })
+    .from(accounts)
+    .innerJoin(users, eq(accounts.userId, users.id))
+    .where(eq(accounts.id, transfer.toAccountId));
+  if (!destination || !destination.account.isActive) {
+    throw new ActionError('account_not_found', 'Recipient account not found');
+  }
+
+  const requiresApproval = await checkParentControls(tx, transfer.userId, {
+    amount: transfer.amount,
+    category: transfer.category,
+    outgoing: true,
+  }) || needsMemberApproval;
+  if (requiresApproval) {
+    await applyBalanceChange(tx, transfer.fromAccountId, { held: transfer.amount });
+  } else {
+    await postTransfer(tx, transfer.fromAccountId, destination.account.id, transfer.amount, { held: 0 });
+  }
+
+  const recipientName = [destination.owner.firstName, destination.owner.lastName].filter(Boolean).join(' ')
+    || destination.owner.email;
+
+  const [debit] = await tx.insert(transactions).values({
+    userId: transfer.userId,
+    accountId: transfer.fromAccountId,
+    type: 'transfer',
+    amount: transfer.amount,
+    description: transfer.description,
+    category: transfer.category,
+    recipient: recipientName,
+    transferId: sql`gen_random_uuid()`,
+    transferDirection: 'debit',
+    counterpartyAccountId: destination.account.id,
+    requiresApproval,
+    status: requiresApproval ? 'pending' : 'completed',
+  }).returning();
+
+  const [credit] = await tx.insert(transactions).values({
+    userId: destination.account.userId,
+    accountId: destination.account.id,
+    type: 'transfer',
+    amount: transfer.amount,
+    description: transfer.description,
+    category: transfer.category,
+    transferId: debit.transferId,
+    transferDirection: 'credit',
+    counterpartyAccountId: transfer.fromAccountId,
+    requiresApproval,
+    status: requiresApproval ? 'pending' : 'completed',
+  }).returning();
+
+  await refreshBudgetSpent(tx, debit);
+  if (requiresApproval) {
+    await notifyApprovalNeeded(tx, debit);
+  }
+  return { debit, credit };
+};
+
+// Throws unless `userId` can spend from `accountId` without anyone's approval
+const checkSpendableAccount = async (tx: Tx, userId: string, accountId: string) => {
+  if (await checkAccountUse(tx, userId, accountId)) {
+    throw new ActionError('not_authorized', 'You need approval to spend from this account');
+  }
+};
+
+// Where money paid to a user lands: their oldest active personal account
+const getPrimaryAccount = async (tx: Tx | typeof db, userId: string) => {
+  const [account] = await tx.select()
+    .from(accounts)
+    .where(and(
+      eq(accounts.userId, userId),
+      eq(accounts.accountType, 'personal'),
+      eq(accounts.isActive, true)
+    ))
+    .orderBy(accounts.createdAt)
+    .limit(1);
+  return account;
+};
 
-  // Update account balance
-  const currentBalance = await getAccountBalance(transactionData.accountId);
-  let newBalance = parseFloat(currentBalance);
+// Moves `amount` from source to destination. `held` is how much of it was already
+// reserved on the source by a pending transfer.
+const postTransfer = async (
+  tx: Tx,
+  sourceId: string,
+  destinationId: string,
+  amount: Money,
+  { held }: { held: Money }
+) => {
+  // Lock both accounts in a fixed order so opposing transfers can't deadlock
+  const postings: [string, { balance: Money; held?: Money }][] = [
+    [sourceId, { balance: -amount, held: -held }],
+    [destinationId, { balance: amount }],
+  ];
+  postings.sort(([a], [b]) => a.localeCompare(b));
+  for (const [accountId, change] of postings) {
+    await applyBalanceChange(tx, accountId, change);
+  }
+};
+
+// Idempotency keys
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Claims `key` for a request within `tx`. Returns the id stored by the original request
+// when the key was already used for the same request, or null if this request should run.
+// A concurrent request with the same key blocks on the insert until the first one
+// commits (and then replays it) or rolls back (and then runs itself).
+const claimIdempotencyKey = async (tx: Tx, userId: string, key: string, request: unknown) => {
+  const requestFingerprint = JSON.stringify(request, (_, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  );
+
+  await tx.delete(idempotencyKeys)
+    .where(and(eq(idempotencyKeys.userId, userId), lt(idempotencyKeys.expiresAt, new Date())));
+
+  const [claimed] = await tx.insert(idempotencyKeys)
+    .values({ userId, key, requestFingerprint, expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS) })
+    .onConflictDoNothing()
+    .returning();
+  if (claimed) {
+    return null;
+  }
 
-  if (transactionData.type === 'deposit') {
-    newBalance += parseFloat(transactionData.amount);
-  } else if (transactionData.type === 'withdrawal') {
-    newBalance -= parseFloat(transactionData.amount);
+  const [existing] = await tx.select()
+    .from(idempotencyKeys)
+    .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)));
+  if (existing.requestFingerprint !== requestFingerprint) {
+    throw new ActionError('idempotency_key_reused', 'This request key was already used for a different request');
   }
+  return existing.resultId;
+};
 
-  await updateAccountBalance(transactionData.accountId, newBalance.toFixed(2));
+const completeIdempotencyKey = async (tx: Tx, userId: string, key: string, resultId: string) => {
+  await tx.update(idempotencyKeys)
+    .set({ resultId })
+    .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)));
+};
 
-  return transaction;
+// Both legs of a transfer, debit first
+export const getTransferLegs = async (transferId: string) => {
+  return await db.select()
+    .from(transactions)
+    .where(eq(transactions.transferId, transferId))
+    .orderBy(transactions.transferDirection);
 };
 
 export const getUserTransactions = async (userId: string, limit = 50) => {
@@ -143,143 +754,1901 @@ export const getPendingTransactions = async (userId: string) => {
     ));
 };
 
-export const approveTransaction = async (transactionId: string, approverId: string) => {
-  const [transaction] = await db.update(transactions)
-    .set({
-      status: 'completed',
-      approvedBy: approverId,
-      approvedAt: new Date()
-    })
-    .where(eq(transactions.id, transactionId))
-    .returning();
-  return transaction;
-};
+// Moves one of the user's own transactions to another spending category (or none). Each
+// side of a transfer keeps its own category.
+export const updateTransactionCategory = async (transactionId: string, userId: string, category: string | null) => {
+  return await db.transaction(async (tx) => {
+    const [transaction] = await tx.select()
+      .from(transactions)
+      .where(eq(transactions.id, transactionId))
+      .for('update');
+    if (!transaction || transaction.userId !== userId) {
+      throw new ActionError('transaction_not_found', 'Transaction not found');
+    }
 
-// Family account actions
-export const createFamilyRequest = async (requestData: {
-  childId: string;
-  parentId: string;
-  message?: string;
-}) => {
-  const [request] = await db.insert(familyRequests).values(requestData).returning();
-  return request;
+    const [updated] = await tx.update(transactions)
+      .set({ category: category?.trim() || null })
+      .where(eq(transactions.id, transactionId))
+      .returning();
+    await refreshBudgetSpent(tx, transaction);
+    await refreshBudgetSpent(tx, updated);
+    return updated;
+  });
 };
 
-export const getFamilyRequests = async (userId: string) => {
-  return await db.select()
-    .from(familyRequests)
-    .where(eq(familyRequests.parentId, userId))
-    .orderBy(desc(familyRequests.createdAt));
+// Allowed status changes; anything not listed here is rejected
+const STATUS_TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+  pending: ['completed', 'rejected', 'failed'],
+  completed: [],
+  rejected: [],
+  failed: [],
 };
 
-export const approveFamilyRequest = async (requestId: string) => {
-  const [request] = await db.update(familyRequests)
-    .set({ status: 'approved', updatedAt: new Date() })
-    .where(eq(familyRequests.id, requestId))
+// Moves a transaction (and, for transfers, its other leg) to `status`, failing if its
+// current status doesn't allow it. The status check is part of the update, so two
+// parents deciding at once can't both succeed.
+const transitionTransaction = async (
+  tx: Tx,
+  transaction: Transaction,
+  status: TransactionStatus
+) => {
+  const allowedFrom = (Object.keys(STATUS_TRANSITIONS) as TransactionStatus[])
+    .filter((from) => STATUS_TRANSITIONS[from].includes(status));
+
+  const updated = await tx.update(transactions)
+    .set({ status })
+    .where(and(
+      transaction.transferId
+        ? eq(transactions.transferId, transaction.transferId)
+        : eq(transactions.id, transaction.id),
+      inArray(transactions.status, allowedFrom)
+    ))
     .returning();
 
-  // Link child to parent
-  if (request) {
-    await db.update(users)
-      .set({ parentId: request.parentId, role: 'child' })
-      .where(eq(users.id, request.childId));
+  const self = updated.find((row) => row.id === transaction.id);
+  if (!self) {
+    throw new ActionError('invalid_status_transition', `This transaction is already ${transaction.status}`);
   }
 
-  return request;
+  // Spending only counts towards budgets once it's completed
+  await refreshBudgetSpent(tx, self);
+  return self;
 };
 
-export const getUserChildren = async (parentId: string) => {
-  return await db.select()
-    .from(users)
-    .where(eq(users.parentId, parentId));
-};
+// Loads a pending-approval transaction, checking that `approverId` may decide on it: a
+// child's transactions are decided by their guardians, anyone else's (on a joint account)
+// by another member with full use of the account
+const getTransactionForApproval = async (tx: Tx, transactionId: string, approverId: string) => {
+  const [row] = await tx.select({ transaction: transactions, owner: users, membership: householdMembers })
+    .from(transactions)
+    .innerJoin(users, eq(transactions.userId, users.id))
+    .leftJoin(householdMembers, eq(householdMembers.userId, users.id))
+    .where(eq(transactions.id, transactionId));
 
-// Budget actions
-export const createBudget = async (budgetData: {
-  userId: string;
-  category: string;
-  amount: string;
-  period?: string;
-  startDate: Date;
-  endDate: Date;
-}) => {
-  const [budget] = await db.insert(budgets).values(budgetData).returning();
-  return budget;
+  if (!row) {
+    throw new ActionError('transaction_not_found', 'Transaction not found');
+  }
+  if (row.membership?.role === 'child') {
+    if (!(await isGuardianOf(tx, approverId, row.owner.id))) {
+      throw new ActionError('not_authorized', 'Only a guardian can decide on this transaction');
+    }
+  } else if (
+    approverId === row.owner.id ||
+    (await getAccountPermission(tx, approverId, row.transaction.accountId)) !== 'spend'
+  ) {
+    throw new ActionError('not_authorized', 'Only another member of this account can decide on this transaction');
+  }
+  if (row.transaction.transferDirection === 'credit') {
+    throw new ActionError('invalid_status_transition', 'Decide on the sending side of a transfer');
+  }
+  return row.transaction;
 };
 
-export const getUserBudgets = async (userId: string) => {
-  return await db.select().from(budgets).where(eq(budgets.userId, userId));
-};
+export const approveTransaction = async (transactionId: string, approverId: string, comment?: string) => {
+  return await db.transaction(async (tx) => {
+    const pending = await getTransactionForApproval(tx, transactionId, approverId);
+    const transaction = await transitionTransaction(tx, pending, 'completed');
+    await tx.insert(transactionApprovals).values({
+      transactionId,
+      deciderId: approverId,
+      decision: 'approved',
+      comment: comment?.trim() || null,
+    });
+    await notifyTransactionDecided(tx, transaction, approverId, comment);
 
-export const updateBudgetSpent = async (budgetId: string, spentAmount: string) => {
-  const [budget] = await db.update(budgets)
-    .set({ spent: spentAmount })
-    .where(eq(budgets.id, budgetId))
-    .returning();
-  return budget;
+    if (transaction.type === 'deposit') {
+      await applyBalanceChange(tx, transaction.accountId, { balance: transaction.amount });
+    } else if (transaction.type === 'withdrawal') {
+      await applyBalanceChange(tx, transaction.accountId, {
+        balance: -transaction.amount,
+        held: -transaction.amount,
+      });
+    } else if (transaction.type === 'transfer' && transaction.counterpartyAccountId) {
+      await postTransfer(tx, transaction.accountId, transaction.counterpartyAccountId, transaction.amount, {
+        held: transaction.amount,
+      });
+    }
+
+    return transaction;
+  });
 };
 
-// AI Chat actions
-export const saveAIChat = async (chatData: {
-  userId: string;
-  message: string;
-  response: string;
-}) => {
-  const [chat] = await db.insert(aiChats).values({
-    ...chatData,
-    messageType: 'user'
-  }).returning();
+export const rejectTransaction = async (transactionId: string, approverId: string, comment?: string) => {
+  return await db.transaction(async (tx) => {
+    const pending = await getTransactionForApproval(tx, transactionId, approverId);
+    const transaction = await transitionTransaction(tx, pending, 'rejected');
+    await tx.insert(transactionApprovals).values({
+      transactionId,
+      deciderId: approverId,
+      decision: 'rejected',
+      comment: comment?.trim() || null,
+    });
+    await notifyTransactionDecided(tx, transaction, approverId, comment);
 
-  // Also save AI response
-  await db.insert(aiChats).values({
-    userId: chatData.userId,
-    message: chatData.response,
-    response: '',
-    messageType: 'ai'
+    // Deposits never held anything; withdrawals and outgoing transfers release their hold
+    if (transaction.type !== 'deposit') {
+      await applyBalanceChange(tx, transaction.accountId, { held: -transaction.amount });
+    }
+
+    return transaction;
   });
+};
 
-  return chat;
+// Decision history for one transaction, oldest first
+export const getTransactionDecisions = async (transactionId: string) => {
+  return await db.select({ decision: transactionApprovals, decider: users })
+    .from(transactionApprovals)
+    .innerJoin(users, eq(transactionApprovals.deciderId, users.id))
+    .where(eq(transactionApprovals.transactionId, transactionId))
+    .orderBy(transactionApprovals.createdAt);
 };
 
-export const getUserAIChats = async (userId: string, limit = 100) => {
-  return await db.select()
-    .from(aiChats)
-    .where(eq(aiChats.userId, userId))
-    .orderBy(desc(aiChats.createdAt))
+// Latest decisions parents made on this user's transactions, newest first
+export const getDecisionsForUser = async (userId: string, limit = 10) => {
+  return await db.select({ decision: transactionApprovals, transaction: transactions, decider: users })
+    .from(transactionApprovals)
+    .innerJoin(transactions, eq(transactionApprovals.transactionId, transactions.id))
+    .innerJoin(users, eq(transactionApprovals.deciderId, users.id))
+    .where(eq(transactions.userId, userId))
+    .orderBy(desc(transactionApprovals.createdAt))
     .limit(limit);
 };
 
-// Analytics/Dashboard data
-export const getUserDashboardData = async (userId: string) => {
-  // Get total balance
-  const userAccounts = await getUserAccounts(userId);
-  const totalBalance = userAccounts.reduce((sum, account) => sum + parseFloat(account.balance), 0);
+// Spending limit actions
+export const getSpendingLimits = async (childId: string) => {
+  const [limits] = await db.select().from(spendingLimits).where(eq(spendingLimits.childId, childId));
+  return limits;
+};
 
-  // Get recent transactions
-  const recentTransactions = await getUserTransactions(userId, 10);
+export const updateSpendingLimits = async (parentId: string, childId: string, limits: {
+  dailyLimit?: Money | null;
+  weeklyLimit?: Money | null;
+  monthlyLimit?: Money | null;
+  perTransactionLimit?: Money | null;
+  autoApproveThreshold?: Money | null;
+  blockedCategories?: string[];
+}) => {
+  for (const amount of [
+    limits.dailyLimit,
+    limits.weeklyLimit,
+    limits.monthlyLimit,
+    limits.perTransactionLimit,
+    limits.autoApproveThreshold,
+  ]) {
+    if (amount !== undefined && amount !== null && (!isMoney(amount) || amount < 0)) {
+      throw new ActionError('invalid_amount', 'Limits must be zero or more');
+    }
+  }
 
-  // Get pending approvals (for parents)
-  const children = await getUserChildren(userId);
-  const childIds = children.map(child => child.id);
-  let pendingApprovals: any[] = [];
-  if (childIds.length > 0) {
-    pendingApprovals = await db.select({
-      transaction: transactions,
-      child: users
-    })
-      .from(transactions)
-      .leftJoin(users, eq(transactions.userId, users.id))
-      .where(and(
-        sql`${transactions.userId} IN ${childIds}`,
-        eq(transactions.requiresApproval, true),
-        eq(transactions.status, 'pending')
-      ));
+  if (!(await isGuardianOf(db, parentId, childId))) {
+    throw new ActionError('not_authorized', 'Only a guardian can change these limits');
   }
 
+  const [saved] = await db.insert(spendingLimits)
+    .values({ ...limits, childId, parentId })
+    .onConflictDoUpdate({
+      target: spendingLimits.childId,
+      set: { ...limits, parentId, updatedAt: new Date() },
+    })
+    .returning();
+  return saved;
+};
+
+// Allowance actions
+const ALLOWANCE_LABELS: Record<AllowanceFrequency, string> = {
+  weekly: 'Weekly',
+  fortnightly: 'Fortnightly',
+  monthly: 'Monthly',
+};
+
+// The first occurrence of a schedule strictly after `after`. Runs keep the weekday (or
+// day of month) and time of day of the start date on a clock in `timeZone`, the payer's;
+// a monthly allowance starting on the 31st is paid on the last day of shorter months.
+const nextAllowanceDate = (schedule: Pick<AllowanceSchedule, 'frequency' | 'startDate'>, after: Date, timeZone: string) => {
+  const start = new Date(schedule.startDate);
+  if (start > after) {
+    return start;
+  }
+
+  const first = wallClock(start, timeZone);
+  const occurrence = (n: number) => {
+    const date = new Date(first);
+    if (schedule.frequency === 'monthly') {
+      const lastDay = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + n + 1, 0)).getUTCDate();
+      date.setUTCDate(1);
+      date.setUTCMonth(first.getUTCMonth() + n);
+      date.setUTCDate(Math.min(first.getUTCDate(), lastDay));
+    } else {
+      date.setUTCDate(first.getUTCDate() + n * (schedule.frequency === 'weekly' ? 7 : 14));
+    }
+    return fromWallClock(date, timeZone);
+  };
+
+  // Estimate how many periods have passed, then step forward to the first one after `after`
+  const periodDays = schedule.frequency === 'monthly' ? 31 : schedule.frequency === 'weekly' ? 7 : 14;
+  let n = Math.max(Math.floor((after.getTime() - start.getTime()) / (periodDays * 24 * 60 * 60 * 1000)), 1);
+  while (occurrence(n - 1) > after) n--;
+  while (occurrence(n) <= after) n++;
+  return occurrence(n);
+};
+
+// When a schedule should next run if it starts paying from now on
+const upcomingAllowanceDate = (schedule: Pick<AllowanceSchedule, 'frequency' | 'startDate'>, now: Date, timeZone: string) => {
+  return new Date(schedule.startDate) >= now ? new Date(schedule.startDate) : nextAllowanceDate(schedule, now, timeZone);
+};
+
+// Loads a schedule for a change by one of the child's guardians, locking it so a run
+// can't pay the occurrence being edited or skipped at the same time
+const getAllowanceScheduleForGuardian = async (tx: Tx, scheduleId: string, guardianId: string) => {
+  const [schedule] = await tx.select()
+    .from(allowanceSchedules)
+    .where(eq(allowanceSchedules.id, scheduleId))
+    .for('update');
+  if (!schedule) {
+    throw new ActionError('allowance_not_found', 'Allowance not found');
+  }
+  if (!(await isGuardianOf(tx, guardianId, schedule.childId))) {
+    throw new ActionError('not_authorized', "Only the child's guardians can change this allowance");
+  }
+  return schedule;
+};
+
+export const createAllowanceSchedule = async (scheduleData: {
+  parentId: string;
+  childId: string;
+  sourceAccountId: string;
+  amount: Money;
+  frequency: AllowanceFrequency;
+  startDate: Date;
+}) => {
+  if (!isMoney(scheduleData.amount) || scheduleData.amount <= 0) {
+    throw new ActionError('invalid_amount', 'Amount must be greater than zero');
+  }
+
+  return await db.transaction(async (tx) => {
+    if (!(await isGuardianOf(tx, scheduleData.parentId, scheduleData.childId))) {
+      throw new ActionError('not_authorized', 'Only a guardian can set up an allowance');
+    }
+    await checkSpendableAccount(tx, scheduleData.parentId, scheduleData.sourceAccountId);
+
+    const [schedule] = await tx.insert(allowanceSchedules).values({
+      ...scheduleData,
+      nextRunAt: upcomingAllowanceDate(scheduleData, new Date(), await getTimeZone(tx, scheduleData.parentId)),
+    }).returning();
+    return schedule;
+  });
+};
+
+export const updateAllowanceSchedule = async (scheduleId: string, guardianId: string, changes: {
+  sourceAccountId?: string;
+  amount?: Money;
+  frequency?: AllowanceFrequency;
+  startDate?: Date;
+}) => {
+  if (changes.amount !== undefined && (!isMoney(changes.amount) || changes.amount <= 0)) {
+    throw new ActionError('invalid_amount', 'Amount must be greater than zero');
+  }
+
+  return await db.transaction(async (tx) => {
+    const schedule = await getAllowanceScheduleForGuardian(tx, scheduleId, guardianId);
+    if (changes.sourceAccountId) {
+      await checkSpendableAccount(tx, guardianId, changes.sourceAccountId);
+    }
+
+    // A new frequency or start date re-plans the schedule from today. Paying from their own
+    // account makes this guardian the payer.
+    const updated = { ...schedule, ...changes, ...(changes.sourceAccountId ? { parentId: guardianId } : {}) };
+    const replanned = changes.frequency !== undefined || changes.startDate !== undefined;
+
+    const [saved] = await tx.update(allowanceSchedules)
+      .set({
+        ...changes,
+        parentId: updated.parentId,
+        nextRunAt: replanned
+          ? upcomingAllowanceDate(updated, new Date(), await getTimeZone(tx, updated.parentId))
+          : schedule.nextRunAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(allowanceSchedules.id, scheduleId))
+      .returning();
+    return saved;
+  });
+};
+
+// Paused schedules don't pay; resuming picks up from the next date still to come rather
+// than paying the runs missed while paused
+export const setAllowancePaused = async (scheduleId: string, guardianId: string, paused: boolean) => {
+  return await db.transaction(async (tx) => {
+    const schedule = await getAllowanceScheduleForGuardian(tx, scheduleId, guardianId);
+    const now = new Date();
+
+    const [saved] = await tx.update(allowanceSchedules)
+      .set({
+        isPaused: paused,
+        nextRunAt: !paused && schedule.nextRunAt <= now
+          ? nextAllowanceDate(schedule, now, await getTimeZone(tx, schedule.parentId))
+          : schedule.nextRunAt,
+        updatedAt: now,
+      })
+      .where(eq(allowanceSchedules.id, scheduleId))
+      .returning();
+    return saved;
+  });
+};
+
+// Skips the next run without paying it, and records the skip in the run history
+export const skipNextAllowance = async (scheduleId: string, guardianId: string) => {
+  return await db.transaction(async (tx) => {
+    const schedule = await getAllowanceScheduleForGuardian(tx, scheduleId, guardianId);
+
+    await tx.insert(allowanceRuns).values({
+      scheduleId,
+      scheduledFor: schedule.nextRunAt,
+      status: 'skipped',
+    });
+    const [saved] = await tx.update(allowanceSchedules)
+      .set({
+        nextRunAt: nextAllowanceDate(schedule, schedule.nextRunAt, await getTimeZone(tx, schedule.parentId)),
+        updatedAt: new Date(),
+      })
+      .where(eq(allowanceSchedules.id, scheduleId))
+      .returning();
+    return saved;
+  });
+};
+
+// Pays every allowance run that has come due, one run per database transaction. A run
+// that can't be paid (the parent's account is short, say) is recorded as failed and the
+// schedule moves on to its next date; one whose payer can no longer pay from its source
+// account at all is paused as well. Pass `userId` to only process the schedules that
+// user pays or receives.
+export const runDueAllowances = async (options: { userId?: string; now?: Date } = {}) => {
+  const now = options.now ?? new Date();
+  const runs = [];
+
+  for (;;) {
+    const run = await db.transaction(async (tx) => {
+      // Skip schedules another caller is already paying
+      const [schedule] = await tx.select()
+        .from(allowanceSchedules)
+        .where(and(
+          eq(allowanceSchedules.isPaused, false),
+          lte(allowanceSchedules.nextRunAt, now),
+          options.userId
+            ? or(eq(allowanceSchedules.parentId, options.userId), eq(allowanceSchedules.childId, options.userId))
+            : undefined
+        ))
+        .orderBy(allowanceSchedules.nextRunAt)
+        .limit(1)
+        .for('update', { skipLocked: true });
+      if (!schedule) {
+        return null;
+      }
+      return await payAllowance(tx, schedule);
+    });
+    if (!run) break;
+    runs.push(run);
+  }
+
+  return runs;
+};
+
+const payAllowance = async (tx: Tx, schedule: AllowanceSchedule) => {
+  let transferId: string | null = null;
+  let failureReason: string | null = null;
+
+  // The payer may have left the household, or lost the right to spend from the source
+  // account, since setting the schedule up. Then the schedule pauses until a guardian
+  // updates it, rather than failing on every run.
+  if (!(await isGuardianOf(tx, schedule.parentId, schedule.childId))) {
+    failureReason = 'The payer is no longer a guardian of this child';
+  } else {
+    try {
+      await checkSpendableAccount(tx, schedule.parentId, schedule.sourceAccountId);
+    } catch (error) {
+      if (!(error instanceof ActionError)) throw error;
+      failureReason = error.message;
+    }
+  }
+  const paused = failureReason !== null;
+
+  const destination = paused ? undefined : await getPrimaryAccount(tx, schedule.childId);
+  if (!paused && !destination) {
+    failureReason = 'Child has no active account';
+  } else if (destination) {
+    try {
+      // A savepoint, so a failed payment rolls back on its own and the run is still recorded
+      const { debit } = await tx.transaction(async (savepoint) => insertTransfer(savepoint, {
+        userId: schedule.parentId,
+        fromAccountId: schedule.sourceAccountId,
+        toAccountId: destination.id,
+        amount: schedule.amount,
+        description: `${ALLOWANCE_LABELS[schedule.frequency]} allowance`,
+      }));
+      transferId = debit.transferId;
+    } catch (error) {
+      if (!(error instanceof ActionError)) throw error;
+      failureReason = error.message;
+    }
+  }
+
+  const [run] = await tx.insert(allowanceRuns).values({
+    scheduleId: schedule.id,
+    scheduledFor: schedule.nextRunAt,
+    status: transferId ? 'paid' : 'failed',
+    transferId,
+    failureReason,
+  }).returning();
+
+  await tx.update(allowanceSchedules)
+    .set({
+      isPaused: paused,
+      nextRunAt: nextAllowanceDate(schedule, schedule.nextRunAt, await getTimeZone(tx, schedule.parentId)),
+      updatedAt: new Date(),
+    })
+    .where(eq(allowanceSchedules.id, schedule.id));
+
+  if (transferId) {
+    await notify(tx, [schedule.childId], {
+      type: 'allowance_paid',
+      title: 'Allowance paid',
+      body: `${await getUserName(tx, schedule.parentId)} paid your ${ALLOWANCE_LABELS[schedule.frequency].toLowerCase()} ` +
+        `allowance of ${formatMoney(schedule.amount)}`,
+      href: '/',
+    });
+  }
+
+  return run;
+};
+
+// A child's allowance schedules, whichever guardian pays them, each with its latest run
+export const getAllowanceSchedules = async (childId: string) => {
+  const schedules = await db.select()
+    .from(allowanceSchedules)
+    .where(eq(allowanceSchedules.childId, childId))
+    .orderBy(allowanceSchedules.createdAt);
+
+  return await Promise.all(schedules.map(async (schedule) => {
+    const [lastRun] = await db.select()
+      .from(allowanceRuns)
+      .where(eq(allowanceRuns.scheduleId, schedule.id))
+      .orderBy(desc(allowanceRuns.createdAt))
+      .limit(1);
+    return { schedule, lastRun: lastRun ?? null };
+  }));
+};
+
+// The soonest allowance a child has coming, if any
+export const getNextAllowance = async (childId: string) => {
+  const [next] = await db.select({
+    amount: allowanceSchedules.amount,
+    frequency: allowanceSchedules.frequency,
+    nextRunAt: allowanceSchedules.nextRunAt,
+  })
+    .from(allowanceSchedules)
+    .where(and(eq(allowanceSchedules.childId, childId), eq(allowanceSchedules.isPaused, false)))
+    .orderBy(allowanceSchedules.nextRunAt)
+    .limit(1);
+  return next ?? null;
+};
+
+// Chore actions
+// Loads a chore for a change by one of the child's guardians, locking it so the child
+// can't resubmit it while a guardian is deciding
+const getChoreForGuardian = async (tx: Tx, choreId: string, guardianId: string) => {
+  const [chore] = await tx.select().from(chores).where(eq(chores.id, choreId)).for('update');
+  if (!chore) {
+    throw new ActionError('chore_not_found', 'Chore not found');
+  }
+  if (!(await isGuardianOf(tx, guardianId, chore.childId))) {
+    throw new ActionError('not_authorized', "Only the child's guardians can change this chore");
+  }
+  return chore;
+};
+
+const CHORE_STATUS_MESSAGES: Record<Chore['status'], string> = {
+  open: "This chore hasn't been marked as done yet",
+  submitted: 'This chore is already waiting for approval',
+  approved: 'This chore has already been approved',
+  cancelled: 'This chore was cancelled',
+};
+
+const checkChoreStatus = (chore: Chore, allowedFrom: Chore['status'][]) => {
+  if (!allowedFrom.includes(chore.status)) {
+    throw new ActionError('invalid_status_transition', CHORE_STATUS_MESSAGES[chore.status]);
+  }
+};
+
+export const createChore = async (choreData: {
+  parentId: string;
+  childId: string;
+  sourceAccountId: string;
+  title: string;
+  description?: string;
+  reward: Money;
+  dueDate: Date;
+}) => {
+  if (!choreData.title.trim()) {
+    throw new ActionError('invalid_chore', 'Give the chore a title');
+  }
+  if (!isMoney(choreData.reward) || choreData.reward <= 0) {
+    throw new ActionError('invalid_amount', 'Reward must be greater than zero');
+  }
+
+  return await db.transaction(async (tx) => {
+    if (!(await isGuardianOf(tx, choreData.parentId, choreData.childId))) {
+      throw new ActionError('not_authorized', 'Only a guardian can set chores');
+    }
+    await checkSpendableAccount(tx, choreData.parentId, choreData.sourceAccountId);
+
+    const [chore] = await tx.insert(chores).values({ ...choreData, title: choreData.title.trim() }).returning();
+    return chore;
+  });
+};
+
+// The child marks a chore as done, sending it to their guardians for approval
+export const submitChore = async (choreId: string, childId: string) => {
+  return await db.transaction(async (tx) => {
+    const [chore] = await tx.select().from(chores).where(eq(chores.id, choreId)).for('update');
+    if (!chore || chore.childId !== childId) {
+      throw new ActionError('chore_not_found', 'Chore not found');
+    }
+    checkChoreStatus(chore, ['open']);
+
+    const [saved] = await tx.update(chores)
+      .set({ status: 'submitted', submittedAt: new Date(), updatedAt: new Date() })
+      .where(eq(chores.id, choreId))
+      .returning();
+    await notify(tx, await getGuardianIds(tx, childId), {
+      type: 'approval_needed',
+      title: 'Chore done',
+      body: `${await getUserName(tx, childId)} finished "${chore.title}" and is waiting for the ${formatMoney(chore.reward)} reward`,
+      href: '/',
+    });
+    return saved;
+  });
+};
+
+// Accepts the child's work and pays the reward into their account, from the account of
+// the guardian who set the chore
+export const approveChore = async (choreId: string, guardianId: string, comment?: string) => {
+  return await db.transaction(async (tx) => {
+    const chore = await getChoreForGuardian(tx, choreId, guardianId);
+    checkChoreStatus(chore, ['submitted']);
+
+    const destination = await getPrimaryAccount(tx, chore.childId);
+    if (!destination) {
+      throw new ActionError('account_not_found', 'Child has no active account');
+    }
+    const { debit } = await insertTransfer(tx, {
+      userId: chore.parentId,
+      fromAccountId: chore.sourceAccountId,
+      toAccountId: destination.id,
+      amount: chore.reward,
+      description: `Chore reward: ${chore.title}`,
+    });
+
+    const [saved] = await tx.update(chores)
+      .set({
+        status: 'approved',
+        decidedAt: new Date(),
+        parentComment: comment?.trim() || null,
+        transferId: debit.transferId,
+        updatedAt: new Date(),
+      })
+      .where(eq(chores.id, choreId))
+      .returning();
+    await notify(tx, [chore.childId], {
+      type: 'approval_decided',
+      title: 'Chore approved',
+      body: `${await getUserName(tx, guardianId)} paid you ${formatMoney(chore.reward)} for "${chore.title}"` +
+        (saved.parentComment ? `: "${saved.parentComment}"` : ''),
+      href: '/',
+    });
+    return saved;
+  });
+};
+
+// Sends a submitted chore back to the child to finish, with a note on what's missing
+export const rejectChore = async (choreId: string, guardianId: string, comment?: string) => {
+  return await db.transaction(async (tx) => {
+    const chore = await getChoreForGuardian(tx, choreId, guardianId);
+    checkChoreStatus(chore, ['submitted']);
+
+    const [saved] = await tx.update(chores)
+      .set({
+        status: 'open',
+        submittedAt: null,
+        decidedAt: new Date(),
+        parentComment: comment?.trim() || null,
+        updatedAt: new Date(),
+      })
+      .where(eq(chores.id, choreId))
+      .returning();
+    await notify(tx, [chore.childId], {
+      type: 'approval_decided',
+      title: 'Chore sent back',
+      body: `${await getUserName(tx, guardianId)} sent back "${chore.title}"` +
+        (saved.parentComment ? `: "${saved.parentComment}"` : ''),
+      href: '/',
+    });
+    return saved;
+  });
+};
+
+export const cancelChore = async (choreId: string, guardianId: string) => {
+  return await db.transaction(async (tx) => {
+    const chore = await getChoreForGuardian(tx, choreId, guardianId);
+    checkChoreStatus(chore, ['open', 'submitted']);
+
+    const [saved] = await tx.update(chores)
+      .set({ status: 'cancelled', decidedAt: new Date(), updatedAt: new Date() })
+      .where(eq(chores.id, choreId))
+      .returning();
+    return saved;
+  });
+};
+
+// A child's chores that aren't cancelled, soonest due first
+export const getChoresForChild = async (childId: string) => {
+  return await db.select()
+    .from(chores)
+    .where(and(eq(chores.childId, childId), ne(chores.status, 'cancelled')))
+    .orderBy(chores.dueDate);
+};
+
+// A child's chores that are still open or awaiting approval, whichever guardian set them
+export const getOutstandingChores = async (childId: string) => {
+  return await db.select()
+    .from(chores)
+    .where(and(eq(chores.childId, childId), inArray(chores.status, ['open', 'submitted'])))
+    .orderBy(chores.dueDate);
+};
+
+// Household actions
+const guardianMembers = alias(householdMembers, 'guardian_members');
+
+// Whether `guardianId` is a guardian, and `childId` a child, of the same household
+export const isGuardianOf = async (executor: Tx | typeof db, guardianId: string, childId: string) => {
+  const [row] = await executor.select({ id: householdMembers.id })
+    .from(householdMembers)
+    .innerJoin(guardianMembers, eq(guardianMembers.householdId, householdMembers.householdId))
+    .where(and(
+      eq(householdMembers.userId, childId),
+      eq(householdMembers.role, 'child'),
+      eq(guardianMembers.userId, guardianId),
+      eq(guardianMembers.role, 'guardian')
+    ));
+  return !!row;
+};
+
+// The user's guardian membership, starting a household with them as its guardian if
+// they don't belong to one yet
+const ensureHousehold = async (tx: Tx, userId: string) => {
+  const [membership] = await tx.select().from(householdMembers).where(eq(householdMembers.userId, userId));
+  if (membership) {
+    if (membership.role !== 'guardian') {
+      throw new ActionError('not_authorized', 'Only guardians can add people to a household');
+    }
+    return membership;
+  }
+
+  const [user] = await tx.select().from(users).where(eq(users.id, userId));
+  if (!user) {
+    throw new ActionError('not_authorized', 'Only guardians can add people to a household');
+  }
+  const [household] = await tx.insert(households).values({
+    name: user.firstName ? `${user.firstName}'s family` : 'Family',
+    createdBy: userId,
+  }).returning();
+  return await addHouseholdMember(tx, household.id, userId, 'guardian', userId);
+};
+
+const addHouseholdMember = async (
+  tx: Tx,
+  householdId: string,
+  userId: string,
+  role: HouseholdRole,
+  actorId: string
+) => {
+  // A user can only be in one household; the unique user_id makes a second join a no-op
+  const [membership] = await tx.insert(householdMembers)
+    .values({ householdId, userId, role })
+    .onConflictDoNothing()
+    .returning();
+  if (!membership) {
+    throw new ActionError('invalid_family_request', 'Already part of a household');
+  }
+
+  // Requests to join other families are moot now
+  await tx.update(familyRequests)
+    .set({ status: 'cancelled', decidedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(familyRequests.childId, userId), eq(familyRequests.status, 'pending')));
+
+  await recordHouseholdEvent(tx, membership, actorId, 'joined');
+  return membership;
+};
+
+const recordHouseholdEvent = async (
+  tx: Tx,
+  membership: { householdId: string; userId: string },
+  actorId: string,
+  type: HouseholdEventType,
+  note?: string
+) => {
+  await tx.insert(householdEvents).values({
+    householdId: membership.householdId,
+    userId: membership.userId,
+    actorId,
+    type,
+    note: note?.trim() || null,
+  });
+};
+
+// The user's household and role in it, with everyone in it; null if they have none
+export const getHousehold = async (userId: string) => {
+  const [membership] = await db.select({
+    household: households,
+    role: householdMembers.role,
+    leaveRequestedAt: householdMembers.leaveRequestedAt,
+  })
+    .from(householdMembers)
+    .innerJoin(households, eq(householdMembers.householdId, households.id))
+    .where(eq(householdMembers.userId, userId));
+  if (!membership) {
+    return null;
+  }
+
+  const members = await db.select({
+    user: users,
+    role: householdMembers.role,
+    leaveRequestedAt: householdMembers.leaveRequestedAt,
+  })
+    .from(householdMembers)
+    .innerJoin(users, eq(householdMembers.userId, users.id))
+    .where(eq(householdMembers.householdId, membership.household.id))
+    .orderBy(householdMembers.createdAt);
+  return { ...membership, members };
+};
+
+// Children in the households this user is a guardian of
+export const getUserChildren = async (guardianId: string) => {
+  const children = await db.select({ user: users })
+    .from(householdMembers)
+    .innerJoin(users, eq(householdMembers.userId, users.id))
+    .innerJoin(guardianMembers, eq(guardianMembers.householdId, householdMembers.householdId))
+    .where(and(
+      eq(householdMembers.role, 'child'),
+      eq(guardianMembers.userId, guardianId),
+      eq(guardianMembers.role, 'guardian')
+    ))
+    .orderBy(householdMembers.createdAt);
+  return children.map(({ user }) => user);
+};
+
+// Leaving a household. A child asks to leave and a guardian confirms it (or declines);
+// a guardian can also unlink a child, or graduate them to an adult member, directly.
+
+// Locks the child's membership, checking `guardianId` is one of their guardians
+const getChildMembershipForGuardian = async (tx: Tx, guardianId: string, childId: string) => {
+  if (!(await isGuardianOf(tx, guardianId, childId))) {
+    throw new ActionError('not_authorized', "Only a guardian can change this child's membership");
+  }
+  const [membership] = await tx.select()
+    .from(householdMembers)
+    .where(eq(householdMembers.userId, childId))
+    .for('update');
+  return membership;
+};
+
+const getOwnChildMembership = async (tx: Tx, childId: string) => {
+  const [membership] = await tx.select()
+    .from(householdMembers)
+    .where(eq(householdMembers.userId, childId))
+    .for('update');
+  if (!membership || membership.role !== 'child') {
+    throw new ActionError('household_member_not_found', "You aren't a child in a household");
+  }
+  return membership;
+};
+
+export const requestLeaveHousehold = async (childId: string, note?: string) => {
+  return await db.transaction(async (tx) => {
+    const membership = await getOwnChildMembership(tx, childId);
+    if (membership.leaveRequestedAt) {
+      throw new ActionError('invalid_status_transition', 'You have already asked to leave');
+    }
+
+    const [updated] = await tx.update(householdMembers)
+      .set({ leaveRequestedAt: new Date() })
+      .where(eq(householdMembers.id, membership.id))
+      .returning();
+    await recordHouseholdEvent(tx, membership, childId, 'leave_requested', note);
+    return updated;
+  });
+};
+
+export const cancelLeaveHousehold = async (childId: string) => {
+  return await db.transaction(async (tx) => {
+    const membership = await getOwnChildMembership(tx, childId);
+    if (!membership.leaveRequestedAt) {
+      throw new ActionError('invalid_status_transition', "You haven't asked to leave");
+    }
+
+    const [updated] = await tx.update(householdMembers)
+      .set({ leaveRequestedAt: null })
+      .where(eq(householdMembers.id, membership.id))
+      .returning();
+    await recordHouseholdEvent(tx, membership, childId, 'leave_cancelled');
+    return updated;
+  });
+};
+
+export const declineLeaveHousehold = async (guardianId: string, childId: string, note?: string) => {
+  return await db.transaction(async (tx) => {
+    const membership = await getChildMembershipForGuardian(tx, guardianId, childId);
+    if (!membership.leaveRequestedAt) {
+      throw new ActionError('invalid_status_transition', "This child hasn't asked to leave");
+    }
+
+    const [updated] = await tx.update(householdMembers)
+      .set({ leaveRequestedAt: null })
+      .where(eq(householdMembers.id, membership.id))
+      .returning();
+    await recordHouseholdEvent(tx, membership, guardianId, 'leave_declined', note);
+    return updated;
+  });
+};
+
+// Removes a child from the household, whether or not they asked to leave. Their
+// accounts and history stay with them.
+export const unlinkChild = async (guardianId: string, childId: string, note?: string) => {
+  return await db.transaction(async (tx) => {
+    const membership = await getChildMembershipForGuardian(tx, guardianId, childId);
+    await releaseChildControls(tx, childId);
+    await tx.delete(householdMembers).where(eq(householdMembers.id, membership.id));
+    await recordHouseholdEvent(tx, membership, guardianId, 'unlinked', note);
+    return membership;
+  });
+};
+
+// Makes a child an adult member of the household: they keep their accounts, history and
+// place in the family, but no longer need anyone's approval to spend
+export const graduateChild = async (guardianId: string, childId: string, note?: string) => {
+  return await db.transaction(async (tx) => {
+    const membership = await getChildMembershipForGuardian(tx, guardianId, childId);
+    await releaseChildControls(tx, childId);
+    const [updated] = await tx.update(householdMembers)
+      .set({ role: 'member', leaveRequestedAt: null })
+      .where(eq(householdMembers.id, membership.id))
+      .returning();
+    await recordHouseholdEvent(tx, membership, guardianId, 'graduated', note);
+    return updated;
+  });
+};
+
+// Ends everything that only applied while `childId` was a child: their spending limits,
+// transactions waiting for a guardian (cancelled, with any held funds released), chores
+// and allowances their guardians were managing
+const releaseChildControls = async (tx: Tx, childId: string) => {
+  await tx.delete(spendingLimits).where(eq(spendingLimits.childId, childId));
+
+  const awaitingGuardian = await tx.select()
+    .from(transactions)
+    .where(and(
+      eq(transactions.userId, childId),
+      eq(transactions.requiresApproval, true),
+      eq(transactions.status, 'pending'),
+      sql`${transactions.transferDirection} IS DISTINCT FROM 'credit'`
+    ));
+  for (const transaction of awaitingGuardian) {
+    // Spending from a joint account that needs its members' approval still does
+    if ((await getAccountPermission(tx, childId, transaction.accountId)) === 'spend_with_approval') {
+      continue;
+    }
+    await transitionTransaction(tx, transaction, 'failed');
+    if (transaction.type !== 'deposit') {
+      await applyBalanceChange(tx, transaction.accountId, { held: -transaction.amount });
+    }
+  }
+
+  await tx.update(chores)
+    .set({ status: 'cancelled', decidedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(chores.childId, childId), inArray(chores.status, ['open', 'submitted'])));
+  await tx.update(allowanceSchedules)
+    .set({ isPaused: true, updatedAt: new Date() })
+    .where(eq(allowanceSchedules.childId, childId));
+};
+
+// Audit trail for the user's household, plus anything that happened to the user in a
+// household they have since left, newest first
+export const getHouseholdEvents = async (userId: string, limit = 20) => {
+  const [membership] = await db.select().from(householdMembers).where(eq(householdMembers.userId, userId));
+  const actors = alias(users, 'actors');
+
+  return await db.select({ event: householdEvents, user: users, actor: actors })
+    .from(householdEvents)
+    .innerJoin(users, eq(householdEvents.userId, users.id))
+    .innerJoin(actors, eq(householdEvents.actorId, actors.id))
+    .where(or(
+      eq(householdEvents.userId, userId),
+      membership ? eq(householdEvents.householdId, membership.householdId) : undefined
+    ))
+    .orderBy(desc(householdEvents.createdAt))
+    .limit(limit);
+};
+
+// Family account actions
+const FAMILY_REQUEST_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const FAMILY_REQUEST_STATUS_MESSAGES: Record<FamilyRequestStatus, string> = {
+  pending: 'This request is still pending',
+  approved: 'This request has already been approved',
+  rejected: 'This request was declined',
+  cancelled: 'This request was withdrawn',
+  expired: 'This request has expired',
+};
+
+// Marks this user's pending requests (sent or received) that have passed their expiry
+// as expired. Run before reading or acting on requests, so expiry needs no scheduler.
+const expireFamilyRequests = async (userId: string) => {
+  const now = new Date();
+  await db.update(familyRequests)
+    .set({ status: 'expired', decidedAt: now, updatedAt: now })
+    .where(and(
+      eq(familyRequests.status, 'pending'),
+      lte(familyRequests.expiresAt, now),
+      or(eq(familyRequests.childId, userId), eq(familyRequests.parentId, userId))
+    ));
+};
+
+// Loads a request for a decision, locking it, and checks it's still pending
+const getPendingFamilyRequest = async (
+  tx: Tx,
+  requestId: string,
+  allowed: (request: FamilyRequest) => boolean
+) => {
+  const [request] = await tx.select()
+    .from(familyRequests)
+    .where(eq(familyRequests.id, requestId))
+    .for('update');
+  if (!request || !allowed(request)) {
+    throw new ActionError('family_request_not_found', 'Family request not found');
+  }
+  if (request.status === 'pending' && request.expiresAt <= new Date()) {
+    throw new ActionError('invalid_status_transition', FAMILY_REQUEST_STATUS_MESSAGES.expired);
+  }
+  if (request.status !== 'pending') {
+    throw new ActionError('invalid_status_transition', FAMILY_REQUEST_STATUS_MESSAGES[request.status]);
+  }
+  return request;
+};
+
+const closeFamilyRequest = async (tx: Tx, requestId: string, status: Exclude<FamilyRequestStatus, 'pending'>) => {
+  const [request] = await tx.update(familyRequests)
+    .set({ status, decidedAt: new Date(), updatedAt: new Date() })
+    .where(eq(familyRequests.id, requestId))
+    .returning();
+  return request;
+};
+
+export const createFamilyRequest = async (requestData: {
+  childId: string;
+  parentId: string;
+  role?: HouseholdRole;
+  message?: string;
+}) => {
+  if (requestData.childId === requestData.parentId) {
+    throw new ActionError('invalid_family_request', "You can't join your own family account");
+  }
+
+  const [membership] = await db.select()
+    .from(householdMembers)
+    .where(eq(householdMembers.userId, requestData.childId));
+  if (membership) {
+    throw new ActionError('invalid_family_request', 'You are already part of a household');
+  }
+
+  await expireFamilyRequests(requestData.childId);
+
+  return await db.transaction(async (tx) => {
+    // The partial unique index turns a second pending request to the same parent into a no-op
+    const [request] = await tx.insert(familyRequests)
+      .values({ ...requestData, expiresAt: new Date(Date.now() + FAMILY_REQUEST_TTL_MS) })
+      .onConflictDoNothing()
+      .returning();
+    if (!request) {
+      throw new ActionError('duplicate_family_request', 'You already have a pending request to this parent');
+    }
+
+    await notify(tx, [request.parentId], {
+      type: 'family_request',
+      title: 'New family request',
+      body: `${await getUserName(tx, request.childId)} wants to join your family` +
+        (request.role === 'child' ? '' : ` as a ${request.role}`) +
+        (request.message ? `: "${request.message}"` : ''),
+      href: '/profile',
+    });
+    return request;
+  });
+};
+
+// Requests sent to this parent, newest first, with who sent them
+export const getFamilyRequests = async (userId: string) => {
+  await expireFamilyRequests(userId);
+
+  return await db.select({
+    request: familyRequests,
+    requester: {
+      id: users.id,
+      email: users.email,
+      firstName: users.firstName,
+      lastName: users.lastName,
+    },
+  })
+    .from(familyRequests)
+    .innerJoin(users, eq(familyRequests.childId, users.id))
+    .where(eq(familyRequests.parentId, userId))
+    .orderBy(desc(familyRequests.createdAt));
+};
+
+// Requests this child has sent, newest first, with who they were sent to
+export const getSentFamilyRequests = async (childId: string) => {
+  await expireFamilyRequests(childId);
+
+  return await db.select({
+    request: familyRequests,
+    parent: {
+      id: users.id,
+      email: users.email,
+      firstName: users.firstName,
+      lastName: users.lastName,
+    },
+  })
+    .from(familyRequests)
+    .innerJoin(users, eq(familyRequests.parentId, users.id))
+    .where(eq(familyRequests.childId, childId))
+    .orderBy(desc(familyRequests.createdAt));
+};
+
+export const approveFamilyRequest = async (requestId: string, parentId: string) => {
+  return await db.transaction(async (tx) => {
+    const pending = await getPendingFamilyRequest(tx, requestId, (request) => request.parentId === parentId);
+
+    // Add the requester to the parent's household, unless another household took them first
+    const guardian = await ensureHousehold(tx, parentId);
+    await addHouseholdMember(tx, guardian.householdId, pending.childId, pending.role, parentId);
+
+    return await closeFamilyRequest(tx, requestId, 'approved');
+  });
+};
+
+export const rejectFamilyRequest = async (requestId: string, parentId: string) => {
+  return await db.transaction(async (tx) => {
+    await getPendingFamilyRequest(tx, requestId, (request) => request.parentId === parentId);
+    return await closeFamilyRequest(tx, requestId, 'rejected');
+  });
+};
+
+// The child withdraws a request they sent
+export const cancelFamilyRequest = async (requestId: string, childId: string) => {
+  return await db.transaction(async (tx) => {
+    await getPendingFamilyRequest(tx, requestId, (request) => request.childId === childId);
+    return await closeFamilyRequest(tx, requestId, 'cancelled');
+  });
+};
+
+const FAMILY_INVITE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const activeFamilyInvite = () => and(isNull(familyInvites.revokedAt), gt(familyInvites.expiresAt, new Date()));
+
+// Issues a fresh invite code for a guardian to share, revoking any code they shared
+// before for the same role. Redeeming it sends a join request the guardian approves,
+// for the role the invite is for. Inviting starts a household if the user doesn't have
+// one yet.
+export const createFamilyInvite = async (guardianId: string, role: HouseholdRole = 'child') => {
+  return await db.transaction(async (tx) => {
+    await ensureHousehold(tx, guardianId);
+
+    await tx.update(familyInvites)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(familyInvites.parentId, guardianId),
+        eq(familyInvites.role, role),
+        isNull(familyInvites.revokedAt)
+      ));
+
+    // Codes are random, so one clashing with an old code is rare; just draw another
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const [invite] = await tx.insert(familyInvites)
+        .values({
+          parentId: guardianId,
+          code: generateInviteCode(),
+          role,
+          expiresAt: new Date(Date.now() + FAMILY_INVITE_TTL_MS),
+        })
+        .onConflictDoNothing()
+        .returning();
+      if (invite) {
+        return invite;
+      }
+    }
+    throw new Error('Could not generate a unique invite code');
+  });
+};
+
+// The guardian's current invite for `role`, if it hasn't expired or been replaced
+export const getActiveFamilyInvite = async (guardianId: string, role: HouseholdRole = 'child') => {
+  const [invite] = await db.select()
+    .from(familyInvites)
+    .where(and(eq(familyInvites.parentId, guardianId), eq(familyInvites.role, role), activeFamilyInvite()))
+    .orderBy(desc(familyInvites.createdAt))
+    .limit(1);
+  return invite;
+};
+
+// Failed code lookups allowed per user within the window before they're turned away
+const INVITE_CODE_FAILURE_LIMIT = 10;
+const INVITE_CODE_FAILURE_WINDOW_MS = 60 * 60 * 1000;
+
+// Looks up a still-valid invite by its code, with the inviting guardian's name. Codes
+// that match nothing count against `userId`, who can't look up any more for a while
+// after too many, so codes can't be found by guessing.
+export const getFamilyInvite = async (userId: string, code: string) => {
+  return await db.transaction(async (tx) => {
+    // Lock the user, so that guesses made at the same time are counted one by one
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for('update');
+
+    const [{ failures }] = await tx.select({ failures: sql<number>`count(*)::int` })
+      .from(inviteCodeFailures)
+      .where(and(
+        eq(inviteCodeFailures.userId, userId),
+        gt(inviteCodeFailures.createdAt, new Date(Date.now() - INVITE_CODE_FAILURE_WINDOW_MS))
+      ));
+    if (failures >= INVITE_CODE_FAILURE_LIMIT) {
+      throw new ActionError('too_many_attempts', 'Too many invalid invite codes. Try again in an hour.');
+    }
+
+    const [invite] = await tx.select({
+      invite: familyInvites,
+      parent: {
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+      },
+    })
+      .from(familyInvites)
+      .innerJoin(users, eq(familyInvites.parentId, users.id))
+      .where(and(eq(familyInvites.code, code.trim().toUpperCase()), activeFamilyInvite()));
+    if (!invite) {
+      await tx.insert(inviteCodeFailures).values({ userId });
+    }
+    return invite;
+  });
+};
+
+// Redeems `code` by sending a join request, for the invite's role, to the guardian who
+// issued it
+export const joinFamilyWithInvite = async (userId: string, code: string, message?: string) => {
+  const found = await getFamilyInvite(userId, code);
+  if (!found) {
+    throw new ActionError('invite_not_found', 'This invite code is invalid or has expired');
+  }
+
+  return await createFamilyRequest({
+    childId: userId,
+    parentId: found.invite.parentId,
+    role: found.invite.role,
+    message,
+  });
+};
+
+// Budget actions
+
+// What a budget has used up: its owner's completed withdrawals and outgoing transfers in
+// its category, from startDate up to (not including) endDate. Written out in plain SQL so
+// it can refer to the budget row being updated.
+const budgetSpent = sql`coalesce((
+  SELECT sum(t.amount) FROM transactions t
+  WHERE t.user_id = budgets.user_id
+    AND t.category = budgets.category
+    AND t.status = 'completed'
+    AND (t.type = 'withdrawal' OR t.transfer_direction = 'debit')
+    AND t.created_at >= budgets.start_date
+    AND t.created_at < budgets.end_date
+), 0)`;
+
+// Recomputes `spent` on the budgets a transaction counts towards, after it's posted,
+// changes status or moves to another category
+const refreshBudgetSpent = async (tx: Tx, transaction: Pick<Transaction, 'userId' | 'category' | 'createdAt'>) => {
+  if (!transaction.category) {
+    return;
+  }
+  await renewEndedBudgets(tx, transaction.userId, transaction.category);
+
+  // Locking the budgets before the update means its snapshot includes the spending of
+  // anyone who refreshed them just before us
+  const covering = await tx.select({ id: budgets.id })
+    .from(budgets)
+    .where(and(
+      eq(budgets.userId, transaction.userId),
+      eq(budgets.category, transaction.category),
+      lte(budgets.startDate, transaction.createdAt),
+      gt(budgets.endDate, transaction.createdAt)
+    ))
+    .for('update');
+  if (covering.length > 0) {
+    const ids = covering.map(({ id }) => id);
+    await tx.update(budgets)
+      .set({ spent: budgetSpent })
+      .where(inArray(budgets.id, ids));
+    await carryForward(tx, ids);
+    await checkBudgetAlerts(tx, ids);
+  }
+};
+
+// Updates what the renewals of `budgetIds` (and theirs, on down the chain) brought
+// forward, after what was left of them changed
+const carryForward = async (tx: Tx, budgetIds: string[]) => {
+  const previous = alias(budgets, 'previous');
+  let ids = budgetIds;
+  while (ids.length > 0) {
+    const renewals = await tx.update(budgets)
+      .set({
+        carriedOver: sql`CASE WHEN ${previous.carryOver}
+          THEN ${previous.amount} + ${previous.carriedOver} - ${previous.spent} ELSE 0 END`,
+      })
+      .from(previous)
+      .where(and(eq(budgets.previousBudgetId, previous.id), inArray(previous.id, ids)))
+      .returning({ id: budgets.id });
+    ids = renewals.map(({ id }) => id);
+  }
+};
+
+type BudgetFields = {
+  category: string;
+  amount: Money;
+  period: string;
+  startDate: Date;
+  endDate: Date;
+  recurring: boolean;
+  carryOver: boolean;
+};
+
+const checkBudget = (budget: BudgetFields) => {
+  if (!budget.category.trim()) {
+    throw new ActionError('invalid_budget', 'Choose a category for the budget');
+  }
+  if (!isMoney(budget.amount) || budget.amount <= 0) {
+    throw new ActionError('invalid_amount', 'Amount must be greater than zero');
+  }
+  if (!isBudgetPeriod(budget.period)) {
+    throw new ActionError('invalid_budget', `Budgets run ${BUDGET_PERIODS.join(', ')}`);
+  }
+  if (!(budget.endDate > budget.startDate)) {
+    throw new ActionError('invalid_budget', 'The budget must end after it starts');
+  }
+};
+
+// Starts out with whatever was already spent in its period
+export const createBudget = async (budgetData: {
+  userId: string;
+  category: string;
+  amount: Money;
+  period?: string;
+  startDate: Date;
+  endDate: Date;
+  recurring?: boolean;
+  carryOver?: boolean;
+}) => {
+  const values = {
+    ...budgetData,
+    category: budgetData.category.trim(),
+    period: budgetData.period ?? 'monthly',
+    recurring: budgetData.recurring ?? false,
+    carryOver: budgetData.carryOver ?? false,
+  };
+  checkBudget(values);
+
+  return await db.transaction(async (tx) => {
+    const [inserted] = await tx.insert(budgets).values(values).returning();
+    const [budget] = await tx.update(budgets)
+      .set({ spent: budgetSpent })
+      .where(eq(budgets.id, inserted.id))
+      .returning();
+    return budget;
+  });
+};
+
+// Newest periods first
+export const getUserBudgets = async (userId: string) => {
+  await rollOverBudgets({ userId });
+  return await db.select()
+    .from(budgets)
+    .where(eq(budgets.userId, userId))
+    .orderBy(desc(budgets.startDate), budgets.category);
+};
+
+// A budget with the transactions that count towards it, newest first, and up to a year of
+// earlier periods of the same budget to compare it with
+export const getBudget = async (budgetId: string, userId: string) => {
+  const [budget] = await db.select().from(budgets).where(and(eq(budgets.id, budgetId), eq(budgets.userId, userId)));
+  if (!budget) {
+    throw new ActionError('budget_not_found', 'Budget not found');
+  }
+
+  // The same spending `budgetSpent` adds up
+  const counted = await db.select()
+    .from(transactions)
+    .where(and(
+      eq(transactions.userId, budget.userId),
+      eq(transactions.category, budget.category),
+      eq(transactions.status, 'completed'),
+      or(eq(transactions.type, 'withdrawal'), eq(transactions.transferDirection, 'debit')),
+      gte(transactions.createdAt, budget.startDate),
+      lt(transactions.createdAt, budget.endDate)
+    ))
+    .orderBy(desc(transactions.createdAt));
+
+  const earlier = await db.select()
+    .from(budgets)
+    .where(and(
+      eq(budgets.userId, budget.userId),
+      eq(budgets.category, budget.category),
+      eq(budgets.period, budget.period),
+      lt(budgets.startDate, budget.startDate)
+    ))
+    .orderBy(desc(budgets.startDate))
+    .limit(budget.period === 'weekly' ? 52 : 12);
+  return { budget, transactions: counted, earlier };
+};
+
+// Changing the category or dates changes which spending counts, so `spent` is recomputed,
+// along with what renewals of this budget brought forward. Turning off `recurring` stops
+// it being renewed when it ends.
+export const updateBudget = async (budgetId: string, userId: string, changes: Partial<BudgetFields>) => {
+  return await db.transaction(async (tx) => {
+    const [budget] = await tx.select()
+      .from(budgets)
+      .where(and(eq(budgets.id, budgetId), eq(budgets.userId, userId)))
+      .for('update');
+    if (!budget) {
+      throw new ActionError('budget_not_found', 'Budget not found');
+    }
+    // Fields left out (or undefined) keep their current value
+    const values: Partial<BudgetFields> = Object.fromEntries(
+      Object.entries(changes).filter(([, value]) => value !== undefined)
+    );
+    if (values.category !== undefined) {
+      values.category = values.category.trim();
+    }
+    checkBudget({ ...budget, ...values });
+
+    const [updated] = await tx.update(budgets)
+      .set(values)
+      .where(eq(budgets.id, budgetId))
+      .returning();
+    const [recomputed] = await tx.update(budgets)
+      .set({ spent: budgetSpent })
+      .where(eq(budgets.id, updated.id))
+      .returning();
+    await carryForward(tx, [budgetId]);
+    await checkBudgetAlerts(tx, [budgetId]);
+    return recomputed;
+  });
+};
+
+// Its renewal, if any, stays, keeping whatever it brought forward
+export const deleteBudget = async (budgetId: string, userId: string) => {
+  return await db.transaction(async (tx) => {
+    const [budget] = await tx.select()
+      .from(budgets)
+      .where(and(eq(budgets.id, budgetId), eq(budgets.userId, userId)))
+      .for('update');
+    if (!budget) {
+      throw new ActionError('budget_not_found', 'Budget not found');
+    }
+
+    await tx.update(budgets).set({ previousBudgetId: null }).where(eq(budgets.previousBudgetId, budgetId));
+    const [deleted] = await tx.delete(budgets).where(eq(budgets.id, budgetId)).returning();
+    return deleted;
+  });
+};
+
+// Recomputes `spent` from the transactions on every budget, or just one user's: for
+// budgets created, or transactions written, without going through these actions.
+// Returns how many budgets were updated.
+export const recomputeBudgetSpent = async (userId?: string) => {
+  return await db.transaction(async (tx) => {
+    const updated = await tx.update(budgets)
+      .set({ spent: budgetSpent })
+      .where(userId ? eq(budgets.userId, userId) : undefined)
+      .returning({ id: budgets.id });
+    await carryForward(tx, updated.map(({ id }) => id));
+    return updated.length;
+  });
+};
+
+// Recurring budgets whose period was over by `now` and that haven't been renewed yet
+const needsRenewal = (now: Date) => and(
+  eq(budgets.recurring, true),
+  isNull(budgets.renewedAt),
+  lte(budgets.endDate, now),
+  inArray(budgets.period, [...BUDGET_PERIODS])
+);
+
+// Renews recurring budgets whose period has ended with a budget for the next period. One
+// that hasn't been looked at for a while is renewed once for each period it missed, so
+// every period is kept to compare with. Returns the new budgets.
+//
+// Listing a user's budgets renews theirs first, and posting spending renews the budgets
+// in its category (see renewEndedBudgets), so nothing has to call this on a schedule.
+export const rollOverBudgets = async (options: { userId?: string; now?: Date } = {}) => {
+  const now = options.now ?? new Date();
+  const renewals = [];
+
+  for (;;) {
+    const renewal = await db.transaction(async (tx) => {
+      // Skip budgets another caller is already renewing
+      const [ended] = await tx.select()
+        .from(budgets)
+        .where(and(needsRenewal(now), options.userId ? eq(budgets.userId, options.userId) : undefined))
+        .orderBy(budgets.endDate)
+        .limit(1)
+        .for('update', { skipLocked: true });
+      if (!ended) {
+        return null;
+      }
+      return await renewBudget(tx, ended);
+    });
+    if (!renewal) break;
+    renewals.push(renewal);
+  }
+
+  return renewals;
+};
+
+// Renews the user's ended budgets in `category` within `tx`, so spending that's just been
+// posted counts towards (and alerts on) the period it falls in
+const renewEndedBudgets = async (tx: Tx, userId: string, category: string) => {
+  for (;;) {
+    const [ended] = await tx.select()
+      .from(budgets)
+      .where(and(needsRenewal(new Date()), eq(budgets.userId, userId), eq(budgets.category, category)))
+      .orderBy(budgets.endDate)
+      .limit(1)
+      .for('update');
+    if (!ended) {
+      return;
+    }
+    await renewBudget(tx, ended);
+  }
+};
+
+const renewBudget = async (tx: Tx, budget: Budget) => {
+  await tx.update(budgets).set({ renewedAt: new Date() }).where(eq(budgets.id, budget.id));
+
+  // Periods follow the calendar where the user lives, not the server's. A period cut short
+  // by a shorter month (31 January to 28 February, say) still ends on the day it started
+  // on, so the next one goes back to the 31st where there is one. Two months in a row are
+  // never both too short, so one of the two days is always that day.
+  const timeZone = await getTimeZone(tx, budget.userId);
+  const day = Math.max(wallClock(budget.startDate, timeZone).getUTCDate(), wallClock(budget.endDate, timeZone).getUTCDate());
+
+  const [inserted] = await tx.insert(budgets).values({
+    userId: budget.userId,
+    category: budget.category,
+    amount: budget.amount,
+    period: budget.period,
+    startDate: budget.endDate,
+    endDate: budgetPeriodEnd(budget.endDate, budget.period as BudgetPeriod, timeZone, day),
+    recurring: true,
+    carryOver: budget.carryOver,
+    carriedOver: budget.carryOver ? subtractMoney(addMoney(budget.amount, budget.carriedOver), budget.spent) : 0,
+    previousBudgetId: budget.id,
+  }).returning();
+  await tx.update(budgets).set({ spent: budgetSpent }).where(eq(budgets.id, inserted.id));
+  await checkBudgetAlerts(tx, [inserted.id]);
+
+  const [renewal] = await tx.select().from(budgets).where(eq(budgets.id, inserted.id));
+  return renewal;
+};
+
+// Notification actions
+type NotificationContent = Pick<NewNotification, 'type' | 'title' | 'body' | 'href'>;
+
+// Adds a notification to each user's inbox, skipping anyone who has turned its type off
+const notify = async (tx: Tx, userIds: string[], notification: NotificationContent) => {
+  if (userIds.length === 0) {
+    return [];
+  }
+  const recipients = await tx.select({ id: users.id })
+    .from(users)
+    .where(and(
+      inArray(users.id, userIds),
+      isNull(users.deletedAt),
+      sql`NOT (${notification.type} = ANY(${users.mutedNotifications}))`
+    ));
+  if (recipients.length === 0) {
+    return [];
+  }
+  return await tx.insert(notifications)
+    .values(recipients.map(({ id }) => ({ ...notification, userId: id })))
+    .returning();
+};
+
+const getUserName = async (tx: Tx, userId: string) => {
+  const [user] = await tx.select().from(users).where(eq(users.id, userId));
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email;
+};
+
+// "a ₹250.00 purchase (Cinema)", for telling someone else about a transaction
+const describeTransaction = (transaction: Transaction) => {
+  if (transaction.type === 'deposit') {
+    return `${formatMoney(transaction.amount)} deposit`;
+  }
+  if (transaction.type === 'transfer') {
+    return `${formatMoney(transaction.amount)} payment to ${transaction.recipient ?? 'another account'}`;
+  }
+  return `${formatMoney(transaction.amount)} purchase${transaction.description ? ` (${transaction.description})` : ''}`;
+};
+
+// The guardians of the child's household
+const getGuardianIds = async (tx: Tx, childId: string) => {
+  const guardians = await tx.select({ userId: guardianMembers.userId })
+    .from(householdMembers)
+    .innerJoin(guardianMembers, eq(guardianMembers.householdId, householdMembers.householdId))
+    .where(and(
+      eq(householdMembers.userId, childId),
+      eq(householdMembers.role, 'child'),
+      eq(guardianMembers.role, 'guardian')
+    ));
+  return guardians.map(({ userId }) => userId);
+};
+
+// Who may decide on a pending transaction (see getTransactionForApproval): a child's
+// guardians, or for anyone else the other members with full use of the account
+const getApproverIds = async (tx: Tx, transaction: Transaction) => {
+  const guardianIds = await getGuardianIds(tx, transaction.userId);
+  if (guardianIds.length > 0) {
+    return guardianIds;
+  }
+
+  const [account] = await tx.select().from(accounts).where(eq(accounts.id, transaction.accountId));
+  const members = await tx.select().from(accountMembers).where(eq(accountMembers.accountId, transaction.accountId));
+  const approverIds = members.filter((member) => member.permission === 'spend').map((member) => member.userId);
+  if (!members.some((member) => member.userId === account.userId)) {
+    approverIds.push(account.userId);
+  }
+  return approverIds.filter((userId) => userId !== transaction.userId);
+};
+
+const notifyApprovalNeeded = async (tx: Tx, transaction: Transaction) => {
+  await notify(tx, await getApproverIds(tx, transaction), {
+    type: 'approval_needed',
+    title: 'Approval needed',
+    body: `${await getUserName(tx, transaction.userId)} is asking you to approve a ${describeTransaction(transaction)}`,
+    href: '/',
+  });
+};
+
+const notifyTransactionDecided = async (tx: Tx, transaction: Transaction, deciderId: string, comment?: string) => {
+  const approved = transaction.status === 'completed';
+  await notify(tx, [transaction.userId], {
+    type: 'approval_decided',
+    title: approved ? 'Approved' : 'Declined',
+    body: `${await getUserName(tx, deciderId)} ${approved ? 'approved' : 'declined'} your ` +
+      `${describeTransaction(transaction)}${comment?.trim() ? `: "${comment.trim()}"` : ''}`,
+    href: '/',
+  });
+};
+
+// Spending thresholds a budget's owner is told about, highest first
+const BUDGET_ALERTS = [
+  { percent: 100, type: 'budget_overspent', title: (category: string) => `Your ${category} budget is used up` },
+  { percent: 80, type: 'budget_nearly_spent', title: (category: string) => `80% of your ${category} budget is spent` },
+  { percent: 50, type: 'budget_half_spent', title: (category: string) => `Half your ${category} budget is spent` },
+] as const;
+
+// Tells budgets' owners when spending first reaches 50%, 80% or 100% of what the budget
+// allows. Reaching several at once sends only the highest they haven't turned off.
+// Spending that drops back below a threshold (a purchase moved to another category, say)
+// means it's sent again if it's reached again. Budgets whose period is over are brought
+// up to date without telling anyone.
+const checkBudgetAlerts = async (tx: Tx, budgetIds: string[]) => {
+  const checked = await tx.select().from(budgets).where(inArray(budgets.id, budgetIds));
+  for (const budget of checked) {
+    const available = budgetAvailable(budget);
+    const reached = BUDGET_ALERTS.find(({ percent }) => budget.spent > 0 && budget.spent * 100 >= available * percent)
+      ?.percent ?? 0;
+    if (reached === budget.notifiedPercent) {
+      continue;
+    }
+
+    if (reached > budget.notifiedPercent && budget.endDate > new Date()) {
+      const over = subtractMoney(budget.spent, available);
+      for (const alert of BUDGET_ALERTS.filter(({ percent }) => percent <= reached && percent > budget.notifiedPercent)) {
+        const sent = await notify(tx, [budget.userId], {
+          type: alert.type,
+          title: alert.title(budget.category),
+          body: over > 0
+            ? `You've spent ${formatMoney(budget.spent)}, ${formatMoney(over)} over your ${formatMoney(available)} budget`
+            : `You've spent ${formatMoney(budget.spent)} of ${formatMoney(available)} this ${isBudgetPeriod(budget.period) ? BUDGET_PERIOD_NAMES[budget.period] : 'period'}`,
+          href: `/budgets/${budget.id}`,
+        });
+        if (sent.length > 0) break;
+      }
+    }
+    await tx.update(budgets).set({ notifiedPercent: reached }).where(eq(budgets.id, budget.id));
+  }
+};
+
+// The user's inbox, newest first
+export const getNotifications = async (userId: string, limit = 50) => {
+  return await db.select()
+    .from(notifications)
+    .where(eq(notifications.userId, userId))
+    .orderBy(desc(notifications.createdAt))
+    .limit(limit);
+};
+
+export const getUnreadNotificationCount = async (userId: string) => {
+  const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+    .from(notifications)
+    .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  return count;
+};
+
+// Marks the given notifications, or without `notificationIds` the whole inbox, as read.
+// Returns how many were unread.
+export const markNotificationsRead = async (userId: string, notificationIds?: string[]) => {
+  const marked = await db.update(notifications)
+    .set({ readAt: new Date() })
+    .where(and(
+      eq(notifications.userId, userId),
+      isNull(notifications.readAt),
+      notificationIds ? inArray(notifications.id, notificationIds) : undefined
+    ))
+    .returning({ id: notifications.id });
+  return marked.length;
+};
+
+// Which kinds of notification the user doesn't want; they stop being sent from now on
+export const setMutedNotifications = async (userId: string, muted: NotificationType[]) => {
+  const types = notificationTypeEnum.enumValues;
+  if (!Array.isArray(muted) || !muted.every((type) => types.includes(type))) {
+    throw new ActionError('invalid_notification_type', 'Unknown kind of notification');
+  }
+
+  const [user] = await db.update(users)
+    .set({ mutedNotifications: [...new Set(muted)], updatedAt: new Date() })
+    .where(eq(users.id, userId))
+    .returning();
+  return user;
+};
+
+// Analytics actions
+
+// Money moving to or from someone else: transfers between two of the user's own
+// accounts are neither income nor spending. Plain SQL, like budgetSpent, to refer to
+// the transaction row.
+const externalTransaction = sql`NOT EXISTS (
+  SELECT 1 FROM accounts a
+  WHERE a.id = transactions.counterparty_account_id AND a.user_id = transactions.user_id
+)`;
+
+const outgoingTransaction = or(eq(transactions.type, 'withdrawal'), eq(transactions.transferDirection, 'debit'));
+const incomingTransaction = or(eq(transactions.type, 'deposit'), eq(transactions.transferDirection, 'credit'));
+
+// What a user has spent and received over `range`: spending by category, income and
+// spending by month, who they paid most, and spending by day. Only completed transactions
+// count. Totals are summed by the database; months and days with nothing in them are
+// filled in as zero. Days and months are those of `timeZone`, an IANA name like
+// "Asia/Kolkata", so a payment late in the evening counts on the day the user made it.
+export const getSpendingAnalytics = async (
+  userId: string,
+  range: AnalyticsRange,
+  timeZone = 'UTC',
+  now = new Date()
+) => {
+  if (!isAnalyticsRange(range)) {
+    throw new ActionError('invalid_analytics_range', 'Choose this month, the last 3 months or this year');
+  }
+  if (!isTimeZone(timeZone)) {
+    throw new ActionError('invalid_analytics_range', `Unknown time zone ${timeZone}`);
+  }
+  const start = analyticsRangeStart(range, now, timeZone);
+  // created_at holds UTC without a zone; this is the same moment on the user's clock. The
+  // time zone is a parameter, so queries group by the first column rather than repeating
+  // an expression Postgres can't tell is the same.
+  const localTime = sql`(${transactions.createdAt} AT TIME ZONE 'UTC' AT TIME ZONE ${timeZone})`;
+  const inRange = and(
+    eq(transactions.userId, userId),
+    eq(transactions.status, 'completed'),
+    gte(transactions.createdAt, start),
+    lte(transactions.createdAt, now),
+    externalTransaction
+  );
+  const total = sql`coalesce(sum(${transactions.amount}), 0)`.mapWith(Number);
+  const totalWhere = (condition: SQL | undefined) =>
+    sql`coalesce(sum(${transactions.amount}) filter (where ${condition}), 0)`.mapWith(Number);
+
+  const category = sql<string>`coalesce(${transactions.category}, 'other')`;
+  const byCategory = await db.select({ category, total })
+    .from(transactions)
+    .where(and(inRange, outgoingTransaction))
+    .groupBy(category)
+    .orderBy(desc(total), category);
+
+  const month = sql<string>`to_char(${localTime}, 'YYYY-MM')`;
+  const months = await db.select({ month, income: totalWhere(incomingTransaction), spending: totalWhere(outgoingTransaction) })
+    .from(transactions)
+    .where(inRange)
+    .groupBy(sql`1`);
+
+  const topRecipients = await db.select({
+    recipient: sql<string>`${transactions.recipient}`,
+    total,
+    count: sql`count(*)`.mapWith(Number),
+  })
+    .from(transactions)
+    .where(and(inRange, outgoingTransaction, isNotNull(transactions.recipient)))
+    .groupBy(transactions.recipient)
+    .orderBy(desc(total), transactions.recipient)
+    .limit(5);
+
+  const day = sql<string>`to_char(${localTime}, 'YYYY-MM-DD')`;
+  const days = await db.select({ day, spending: total })
+    .from(transactions)
+    .where(and(inRange, outgoingTransaction))
+    .groupBy(sql`1`);
+
+  const monthly = monthKeys(start, now, timeZone).map((key) => {
+    const found = months.find((row) => row.month === key);
+    return { month: key, income: found?.income ?? 0, spending: found?.spending ?? 0 };
+  });
+  return {
+    range,
+    start,
+    income: addMoney(...monthly.map(({ income }) => income)),
+    spending: addMoney(...monthly.map(({ spending }) => spending)),
+    byCategory,
+    monthly,
+    topRecipients,
+    daily: dayKeys(start, now, timeZone).map((key) => ({
+      day: key,
+      spending: days.find((row) => row.day === key)?.spending ?? 0,
+    })),
+  };
+};
+
+// AI Chat actions
+export const saveAIChat = async (chatData: {
+  userId: string;
+  message: string;
+  response: string;
+}) => {
+  const [chat] = await db.insert(aiChats).values({
+    ...chatData,
+    messageType: 'user'
+  }).returning();
+
+  // Also save AI response
+  await db.insert(aiChats).values({
+    userId: chatData.userId,
+    message: chatData.response,
+    response: '',
+    messageType: 'ai'
+  });
+
+  return chat;
+};
+
+export const getUserAIChats = async (userId: string, limit = 100) => {
+  return await db.select()
+    .from(aiChats)
+    .where(eq(aiChats.userId, userId))
+    .orderBy(desc(aiChats.createdAt))
+    .limit(limit);
+};
+
+// Analytics/Dashboard data
+export const getUserDashboardData = async (userId: string) => {
+  // Get total balance, leaving out joint accounts this user can only view
+  const userAccounts = await getUserAccounts(userId);
+  const spendableAccounts = userAccounts.filter((account) => account.permission !== 'view');
+  const totalBalance = addMoney(...spendableAccounts.map((account) => account.balance));
+  const heldBalance = addMoney(...spendableAccounts.map((account) => account.heldBalance));
+
+  // Get recent transactions
+  const recentTransactions = await getUserTransactions(userId, 10);
+
+  // Get pending approvals (for parents, and for joint account members with full use)
+  const children = await getUserChildren(userId);
+  const childIds = children.map(child => child.id);
+  const jointAccountIds = (await db.select({ accountId: accountMembers.accountId })
+    .from(accountMembers)
+    .where(and(eq(accountMembers.userId, userId), eq(accountMembers.permission, 'spend'))))
+    .map(({ accountId }) => accountId);
+  let pendingApprovals: any[] = [];
+  if (childIds.length > 0 || jointAccountIds.length > 0) {
+    pendingApprovals = await db.select({
+      transaction: transactions,
+      child: users
+    })
+      .from(transactions)
+      .leftJoin(users, eq(transactions.userId, users.id))
+      .leftJoin(householdMembers, eq(householdMembers.userId, transactions.userId))
+      .where(and(
+        or(
+          childIds.length > 0 ? inArray(transactions.userId, childIds) : undefined,
+          jointAccountIds.length > 0
+            ? and(
+              inArray(transactions.accountId, jointAccountIds),
+              ne(transactions.userId, userId),
+              sql`${householdMembers.role} IS DISTINCT FROM 'child'`
+            )
+            : undefined
+        ),
+        eq(transactions.requiresApproval, true),
+        eq(transactions.status, 'pending'),
+        // A pending transfer is decided on its sending side
+        sql`${transactions.transferDirection} IS DISTINCT FROM 'credit'`
+      ));
+  }
+
+  // Finished chores waiting for this parent to pay the reward
+  const choresAwaitingApproval = await db.select({ chore: chores, child: users })
+    .from(chores)
+    .innerJoin(users, eq(chores.childId, users.id))
+    .where(and(
+      childIds.length > 0 ? inArray(chores.childId, childIds) : sql`false`,
+      eq(chores.status, 'submitted')
+    ))
+    .orderBy(chores.submittedAt);
+
+  // Decisions on this user's own transactions (for children)
+  const recentDecisions = await getDecisionsForUser(userId, 5);
+
+  // Upcoming pocket money (for children)
+  const nextAllowance = await getNextAllowance(userId);
+
+  const household = await getHousehold(userId);
+
+  // Deposits and withdrawals from the dashboard go to the user's own account, never a
+  // joint account someone else shared with them
+  const primaryAccount = await getPrimaryAccount(db, userId);
+
   return {
-    totalBalance: totalBalance.toFixed(2),
+    totalBalance,
+    availableBalance: subtractMoney(totalBalance, heldBalance),
+    primaryAccountId: primaryAccount?.id ?? null,
     recentTransactions,
     pendingApprovals,
+    choresAwaitingApproval,
+    recentDecisions,
+    nextAllowance,
+    household,
     accounts: userAccounts
   };
 };
\ No newline at end of file
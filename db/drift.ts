@@ -0,0 +1,89 @@
+import { generateDrizzleJson, generateMigration, type DrizzleSnapshotJSON } from 'drizzle-kit/api';
+import { sql, type SQL } from 'drizzle-orm';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { createDatabase, migrateDatabase, type Database } from './driver';
+import * as schema from './schema';
+
+// Checks that db/schema.ts, the migrations in drizzle/ and a live database all describe
+// the same schema. Used by scripts/check-schema.ts and the tests.
+
+const MIGRATIONS_FOLDER = 'drizzle';
+
+type Journal = { entries: { idx: number; tag: string }[] };
+
+const readJournal = (): Journal =>
+  JSON.parse(readFileSync(path.join(MIGRATIONS_FOLDER, 'meta', '_journal.json'), 'utf8'));
+
+// SQL that `drizzle-kit generate` would still have to write for db/schema.ts: changes
+// made to the code with no migration. Custom (hand-written) migrations have no snapshot,
+// so the latest snapshot is the one to compare with.
+export const findUnmigratedChanges = async () => {
+  const snapshots = readJournal().entries
+    .map(({ idx }) => path.join(MIGRATIONS_FOLDER, 'meta', `${String(idx).padStart(4, '0')}_snapshot.json`))
+    .flatMap((file) => {
+      try {
+        return [JSON.parse(readFileSync(file, 'utf8')) as DrizzleSnapshotJSON];
+      } catch {
+        return [];
+      }
+    });
+  const latest = snapshots[snapshots.length - 1];
+  return await generateMigration(latest, generateDrizzleJson(schema, latest.id));
+};
+
+// Every driver's execute() result carries the rows, but the shared Database type can't say so
+export const rows = async <Row>(database: Pick<Database, 'execute'>, query: SQL) =>
+  ((await database.execute(query)) as unknown as { rows: Row[] }).rows;
+
+// One line per column, constraint, index and enum in the public schema, read from the
+// catalog so both sides of a comparison are described the same way
+const describeSchema = async (database: Database) => {
+  const columns = await rows<{ line: string }>(database, sql`
+    SELECT format('column %s.%s %s%s%s', table_name, column_name, udt_name,
+      CASE WHEN is_nullable = 'NO' THEN ' not null' ELSE '' END,
+      coalesce(' default ' || column_default, '')) AS line
+    FROM information_schema.columns WHERE table_schema = 'public'
+  `);
+  const constraints = await rows<{ line: string }>(database, sql`
+    SELECT format('constraint %s.%s %s', c.conrelid::regclass, c.conname, pg_get_constraintdef(c.oid)) AS line
+    FROM pg_constraint c WHERE c.connamespace = 'public'::regnamespace AND c.contype <> 'n'
+  `);
+  const indexes = await rows<{ line: string }>(database, sql`
+    SELECT format('index %s', indexdef) AS line FROM pg_indexes WHERE schemaname = 'public'
+  `);
+  const enums = await rows<{ line: string }>(database, sql`
+    SELECT format('enum %s (%s)', t.typname, string_agg(e.enumlabel, ', ' ORDER BY e.enumsortorder)) AS line
+    FROM pg_type t JOIN pg_enum e ON e.enumtypid = t.oid
+    WHERE t.typnamespace = 'public'::regnamespace
+    GROUP BY t.typname
+  `);
+  return new Set([...columns, ...constraints, ...indexes, ...enums].map(({ line }) => line));
+};
+
+const appliedMigrationCount = async (database: Database) => {
+  const [journal] = await rows<{ exists: boolean }>(database, sql`
+    SELECT to_regclass('drizzle.__drizzle_migrations') IS NOT NULL AS exists
+  `);
+  if (!journal.exists) {
+    return 0;
+  }
+  const [{ count }] = await rows<{ count: number }>(database, sql`
+    SELECT count(*)::int AS count FROM drizzle.__drizzle_migrations
+  `);
+  return count;
+};
+
+// How `database` differs from a fresh one built by the migrations: what it's missing,
+// and what it has that the migrations don't
+export const findDatabaseDrift = async (database: Database) => {
+  const expectedDatabase = createDatabase('pglite', 'memory://');
+  await migrateDatabase('pglite', expectedDatabase, MIGRATIONS_FOLDER);
+
+  const [expected, actual] = await Promise.all([describeSchema(expectedDatabase), describeSchema(database)]);
+  return {
+    pendingMigrations: readJournal().entries.length - (await appliedMigrationCount(database)),
+    missing: [...expected].filter((line) => !actual.has(line)).sort(),
+    unexpected: [...actual].filter((line) => !expected.has(line)).sort(),
+  };
+};
@@ -0,0 +1,57 @@
+import { PGlite } from '@electric-sql/pglite';
+import { neon, neonConfig, Pool as NeonPool } from '@neondatabase/serverless';
+import { drizzle as drizzleNeonHttp, type NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { migrate as migrateNeonHttp } from 'drizzle-orm/neon-http/migrator';
+import { drizzle as drizzleNeonPool, type NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { migrate as migrateNeonPool } from 'drizzle-orm/neon-serverless/migrator';
+import { drizzle as drizzleNodePostgres, type NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { migrate as migrateNodePostgres } from 'drizzle-orm/node-postgres/migrator';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { drizzle as drizzlePglite, type PgliteDatabase } from 'drizzle-orm/pglite';
+import { migrate as migratePglite } from 'drizzle-orm/pglite/migrator';
+import { Pool as PgPool } from 'pg';
+import ws from 'ws';
+import * as schema from './schema';
+
+// How the server talks to Postgres:
+// - neon-http: one HTTP request per query. No interactive transactions, so the actions
+//   that move money fail with it; fine for read-only and edge use.
+// - neon-ws: Neon's websocket pool. The default, and what production uses.
+// - node-postgres: a plain TCP pool, for a local or self-hosted Postgres.
+// - pglite: Postgres compiled to WebAssembly, running in this process. The connection
+//   string is a data directory, or memory:// for a throwaway database (as in tests).
+export type DatabaseDriver = 'neon-http' | 'neon-ws' | 'node-postgres' | 'pglite';
+
+export const DATABASE_DRIVERS: readonly DatabaseDriver[] = ['neon-http', 'neon-ws', 'node-postgres', 'pglite'];
+
+// What db/actions.ts is written against, whichever driver is behind it
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export const createDatabase = (driver: DatabaseDriver, connectionString: string): Database => {
+  switch (driver) {
+    case 'neon-http':
+      return drizzleNeonHttp({ client: neon(connectionString), schema });
+    case 'neon-ws':
+      // Node before v22 has no global WebSocket
+      neonConfig.webSocketConstructor ??= globalThis.WebSocket ?? ws;
+      return drizzleNeonPool({ client: new NeonPool({ connectionString }), schema });
+    case 'node-postgres':
+      return drizzleNodePostgres({ client: new PgPool({ connectionString }), schema });
+    case 'pglite':
+      return drizzlePglite({ client: new PGlite(connectionString), schema });
+  }
+};
+
+// Applies the migrations in drizzle/ that `database` hasn't run yet
+export const migrateDatabase = async (driver: DatabaseDriver, database: Database, migrationsFolder = 'drizzle') => {
+  switch (driver) {
+    case 'neon-http':
+      return await migrateNeonHttp(database as NeonHttpDatabase<typeof schema>, { migrationsFolder });
+    case 'neon-ws':
+      return await migrateNeonPool(database as NeonDatabase<typeof schema>, { migrationsFolder });
+    case 'node-postgres':
+      return await migrateNodePostgres(database as NodePgDatabase<typeof schema>, { migrationsFolder });
+    case 'pglite':
+      return await migratePglite(database as PgliteDatabase<typeof schema>, { migrationsFolder });
+  }
+};
@@ -0,0 +1,41 @@
+// Expected, user-facing failures raised by db/actions (and passed on by the API routes).
+// Screens can show `message` as-is; anything that isn't an ActionError is a bug or a
+// connectivity problem.
+export type ActionErrorCode =
+  | 'not_authenticated'
+  | 'invalid_input'
+  | 'invalid_amount'
+  | 'invalid_transfer'
+  | 'account_not_found'
+  | 'insufficient_funds'
+  | 'idempotency_key_reused'
+  | 'transaction_not_found'
+  | 'invalid_status_transition'
+  | 'not_authorized'
+  | 'limit_exceeded'
+  | 'category_blocked'
+  | 'category_required'
+  | 'allowance_not_found'
+  | 'chore_not_found'
+  | 'invalid_chore'
+  | 'family_request_not_found'
+  | 'duplicate_family_request'
+  | 'invalid_family_request'
+  | 'invite_not_found'
+  | 'too_many_attempts'
+  | 'invalid_account_member'
+  | 'household_member_not_found'
+  | 'budget_not_found'
+  | 'invalid_budget'
+  | 'invalid_notification_type'
+  | 'invalid_analytics_range';
+
+export class ActionError extends Error {
+  code: ActionErrorCode;
+
+  constructor(code: ActionErrorCode, message: string) {
+    super(message);
+    this.name = 'ActionError';
+    this.code = code;
+  }
+}
@@ -1,12 +1,17 @@
-import { drizzle } from 'drizzle-orm/neon-http';
-import { neon } from '@neondatabase/serverless';
-import * as schema from './schema';
+import { createDatabase, DATABASE_DRIVERS, type DatabaseDriver } from './driver';
 
-// Create the connection
-const sql = neon(process.env.EXPO_PUBLIC_DATABASE_URL!);
+// Which driver to connect with, see db/driver.ts. Server-only: the app reaches the
+// database through the API routes in app/api.
+export const databaseDriver = (process.env.DATABASE_DRIVER ?? 'neon-ws') as DatabaseDriver;
+if (!DATABASE_DRIVERS.includes(databaseDriver)) {
+  throw new Error(`Unknown DATABASE_DRIVER "${databaseDriver}", expected one of ${DATABASE_DRIVERS.join(', ')}`);
+}
 
 // Create the database instance
-export const db = drizzle(sql, { schema });
+export const db = createDatabase(databaseDriver, process.env.DATABASE_URL!);
+
+// Handle passed to `db.transaction` callbacks
+export type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 // Export all schema for convenience
-export * from './schema';
\ No newline at end of file
+export * from './schema';
@@ -0,0 +1,44 @@
+import { sql } from 'drizzle-orm';
+import { rows } from './drift';
+import type { Database } from './driver';
+
+// Upgrading a database set up before the migrations in drizzle/ existed. It has an integer
+// users.id and no record of which migrations ran. Its tables (and enum types) are moved
+// into a "legacy" schema first, so the migrations can build the real ones from scratch;
+// drizzle/0015_import_legacy_data.sql then copies the data across.
+//
+// Only users, payment methods and transactions (and the balances they add up to) come
+// across. The legacy accounts, budgets, family_requests and ai_chats tables key their rows
+// by a uuid user_id, which no legacy user has: their ids are integers, so there's no owner
+// to give those rows to. They stay in the legacy schema, untouched.
+
+export const isLegacyDatabase = async (database: Database) => {
+  const [usersId] = await rows<{ data_type: string }>(database, sql`
+    SELECT data_type FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'users' AND column_name = 'id'
+  `);
+  return usersId?.data_type === 'integer';
+};
+
+// Returns how many tables were moved
+export const moveLegacyTables = async (database: Database) => {
+  return await database.transaction(async (tx) => {
+    await tx.execute(sql`CREATE SCHEMA legacy`);
+
+    const tables = await rows<{ tablename: string }>(tx, sql`SELECT tablename FROM pg_tables WHERE schemaname = 'public'`);
+    for (const { tablename } of tables) {
+      await tx.execute(sql`ALTER TABLE ${sql.identifier('public')}.${sql.identifier(tablename)} SET SCHEMA legacy`);
+    }
+
+    const types = await rows<{ typname: string }>(tx, sql`
+      SELECT t.typname FROM pg_type t
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      WHERE n.nspname = 'public' AND t.typtype = 'e'
+    `);
+    for (const { typname } of types) {
+      await tx.execute(sql`ALTER TYPE ${sql.identifier('public')}.${sql.identifier(typname)} SET SCHEMA legacy`);
+    }
+
+    return tables.length;
+  });
+};
@@ -1,13 +1,31 @@
-import { pgTable, text, integer, decimal, timestamp, boolean, uuid, pgEnum } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, text, integer, bigint, timestamp, boolean, uuid, pgEnum, index, uniqueIndex, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
 
 // Enums
 export const transactionTypeEnum = pgEnum('transaction_type', ['deposit', 'withdrawal', 'transfer']);
 export const accountTypeEnum = pgEnum('account_type', ['personal', 'joint_family']);
-export const userRoleEnum = pgEnum('user_role', ['parent', 'child']);
+export const accountPermissionEnum = pgEnum('account_permission', ['view', 'spend', 'spend_with_approval']);
+export const householdRoleEnum = pgEnum('household_role', ['guardian', 'member', 'child']);
+export const householdEventTypeEnum = pgEnum('household_event_type', ['joined', 'leave_requested', 'leave_cancelled', 'leave_declined', 'unlinked', 'graduated']);
+export const transactionStatusEnum = pgEnum('transaction_status', ['pending', 'completed', 'rejected', 'failed']);
+export const approvalDecisionEnum = pgEnum('approval_decision', ['approved', 'rejected']);
+export const allowanceFrequencyEnum = pgEnum('allowance_frequency', ['weekly', 'fortnightly', 'monthly']);
+export const allowanceRunStatusEnum = pgEnum('allowance_run_status', ['paid', 'skipped', 'failed']);
+export const choreStatusEnum = pgEnum('chore_status', ['open', 'submitted', 'approved', 'cancelled']);
+export const familyRequestStatusEnum = pgEnum('family_request_status', ['pending', 'approved', 'rejected', 'cancelled', 'expired']);
+export const transferDirectionEnum = pgEnum('transfer_direction', ['debit', 'credit']);
+export const notificationTypeEnum = pgEnum('notification_type', [
+  'budget_half_spent',
+  'budget_nearly_spent',
+  'budget_overspent',
+  'family_request',
+  'approval_needed',
+  'approval_decided',
+  'allowance_paid',
+]);
 
 // Users table (linked with Clerk)
-export const users: any = pgTable('users', {
+export const users = pgTable('users', {
   id: uuid('id').primaryKey().defaultRandom(),
   clerkId: text('clerk_id').unique().notNull(),
   email: text('email').notNull(),
@@ -15,24 +33,75 @@ export const users: any = pgTable('users', {
   lastName: text('last_name'),
   phoneNumber: text('phone_number'),
   profileImageUrl: text('profile_image_url'),
-  role: userRoleEnum('role').default('child'),
-  parentId: uuid('parent_id').references(() => users.id),
+  deletedAt: timestamp('deleted_at'), // Set when the Clerk user is deleted; their data is kept
+  mutedNotifications: notificationTypeEnum('muted_notifications').array().default(sql`'{}'`).notNull(), // Kinds they don't want
+  timeZone: text('time_zone').default('Asia/Kolkata').notNull(), // IANA name, kept up to date from their device
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// A family: guardians (who approve spending and manage children), other adult members,
+// and children
+export const households = pgTable('households', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: text('name').notNull(),
+  createdBy: uuid('created_by').references(() => users.id).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Each user belongs to at most one household
+export const householdMembers = pgTable('household_members', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  householdId: uuid('household_id').references(() => households.id).notNull(),
+  userId: uuid('user_id').references(() => users.id).notNull().unique(),
+  role: householdRoleEnum('role').notNull(),
+  leaveRequestedAt: timestamp('leave_requested_at'), // Set while a child's request to leave awaits a guardian
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('household_members_household_id_idx').on(table.householdId),
+]);
+
+// Audit trail of who joined or left a household, or grew up in it, and who did it
+export const householdEvents = pgTable('household_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  householdId: uuid('household_id').references(() => households.id).notNull(),
+  userId: uuid('user_id').references(() => users.id).notNull(), // The member it happened to
+  actorId: uuid('actor_id').references(() => users.id).notNull(),
+  type: householdEventTypeEnum('type').notNull(),
+  note: text('note'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('household_events_household_id_idx').on(table.householdId),
+  index('household_events_user_id_idx').on(table.userId),
+]);
+
 // Accounts table
 export const accounts = pgTable('accounts', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').references(() => users.id).notNull(),
   accountType: accountTypeEnum('account_type').default('personal').notNull(),
   accountName: text('account_name').notNull(),
-  balance: decimal('balance', { precision: 10, scale: 2 }).default('0.00').notNull(),
+  balance: bigint('balance', { mode: 'number' }).default(0).notNull(), // In paise, see lib/money.ts
+  heldBalance: bigint('held_balance', { mode: 'number' }).default(0).notNull(), // Reserved by pending transactions
   isActive: boolean('is_active').default(true).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Who shares a joint_family account, and what they may do with it. The account's
+// owner (accounts.user_id) is a member too; personal accounts have no rows here.
+export const accountMembers = pgTable('account_members', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  accountId: uuid('account_id').references(() => accounts.id).notNull(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  permission: accountPermissionEnum('permission').default('view').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('account_members_account_id_user_id_idx').on(table.accountId, table.userId),
+  index('account_members_user_id_idx').on(table.userId),
+]);
+
 // Payment methods table
 export const paymentMethods = pgTable('payment_methods', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -49,45 +118,199 @@ export const paymentMethods = pgTable('payment_methods', {
 // Transactions table
 export const transactions = pgTable('transactions', {
   id: uuid('id').primaryKey().defaultRandom(),
-  userId: uuid('user_id').references(() => users.id).notNull(),
+  userId: uuid('user_id').references(() => users.id).notNull(), // Who made it; on a joint account, which member
   accountId: uuid('account_id').references(() => accounts.id).notNull(),
   paymentMethodId: uuid('payment_method_id').references(() => paymentMethods.id),
   type: transactionTypeEnum('type').notNull(),
-  amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+  amount: bigint('amount', { mode: 'number' }).notNull(), // In paise
   description: text('description'),
   category: text('category'), // 'food', 'transport', 'entertainment', etc.
   recipient: text('recipient'), // For transfers
-  status: text('status').default('completed').notNull(), // 'pending', 'completed', 'failed'
+  transferId: uuid('transfer_id'), // Shared by the debit and credit legs of a transfer
+  transferDirection: transferDirectionEnum('transfer_direction'),
+  counterpartyAccountId: uuid('counterparty_account_id').references(() => accounts.id),
+  status: transactionStatusEnum('status').default('completed').notNull(),
   requiresApproval: boolean('requires_approval').default(false).notNull(),
-  approvedBy: uuid('approved_by').references(() => users.id),
-  approvedAt: timestamp('approved_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('transactions_transfer_id_idx').on(table.transferId),
+]);
+
+// Parent decisions on approval-required transactions, one row per decision
+export const transactionApprovals = pgTable('transaction_approvals', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  transactionId: uuid('transaction_id').references(() => transactions.id).notNull(),
+  deciderId: uuid('decider_id').references(() => users.id).notNull(),
+  decision: approvalDecisionEnum('decision').notNull(),
+  comment: text('comment'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('transaction_approvals_transaction_id_idx').on(table.transactionId),
+]);
+
+// Idempotency keys for money-moving actions, scoped per user
+export const idempotencyKeys = pgTable('idempotency_keys', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  key: text('key').notNull(),
+  requestFingerprint: text('request_fingerprint').notNull(), // Operation + parameters the key was first used with
+  resultId: uuid('result_id'), // Transaction id (or transfer id) produced by the original request
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('idempotency_keys_user_id_key_idx').on(table.userId, table.key),
+]);
+
+// Clerk webhook deliveries already handled, by their svix id, so a redelivery is a no-op
+export const webhookEvents = pgTable('webhook_events', {
+  id: text('id').primaryKey(),
+  type: text('type').notNull(),
+  processedAt: timestamp('processed_at').defaultNow().notNull(),
 });
 
+// Parent-set rules for a linked child's spending, one row per child. Null limits
+// mean "no cap".
+export const spendingLimits = pgTable('spending_limits', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  childId: uuid('child_id').references(() => users.id).unique().notNull(),
+  parentId: uuid('parent_id').references(() => users.id).notNull(), // Parent who last changed the rules
+  dailyLimit: bigint('daily_limit', { mode: 'number' }), // In paise, per calendar day
+  weeklyLimit: bigint('weekly_limit', { mode: 'number' }), // Monday to Sunday
+  monthlyLimit: bigint('monthly_limit', { mode: 'number' }),
+  perTransactionLimit: bigint('per_transaction_limit', { mode: 'number' }),
+  autoApproveThreshold: bigint('auto_approve_threshold', { mode: 'number' }), // Up to this amount skips approval
+  blockedCategories: text('blocked_categories').array().default(sql`'{}'::text[]`).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Recurring pocket money from a parent's account to a linked child
+export const allowanceSchedules = pgTable('allowance_schedules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  parentId: uuid('parent_id').references(() => users.id).notNull(), // The guardian who pays it
+  childId: uuid('child_id').references(() => users.id).notNull(),
+  sourceAccountId: uuid('source_account_id').references(() => accounts.id).notNull(),
+  amount: bigint('amount', { mode: 'number' }).notNull(), // In paise
+  frequency: allowanceFrequencyEnum('frequency').notNull(),
+  startDate: timestamp('start_date').notNull(), // Anchors the day of week/month runs fall on
+  nextRunAt: timestamp('next_run_at').notNull(),
+  isPaused: boolean('is_paused').default(false).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('allowance_schedules_next_run_at_idx').on(table.nextRunAt),
+]);
+
+// One row per scheduled occurrence, whether it was paid, skipped or failed
+export const allowanceRuns = pgTable('allowance_runs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  scheduleId: uuid('schedule_id').references(() => allowanceSchedules.id).notNull(),
+  scheduledFor: timestamp('scheduled_for').notNull(),
+  status: allowanceRunStatusEnum('status').notNull(),
+  transferId: uuid('transfer_id'), // Set when paid
+  failureReason: text('failure_reason'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('allowance_runs_schedule_id_scheduled_for_idx').on(table.scheduleId, table.scheduledFor),
+]);
+
+// Tasks a parent sets for a child, with a reward paid once the parent approves the work
+export const chores = pgTable('chores', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  parentId: uuid('parent_id').references(() => users.id).notNull(), // The guardian who set it and pays the reward
+  childId: uuid('child_id').references(() => users.id).notNull(),
+  sourceAccountId: uuid('source_account_id').references(() => accounts.id).notNull(), // Reward is paid from here
+  title: text('title').notNull(),
+  description: text('description'),
+  reward: bigint('reward', { mode: 'number' }).notNull(), // In paise
+  dueDate: timestamp('due_date').notNull(),
+  status: choreStatusEnum('status').default('open').notNull(),
+  submittedAt: timestamp('submitted_at'),
+  decidedAt: timestamp('decided_at'),
+  parentComment: text('parent_comment'), // Why it was sent back, or a note with the reward
+  transferId: uuid('transfer_id'), // The reward transfer, once approved
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('chores_child_id_idx').on(table.childId),
+  index('chores_parent_id_status_idx').on(table.parentId, table.status),
+]);
+
+// Short-lived codes a parent shares (as a QR code or FimPay:// link) so a child can ask
+// to join their family account
+export const familyInvites = pgTable('family_invites', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  parentId: uuid('parent_id').references(() => users.id).notNull(),
+  code: text('code').notNull().unique(), // From generateInviteCode in lib/invites
+  role: householdRoleEnum('role').default('child').notNull(), // What the invitee joins as
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'), // Set when the parent generates a newer code
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('family_invites_parent_id_idx').on(table.parentId),
+]);
+
+// Invite codes a user entered that didn't match a live invite, counted to slow down guessing
+export const inviteCodeFailures = pgTable('invite_code_failures', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('invite_code_failures_user_id_created_at_idx').on(table.userId, table.createdAt),
+]);
+
 // Joint Family Account requests
 export const familyRequests = pgTable('family_requests', {
   id: uuid('id').primaryKey().defaultRandom(),
   childId: uuid('child_id').references(() => users.id).notNull(),
   parentId: uuid('parent_id').references(() => users.id).notNull(),
-  status: text('status').default('pending').notNull(), // 'pending', 'approved', 'rejected'
+  role: householdRoleEnum('role').default('child').notNull(), // What the requester joins as, from the invite they used
+  status: familyRequestStatusEnum('status').default('pending').notNull(),
   message: text('message'),
+  expiresAt: timestamp('expires_at').notNull(), // Still-pending requests expire after this
+  decidedAt: timestamp('decided_at'), // When it stopped being pending, for whatever reason
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => [
+  // A child can only have one pending request to a given parent at a time
+  uniqueIndex('family_requests_pending_pair_idx')
+    .on(table.childId, table.parentId)
+    .where(sql`${table.status} = 'pending'`),
+]);
 
 // Budget planning table
 export const budgets = pgTable('budgets', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').references(() => users.id).notNull(),
   category: text('category').notNull(),
-  amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
-  spent: decimal('spent', { precision: 10, scale: 2 }).default('0.00').notNull(),
+  amount: bigint('amount', { mode: 'number' }).notNull(), // In paise
+  spent: bigint('spent', { mode: 'number' }).default(0).notNull(), // In paise, kept up to date from transactions
   period: text('period').default('monthly').notNull(), // 'weekly', 'monthly', 'yearly'
   startDate: timestamp('start_date').notNull(),
-  endDate: timestamp('end_date').notNull(),
+  endDate: timestamp('end_date').notNull(), // Exclusive: the start of the next period
+  recurring: boolean('recurring').default(false).notNull(), // Renewed for the next period when this one ends
+  carryOver: boolean('carry_over').default(false).notNull(), // What's left (or overspent) moves into the renewal
+  carriedOver: bigint('carried_over', { mode: 'number' }).default(0).notNull(), // In paise, from the previous period; negative if it was overspent
+  previousBudgetId: uuid('previous_budget_id').references((): AnyPgColumn => budgets.id).unique(), // The period this one renewed
+  renewedAt: timestamp('renewed_at'), // Set once the next period's budget exists
+  notifiedPercent: integer('notified_percent').default(0).notNull(), // Highest alert (50, 80 or 100) sent for this spending
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// A user's inbox: things that happened that they may want to act on
+export const notifications = pgTable('notifications', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  type: notificationTypeEnum('type').notNull(),
+  title: text('title').notNull(),
+  body: text('body').notNull(),
+  href: text('href'), // The screen that opens when it's tapped
+  readAt: timestamp('read_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('notifications_user_id_created_at_idx').on(table.userId, table.createdAt),
+]);
+
 // AI Chat history
 export const aiChats = pgTable('ai_chats', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -101,17 +324,60 @@ export const aiChats = pgTable('ai_chats', {
 // Relations
 export const usersRelations = relations(users, ({ many, one }) => ({
   accounts: many(accounts),
+  accountMemberships: many(accountMembers),
   paymentMethods: many(paymentMethods),
   transactions: many(transactions),
   budgets: many(budgets),
+  notifications: many(notifications),
   aiChats: many(aiChats),
-  parent: one(users, {
-    fields: [users.parentId],
-    references: [users.id],
-  }),
-  children: many(users),
+  householdMembership: one(householdMembers),
+  householdEvents: many(householdEvents, { relationName: 'subjectHouseholdEvents' }),
+  actedHouseholdEvents: many(householdEvents, { relationName: 'actorHouseholdEvents' }),
   sentRequests: many(familyRequests, { relationName: 'childRequests' }),
   receivedRequests: many(familyRequests, { relationName: 'parentRequests' }),
+  givenAllowances: many(allowanceSchedules, { relationName: 'parentAllowances' }),
+  allowances: many(allowanceSchedules, { relationName: 'childAllowances' }),
+  setChores: many(chores, { relationName: 'parentChores' }),
+  chores: many(chores, { relationName: 'childChores' }),
+  setSpendingLimits: many(spendingLimits, { relationName: 'parentLimits' }),
+  spendingLimits: many(spendingLimits, { relationName: 'childLimits' }),
+}));
+
+export const householdsRelations = relations(households, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [households.createdBy],
+    references: [users.id],
+  }),
+  members: many(householdMembers),
+  events: many(householdEvents),
+}));
+
+export const householdMembersRelations = relations(householdMembers, ({ one }) => ({
+  household: one(households, {
+    fields: [householdMembers.householdId],
+    references: [households.id],
+  }),
+  user: one(users, {
+    fields: [householdMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const householdEventsRelations = relations(householdEvents, ({ one }) => ({
+  household: one(households, {
+    fields: [householdEvents.householdId],
+    references: [households.id],
+  }),
+  user: one(users, {
+    fields: [householdEvents.userId],
+    references: [users.id],
+    relationName: 'subjectHouseholdEvents',
+  }),
+  actor: one(users, {
+    fields: [householdEvents.actorId],
+    references: [users.id],
+    relationName: 'actorHouseholdEvents',
+  }),
 }));
 
 export const accountsRelations = relations(accounts, ({ one, many }) => ({
@@ -119,7 +385,19 @@ export const accountsRelations = relations(accounts, ({ one, many }) => ({
     fields: [accounts.userId],
     references: [users.id],
   }),
-  transactions: many(transactions),
+  transactions: many(transactions, { relationName: 'accountTransactions' }),
+  members: many(accountMembers),
+}));
+
+export const accountMembersRelations = relations(accountMembers, ({ one }) => ({
+  account: one(accounts, {
+    fields: [accountMembers.accountId],
+    references: [accounts.id],
+  }),
+  user: one(users, {
+    fields: [accountMembers.userId],
+    references: [users.id],
+  }),
 }));
 
 export const paymentMethodsRelations = relations(paymentMethods, ({ one, many }) => ({
@@ -130,7 +408,7 @@ export const paymentMethodsRelations = relations(paymentMethods, ({ one, many })
   transactions: many(transactions),
 }));
 
-export const transactionsRelations = relations(transactions, ({ one }) => ({
+export const transactionsRelations = relations(transactions, ({ one, many }) => ({
   user: one(users, {
     fields: [transactions.userId],
     references: [users.id],
@@ -138,13 +416,88 @@ export const transactionsRelations = relations(transactions, ({ one }) => ({
   account: one(accounts, {
     fields: [transactions.accountId],
     references: [accounts.id],
+    relationName: 'accountTransactions',
+  }),
+  counterpartyAccount: one(accounts, {
+    fields: [transactions.counterpartyAccountId],
+    references: [accounts.id],
   }),
   paymentMethod: one(paymentMethods, {
     fields: [transactions.paymentMethodId],
     references: [paymentMethods.id],
   }),
-  approver: one(users, {
-    fields: [transactions.approvedBy],
+  approvals: many(transactionApprovals),
+}));
+
+export const transactionApprovalsRelations = relations(transactionApprovals, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [transactionApprovals.transactionId],
+    references: [transactions.id],
+  }),
+  decider: one(users, {
+    fields: [transactionApprovals.deciderId],
+    references: [users.id],
+  }),
+}));
+
+export const spendingLimitsRelations = relations(spendingLimits, ({ one }) => ({
+  child: one(users, {
+    fields: [spendingLimits.childId],
+    references: [users.id],
+    relationName: 'childLimits',
+  }),
+  parent: one(users, {
+    fields: [spendingLimits.parentId],
+    references: [users.id],
+    relationName: 'parentLimits',
+  }),
+}));
+
+export const allowanceSchedulesRelations = relations(allowanceSchedules, ({ one, many }) => ({
+  parent: one(users, {
+    fields: [allowanceSchedules.parentId],
+    references: [users.id],
+    relationName: 'parentAllowances',
+  }),
+  child: one(users, {
+    fields: [allowanceSchedules.childId],
+    references: [users.id],
+    relationName: 'childAllowances',
+  }),
+  sourceAccount: one(accounts, {
+    fields: [allowanceSchedules.sourceAccountId],
+    references: [accounts.id],
+  }),
+  runs: many(allowanceRuns),
+}));
+
+export const allowanceRunsRelations = relations(allowanceRuns, ({ one }) => ({
+  schedule: one(allowanceSchedules, {
+    fields: [allowanceRuns.scheduleId],
+    references: [allowanceSchedules.id],
+  }),
+}));
+
+export const choresRelations = relations(chores, ({ one }) => ({
+  parent: one(users, {
+    fields: [chores.parentId],
+    references: [users.id],
+    relationName: 'parentChores',
+  }),
+  child: one(users, {
+    fields: [chores.childId],
+    references: [users.id],
+    relationName: 'childChores',
+  }),
+  sourceAccount: one(accounts, {
+    fields: [chores.sourceAccountId],
+    references: [accounts.id],
+  }),
+}));
+
+export const familyInvitesRelations = relations(familyInvites, ({ one }) => ({
+  parent: one(users, {
+    fields: [familyInvites.parentId],
     references: [users.id],
   }),
 }));
@@ -162,11 +515,29 @@ export const familyRequestsRelations = relations(familyRequests, ({ one }) => ({
   }),
 }));
 
+export const idempotencyKeysRelations = relations(idempotencyKeys, ({ one }) => ({
+  user: one(users, {
+    fields: [idempotencyKeys.userId],
+    references: [users.id],
+  }),
+}));
+
 export const budgetsRelations = relations(budgets, ({ one }) => ({
   user: one(users, {
     fields: [budgets.userId],
     references: [users.id],
   }),
+  previousBudget: one(budgets, {
+    fields: [budgets.previousBudgetId],
+    references: [budgets.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
 }));
 
 export const aiChatsRelations = relations(aiChats, ({ one }) => ({
@@ -180,20 +551,65 @@ export const aiChatsRelations = relations(aiChats, ({ one }) => ({
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 
+export type Household = typeof households.$inferSelect;
+export type NewHousehold = typeof households.$inferInsert;
+
+export type HouseholdMember = typeof householdMembers.$inferSelect;
+export type NewHouseholdMember = typeof householdMembers.$inferInsert;
+export type HouseholdRole = (typeof householdRoleEnum.enumValues)[number];
+
+export type HouseholdEvent = typeof householdEvents.$inferSelect;
+export type NewHouseholdEvent = typeof householdEvents.$inferInsert;
+export type HouseholdEventType = (typeof householdEventTypeEnum.enumValues)[number];
+
 export type Account = typeof accounts.$inferSelect;
 export type NewAccount = typeof accounts.$inferInsert;
 
+export type AccountMember = typeof accountMembers.$inferSelect;
+export type NewAccountMember = typeof accountMembers.$inferInsert;
+export type AccountPermission = (typeof accountPermissionEnum.enumValues)[number];
+
 export type PaymentMethod = typeof paymentMethods.$inferSelect;
 export type NewPaymentMethod = typeof paymentMethods.$inferInsert;
 
 export type Transaction = typeof transactions.$inferSelect;
+export type TransactionStatus = (typeof transactionStatusEnum.enumValues)[number];
 export type NewTransaction = typeof transactions.$inferInsert;
 
+export type TransactionApproval = typeof transactionApprovals.$inferSelect;
+export type NewTransactionApproval = typeof transactionApprovals.$inferInsert;
+
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type NewIdempotencyKey = typeof idempotencyKeys.$inferInsert;
+
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+
+export type SpendingLimits = typeof spendingLimits.$inferSelect;
+export type NewSpendingLimits = typeof spendingLimits.$inferInsert;
+
+export type AllowanceSchedule = typeof allowanceSchedules.$inferSelect;
+export type NewAllowanceSchedule = typeof allowanceSchedules.$inferInsert;
+export type AllowanceFrequency = (typeof allowanceFrequencyEnum.enumValues)[number];
+
+export type AllowanceRun = typeof allowanceRuns.$inferSelect;
+export type NewAllowanceRun = typeof allowanceRuns.$inferInsert;
+
+export type Chore = typeof chores.$inferSelect;
+export type NewChore = typeof chores.$inferInsert;
+
+export type FamilyInvite = typeof familyInvites.$inferSelect;
+export type NewFamilyInvite = typeof familyInvites.$inferInsert;
+
 export type FamilyRequest = typeof familyRequests.$inferSelect;
 export type NewFamilyRequest = typeof familyRequests.$inferInsert;
+export type FamilyRequestStatus = (typeof familyRequestStatusEnum.enumValues)[number];
 
 export type Budget = typeof budgets.$inferSelect;
 export type NewBudget = typeof budgets.$inferInsert;
 
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
+export type NotificationType = (typeof notificationTypeEnum.enumValues)[number];
+
 export type AIChat = typeof aiChats.$inferSelect;
 export type NewAIChat = typeof aiChats.$inferInsert;
\ No newline at end of file
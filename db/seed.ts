@@ -0,0 +1,429 @@
+import { randomUUID } from 'node:crypto';
+import { eq, inArray, like, sql } from 'drizzle-orm';
+import { TRANSACTION_CATEGORIES, type TransactionCategory } from '../lib/categories';
+import type { Money } from '../lib/money';
+import {
+  approveFamilyRequest,
+  createAccount,
+  createAllowanceSchedule,
+  createBudget,
+  createChore,
+  createFamilyInvite,
+  createTransaction,
+  createUser,
+  getUserAccounts,
+  joinFamilyWithInvite,
+  rollOverBudgets,
+  setAccountMember,
+  submitChore,
+  updateSpendingLimits,
+} from './actions';
+import { db } from './index';
+import { accounts, householdEvents, householdMembers, households, transactions, users, type NewTransaction } from './schema';
+
+// Fills a database with made-up families for development: guardians and children with
+// their accounts, months of everyday spending, allowances, chores, budgets, purchases
+// waiting for a guardian and requests to join a family. The same seed always produces
+// the same families, dated relative to today. Run with `npm run db:seed`.
+//
+// Households, limits, chores and anything still pending go through db/actions.ts, so
+// they're exactly what the app would have made. Past transactions are inserted directly,
+// since the actions can only record things happening now.
+
+export type SeedOptions = {
+  families: number;
+  months: number; // How far back transaction history goes
+  seed: number;
+  email?: string; // The first family's first guardian is the developer with this email, so they can sign in as them
+};
+
+// Seeded users get placeholder Clerk ids, except the developer named by `email`
+const SEED_CLERK_ID_PREFIX = 'seed_';
+
+const FIRST_NAMES = {
+  adult: ['Aarav', 'Priya', 'Rohan', 'Ananya', 'Vikram', 'Meera', 'Arjun', 'Kavya', 'Siddharth', 'Neha', 'Rahul', 'Divya', 'Karan', 'Pooja', 'Nikhil', 'Shreya'],
+  child: ['Ishaan', 'Diya', 'Vihaan', 'Saanvi', 'Aditya', 'Myra', 'Kabir', 'Anika', 'Reyansh', 'Tara', 'Dhruv', 'Kiara', 'Aryan', 'Ira'],
+};
+const LAST_NAMES = ['Sharma', 'Iyer', 'Patel', 'Reddy', 'Nair', 'Gupta', 'Menon', 'Das', 'Kapoor', 'Joshi', 'Rao', 'Singh', 'Chatterjee', 'Kulkarni'];
+
+// What each kind of user spends on in a typical month: where, how much (in rupees) and
+// roughly how often
+type SpendingProfile = Partial<Record<TransactionCategory, { places: string[]; min: number; max: number; perMonth: number }>>;
+
+const ADULT_SPENDING: SpendingProfile = {
+  food: { places: ['Swiggy', 'Zomato', 'BigBasket', 'Blinkit', 'Chai Point'], min: 120, max: 2400, perMonth: 12 },
+  transport: { places: ['Uber', 'Ola', 'Metro card recharge', 'Indian Oil'], min: 80, max: 2500, perMonth: 8 },
+  entertainment: { places: ['BookMyShow', 'Netflix', 'Spotify', 'PVR Cinemas'], min: 149, max: 1500, perMonth: 3 },
+  shopping: { places: ['Amazon', 'Flipkart', 'Myntra', 'DMart'], min: 300, max: 6000, perMonth: 4 },
+  education: { places: ['School fees', 'Crossword Books', 'Tuition'], min: 500, max: 12000, perMonth: 1 },
+  bills: { places: ['Electricity bill', 'Airtel Broadband', 'Jio recharge', 'Gas cylinder'], min: 299, max: 3500, perMonth: 4 },
+  health: { places: ['Apollo Pharmacy', 'Practo consultation', 'MedPlus'], min: 150, max: 2500, perMonth: 1 },
+  other: { places: ['Temple donation', 'Laundry', 'Salon'], min: 100, max: 1500, perMonth: 2 },
+};
+
+const CHILD_SPENDING: SpendingProfile = {
+  food: { places: ['School canteen', 'Ice cream', 'Domino\'s', 'Juice stall'], min: 20, max: 250, perMonth: 6 },
+  entertainment: { places: ['Game top-up', 'Arcade', 'Movie ticket'], min: 50, max: 300, perMonth: 2 },
+  shopping: { places: ['Stationery shop', 'Comic books', 'Stickers'], min: 30, max: 300, perMonth: 2 },
+  transport: { places: ['Auto rickshaw', 'Bus pass'], min: 20, max: 150, perMonth: 1 },
+};
+
+// Household spending out of a joint account
+const JOINT_SPENDING: SpendingProfile = {
+  food: { places: ['BigBasket', 'Reliance Fresh', 'Milk delivery'], min: 400, max: 4000, perMonth: 5 },
+  bills: { places: ['Electricity bill', 'Water bill', 'Society maintenance', 'House help'], min: 500, max: 6000, perMonth: 3 },
+};
+
+const CHORE_TITLES = ['Water the plants', 'Tidy your room', 'Help wash the car', 'Fold the laundry', 'Take out the recycling', 'Set the table for dinner'];
+const WISHLIST = ['Cricket bat', 'Art supplies', 'Headphones', 'Board game', 'Football boots'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// mulberry32: a small, fast PRNG, so a seed reproduces the same data everywhere
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  return {
+    int,
+    chance: (probability: number) => next() < probability,
+    pick: <T>(items: readonly T[]) => items[Math.floor(next() * items.length)],
+    // A whole-rupee amount in paise
+    rupees: (min: number, max: number): Money => int(min, max) * 100,
+    // Some time between 8am and 10pm on `day`
+    timeOn: (day: Date) => new Date(day.getFullYear(), day.getMonth(), day.getDate(), int(8, 21), int(0, 59), int(0, 59)),
+  };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+// Money movements in a family's history, applied in date order so no account goes below zero
+type Posting =
+  | { kind: 'deposit'; at: Date; userId: string; accountId: string; amount: Money; description: string }
+  | { kind: 'withdrawal'; at: Date; userId: string; accountId: string; amount: Money; description: string; category: TransactionCategory }
+  | { kind: 'transfer'; at: Date; userId: string; fromAccountId: string; toAccountId: string; recipient: string; amount: Money; description: string };
+
+const spendingPostings = (
+  random: Random,
+  profile: SpendingProfile,
+  spenders: string[],
+  accountId: string,
+  from: Date,
+  to: Date
+) => {
+  const postings: Posting[] = [];
+  const months = (to.getTime() - from.getTime()) / (30 * DAY_MS);
+  for (const category of TRANSACTION_CATEGORIES) {
+    const spending = profile[category];
+    if (!spending) continue;
+
+    const count = Math.round(spending.perMonth * months * (0.6 + random.int(0, 80) / 100));
+    for (let i = 0; i < count; i++) {
+      postings.push({
+        kind: 'withdrawal',
+        at: random.timeOn(new Date(from.getTime() + random.int(0, Math.floor((to.getTime() - from.getTime()) / DAY_MS)) * DAY_MS)),
+        userId: random.pick(spenders),
+        accountId,
+        amount: random.rupees(spending.min, spending.max),
+        description: random.pick(spending.places),
+        category,
+      });
+    }
+  }
+  return postings;
+};
+
+// Every `stepDays` (or on the 1st of each month, for a step of 0) from `from` until `to`
+const recurringDates = (from: Date, to: Date, stepDays: number) => {
+  const dates: Date[] = [];
+  let date = stepDays ? new Date(from) : new Date(from.getFullYear(), from.getMonth() + 1, 1);
+  while (date < to) {
+    dates.push(date);
+    date = stepDays ? new Date(date.getTime() + stepDays * DAY_MS) : new Date(date.getFullYear(), date.getMonth() + 1, 1);
+  }
+  return dates;
+};
+
+// The Clerk id of the developer signing in as `email`: theirs in this database if they've
+// signed in already, or else looked up in Clerk with CLERK_SECRET_KEY
+const findClerkId = async (email: string) => {
+  const [existing] = await db.select({ clerkId: users.clerkId })
+    .from(users)
+    .where(sql`lower(${users.email}) = lower(${email})`)
+    .orderBy(users.createdAt)
+    .limit(1);
+  if (existing) {
+    return existing.clerkId;
+  }
+
+  if (process.env.CLERK_SECRET_KEY) {
+    const { createClerkClient } = await import('@clerk/backend');
+    const clerk = createClerkClient({ secretKey: process.env.CLERK_SECRET_KEY });
+    const { data: [profile] } = await clerk.users.getUserList({ emailAddress: [email] });
+    if (profile) {
+      return profile.id;
+    }
+  }
+  throw new Error(`No Clerk user has the email ${email}; sign up in the app first, or set CLERK_SECRET_KEY`);
+};
+
+const fullName = (user: { firstName: string | null; lastName: string | null }) =>
+  [user.firstName, user.lastName].filter(Boolean).join(' ');
+
+export const seedDatabase = async (options: SeedOptions) => {
+  const [existing] = await db.select({ id: users.id })
+    .from(users)
+    .where(like(users.clerkId, `${SEED_CLERK_ID_PREFIX.replace('_', '\\_')}%`))
+    .limit(1);
+  if (existing) {
+    throw new Error('This database has already been seeded; seed a fresh one instead');
+  }
+
+  const developerClerkId = options.email ? await findClerkId(options.email) : undefined;
+  const random = createRandom(options.seed);
+  const now = new Date();
+  const historyStart = new Date(now.getFullYear(), now.getMonth() - options.months, now.getDate());
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  let userCount = 0;
+  const summary = { transactions: 0, pendingApprovals: 0, familyRequests: 0 };
+  // The developer's user is returned as it is if they've signed in already
+  const makeUser = async (kind: keyof typeof FIRST_NAMES, lastName: string, developer = false) => {
+    userCount++;
+    const firstName = random.pick(FIRST_NAMES[kind]);
+    const user = await createUser({
+      clerkId: developer ? developerClerkId! : `${SEED_CLERK_ID_PREFIX}${options.seed}_${userCount}`,
+      email: developer ? options.email! : `${firstName}.${lastName}.${userCount}@example.com`.toLowerCase(),
+      firstName,
+      lastName,
+    });
+    const [account] = await getUserAccounts(user.id);
+    return { user, account };
+  };
+
+  for (let family = 0; family < options.families; family++) {
+    const lastName = random.pick(LAST_NAMES);
+    const familyUsers: string[] = [];
+
+    // Guardians: one, or two with a shared household account
+    const guardian = await makeUser('adult', lastName, family === 0 && !!options.email);
+    const guardians = [guardian];
+    familyUsers.push(guardian.user.id);
+    if (random.chance(0.7)) {
+      const partner = await makeUser('adult', lastName);
+      const invite = await createFamilyInvite(guardian.user.id, 'guardian');
+      const request = await joinFamilyWithInvite(partner.user.id, invite.code);
+      await approveFamilyRequest(request.id, guardian.user.id);
+      guardians.push(partner);
+      familyUsers.push(partner.user.id);
+    }
+
+    const joint = guardians.length > 1
+      ? await createAccount({ userId: guardian.user.id, accountType: 'joint_family', accountName: `${lastName} Family Account` })
+      : null;
+    if (joint) {
+      await setAccountMember(joint.id, guardian.user.id, guardians[1].user.id, 'spend');
+    }
+
+    const children = [];
+    for (let i = random.int(1, 3); i > 0; i--) {
+      const child = await makeUser('child', lastName);
+      const invite = await createFamilyInvite(guardian.user.id);
+      const request = await joinFamilyWithInvite(child.user.id, invite.code, 'Hi, please add me!');
+      await approveFamilyRequest(request.id, guardian.user.id);
+      children.push({ ...child, allowance: random.rupees(1, 5) * 100 });
+      familyUsers.push(child.user.id);
+    }
+
+    // History: salaries, allowances and spending since `historyStart`, up to yesterday
+    const postings: Posting[] = [];
+    for (const { user, account } of guardians) {
+      const salary = random.rupees(40, 180) * 1000;
+      postings.push({ kind: 'deposit', at: historyStart, userId: user.id, accountId: account.id, amount: random.rupees(20, 100) * 1000, description: 'Opening balance' });
+      for (const payday of recurringDates(historyStart, today, 0)) {
+        postings.push({ kind: 'deposit', at: new Date(payday.getTime() + 9 * 60 * 60 * 1000), userId: user.id, accountId: account.id, amount: salary, description: 'Salary' });
+        if (joint) {
+          postings.push({
+            kind: 'transfer',
+            at: new Date(payday.getTime() + 10 * 60 * 60 * 1000),
+            userId: user.id,
+            fromAccountId: account.id,
+            toAccountId: joint.id,
+            recipient: fullName(guardian.user),
+            amount: Math.round(salary / 4 / 100_000) * 100_000,
+            description: 'Household budget',
+          });
+        }
+      }
+      postings.push(...spendingPostings(random, ADULT_SPENDING, [user.id], account.id, historyStart, today));
+    }
+    if (joint) {
+      postings.push(...spendingPostings(random, JOINT_SPENDING, guardians.map(({ user }) => user.id), joint.id, historyStart, today));
+    }
+
+    const allowanceStart = new Date(historyStart.getTime() + random.int(0, 6) * DAY_MS);
+    for (const child of children) {
+      for (const day of recurringDates(allowanceStart, today, 7)) {
+        postings.push({
+          kind: 'transfer',
+          at: new Date(day.getTime() + 8 * 60 * 60 * 1000),
+          userId: guardian.user.id,
+          fromAccountId: guardian.account.id,
+          toAccountId: child.account.id,
+          recipient: fullName(child.user),
+          amount: child.allowance,
+          description: 'Weekly allowance',
+        });
+      }
+      postings.push(...spendingPostings(random, CHILD_SPENDING, [child.user.id], child.account.id, allowanceStart, today));
+    }
+
+    // Who receives what's paid into each account
+    const owners = new Map<string, string>([
+      ...guardians.map(({ user, account }) => [account.id, user.id] as const),
+      ...children.map(({ user, account }) => [account.id, user.id] as const),
+      ...(joint ? [[joint.id, joint.userId] as const] : []),
+    ]);
+    const balances = new Map<string, Money>();
+    const rows: NewTransaction[] = [];
+    const spent: { userId: string; category: string; amount: Money; at: Date }[] = [];
+    for (const posting of postings.sort((a, b) => a.at.getTime() - b.at.getTime())) {
+      if (posting.kind === 'deposit') {
+        balances.set(posting.accountId, (balances.get(posting.accountId) ?? 0) + posting.amount);
+        rows.push({ userId: posting.userId, accountId: posting.accountId, type: 'deposit', amount: posting.amount, description: posting.description, createdAt: posting.at });
+        continue;
+      }
+
+      const fromAccountId = posting.kind === 'transfer' ? posting.fromAccountId : posting.accountId;
+      const available = balances.get(fromAccountId) ?? 0;
+      if (available < posting.amount) continue;
+      balances.set(fromAccountId, available - posting.amount);
+
+      if (posting.kind === 'withdrawal') {
+        rows.push({
+          userId: posting.userId,
+          accountId: posting.accountId,
+          type: 'withdrawal',
+          amount: posting.amount,
+          description: posting.description,
+          category: posting.category,
+          createdAt: posting.at,
+        });
+        spent.push({ userId: posting.userId, category: posting.category, amount: posting.amount, at: posting.at });
+        continue;
+      }
+
+      balances.set(posting.toAccountId, (balances.get(posting.toAccountId) ?? 0) + posting.amount);
+      const transferId = randomUUID();
+      const leg = { type: 'transfer' as const, amount: posting.amount, description: posting.description, transferId, createdAt: posting.at };
+      rows.push(
+        { ...leg, userId: posting.userId, accountId: fromAccountId, recipient: posting.recipient, transferDirection: 'debit', counterpartyAccountId: posting.toAccountId },
+        { ...leg, userId: owners.get(posting.toAccountId)!, accountId: posting.toAccountId, transferDirection: 'credit', counterpartyAccountId: fromAccountId }
+      );
+    }
+
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < rows.length; i += 500) {
+        await tx.insert(transactions).values(rows.slice(i, i + 500));
+      }
+      for (const [accountId, balance] of balances) {
+        await tx.update(accounts).set({ balance }).where(eq(accounts.id, accountId));
+      }
+
+      // The family has been around as long as its history
+      const age = sql`${now.getTime() - historyStart.getTime()} * interval '1 millisecond'`;
+      await tx.update(users).set({ createdAt: sql`${users.createdAt} - ${age}` }).where(inArray(users.id, familyUsers));
+      await tx.update(accounts).set({ createdAt: sql`${accounts.createdAt} - ${age}` }).where(inArray(accounts.userId, familyUsers));
+      await tx.update(householdMembers).set({ createdAt: sql`${householdMembers.createdAt} - ${age}` }).where(inArray(householdMembers.userId, familyUsers));
+      await tx.update(householdEvents).set({ createdAt: sql`${householdEvents.createdAt} - ${age}` }).where(inArray(householdEvents.userId, familyUsers));
+      await tx.update(households).set({ createdAt: sql`${households.createdAt} - ${age}` }).where(inArray(households.createdBy, familyUsers));
+    });
+    summary.transactions += rows.length;
+
+    // Monthly budgets from last month, for the categories each guardian spends most on,
+    // renewed for this month the way the app would
+    const startDate = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+    const endDate = new Date(now.getFullYear(), now.getMonth(), 1);
+    for (const { user } of guardians) {
+      for (const category of ['food', 'transport', 'shopping', 'entertainment'] as const) {
+        const total = spent
+          .filter((entry) => entry.userId === user.id && entry.category === category && entry.at >= startDate && entry.at < endDate)
+          .reduce((sum, entry) => sum + entry.amount, 0);
+        await createBudget({
+          userId: user.id,
+          category,
+          amount: Math.max(Math.round((total * (0.8 + random.int(0, 60) / 100)) / 50_000) * 50_000, 100_000),
+          startDate,
+          endDate,
+          recurring: true,
+          carryOver: random.chance(0.5),
+        });
+      }
+      await rollOverBudgets({ userId: user.id, now });
+    }
+
+    // Children's rules, allowances, chores and purchases waiting for a guardian
+    for (const child of children) {
+      const autoApproveThreshold = random.rupees(2, 4) * 100;
+      await updateSpendingLimits(guardian.user.id, child.user.id, {
+        dailyLimit: 100_000,
+        autoApproveThreshold,
+        blockedCategories: random.chance(0.3) ? ['entertainment'] : [],
+      });
+      await createAllowanceSchedule({
+        parentId: guardian.user.id,
+        childId: child.user.id,
+        sourceAccountId: guardian.account.id,
+        amount: child.allowance,
+        frequency: 'weekly',
+        startDate: allowanceStart,
+      });
+
+      const first = random.int(0, CHORE_TITLES.length - 1);
+      const open = CHORE_TITLES[first];
+      const done = CHORE_TITLES[(first + random.int(1, CHORE_TITLES.length - 1)) % CHORE_TITLES.length];
+      for (const title of [open, done]) {
+        const chore = await createChore({
+          parentId: guardian.user.id,
+          childId: child.user.id,
+          sourceAccountId: guardian.account.id,
+          title,
+          reward: random.rupees(2, 10) * 10,
+          dueDate: new Date(today.getTime() + random.int(1, 7) * DAY_MS),
+        });
+        if (title === done) {
+          await submitChore(chore.id, child.user.id);
+        }
+      }
+
+      const available = balances.get(child.account.id) ?? 0;
+      const amount = Math.min(random.rupees(4, 9) * 100, available);
+      if (amount > autoApproveThreshold) {
+        await createTransaction({
+          userId: child.user.id,
+          accountId: child.account.id,
+          type: 'withdrawal',
+          amount,
+          description: random.pick(WISHLIST),
+          category: 'shopping',
+        });
+        summary.pendingApprovals++;
+      }
+    }
+
+    // Now and then someone outside the family asks to join it
+    if (random.chance(0.5)) {
+      const cousin = await makeUser('child', random.pick(LAST_NAMES));
+      const invite = await createFamilyInvite(guardian.user.id);
+      await joinFamilyWithInvite(cousin.user.id, invite.code, `Hi, it's ${cousin.user.firstName}. Can I join the family account?`);
+      summary.familyRequests++;
+    }
+  }
+
+  return { users: userCount, ...summary };
+};
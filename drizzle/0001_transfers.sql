@@ -0,0 +1,6 @@
+CREATE TYPE "public"."transfer_direction" AS ENUM('debit', 'credit');--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "transfer_id" uuid;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "transfer_direction" "transfer_direction";--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "counterparty_account_id" uuid;--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_counterparty_account_id_accounts_id_fk" FOREIGN KEY ("counterparty_account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "transactions_transfer_id_idx" ON "transactions" USING btree ("transfer_id");
\ No newline at end of file
@@ -0,0 +1,9 @@
+-- Amounts move from rupee decimals to integer paise: 123.45 becomes 12345.
+ALTER TABLE "accounts" ALTER COLUMN "balance" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "accounts" ALTER COLUMN "balance" SET DATA TYPE bigint USING round("balance" * 100)::bigint;--> statement-breakpoint
+ALTER TABLE "accounts" ALTER COLUMN "balance" SET DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "budgets" ALTER COLUMN "amount" SET DATA TYPE bigint USING round("amount" * 100)::bigint;--> statement-breakpoint
+ALTER TABLE "budgets" ALTER COLUMN "spent" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "budgets" ALTER COLUMN "spent" SET DATA TYPE bigint USING round("spent" * 100)::bigint;--> statement-breakpoint
+ALTER TABLE "budgets" ALTER COLUMN "spent" SET DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "transactions" ALTER COLUMN "amount" SET DATA TYPE bigint USING round("amount" * 100)::bigint;
@@ -0,0 +1,7 @@
+CREATE TYPE "public"."transaction_status" AS ENUM('pending', 'completed', 'rejected', 'failed');--> statement-breakpoint
+-- Free-text statuses outside the enum can't be mapped to a lifecycle state
+UPDATE "transactions" SET "status" = 'failed' WHERE "status" NOT IN ('pending', 'completed', 'rejected', 'failed');--> statement-breakpoint
+ALTER TABLE "transactions" ALTER COLUMN "status" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "transactions" ALTER COLUMN "status" SET DATA TYPE "public"."transaction_status" USING "status"::"public"."transaction_status";--> statement-breakpoint
+ALTER TABLE "transactions" ALTER COLUMN "status" SET DEFAULT 'completed'::"public"."transaction_status";--> statement-breakpoint
+ALTER TABLE "accounts" ADD COLUMN "held_balance" bigint DEFAULT 0 NOT NULL;
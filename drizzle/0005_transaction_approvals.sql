@@ -0,0 +1,22 @@
+CREATE TYPE "public"."approval_decision" AS ENUM('approved', 'rejected');--> statement-breakpoint
+CREATE TABLE "transaction_approvals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"transaction_id" uuid NOT NULL,
+	"decider_id" uuid NOT NULL,
+	"decision" "approval_decision" NOT NULL,
+	"comment" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "transactions" DROP CONSTRAINT "transactions_approved_by_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "transaction_approvals" ADD CONSTRAINT "transaction_approvals_transaction_id_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transaction_approvals" ADD CONSTRAINT "transaction_approvals_decider_id_users_id_fk" FOREIGN KEY ("decider_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "transaction_approvals_transaction_id_idx" ON "transaction_approvals" USING btree ("transaction_id");--> statement-breakpoint
+-- Keep existing decisions as history before dropping the columns they lived in
+INSERT INTO "transaction_approvals" ("transaction_id", "decider_id", "decision", "created_at")
+SELECT "id", "approved_by", CASE WHEN "status" = 'rejected' THEN 'rejected'::"approval_decision" ELSE 'approved'::"approval_decision" END, coalesce("approved_at", "created_at")
+FROM "transactions"
+WHERE "approved_by" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "transactions" DROP COLUMN "approved_by";--> statement-breakpoint
+ALTER TABLE "transactions" DROP COLUMN "approved_at";
\ No newline at end of file
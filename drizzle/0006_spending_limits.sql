@@ -0,0 +1,17 @@
+CREATE TABLE "spending_limits" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"child_id" uuid NOT NULL,
+	"parent_id" uuid NOT NULL,
+	"daily_limit" bigint,
+	"weekly_limit" bigint,
+	"monthly_limit" bigint,
+	"per_transaction_limit" bigint,
+	"auto_approve_threshold" bigint,
+	"blocked_categories" text[] DEFAULT '{}'::text[] NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "spending_limits_child_id_unique" UNIQUE("child_id")
+);
+--> statement-breakpoint
+ALTER TABLE "spending_limits" ADD CONSTRAINT "spending_limits_child_id_users_id_fk" FOREIGN KEY ("child_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "spending_limits" ADD CONSTRAINT "spending_limits_parent_id_users_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
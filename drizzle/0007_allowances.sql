@@ -0,0 +1,32 @@
+CREATE TYPE "public"."allowance_frequency" AS ENUM('weekly', 'fortnightly', 'monthly');--> statement-breakpoint
+CREATE TYPE "public"."allowance_run_status" AS ENUM('paid', 'skipped', 'failed');--> statement-breakpoint
+CREATE TABLE "allowance_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"schedule_id" uuid NOT NULL,
+	"scheduled_for" timestamp NOT NULL,
+	"status" "allowance_run_status" NOT NULL,
+	"transfer_id" uuid,
+	"failure_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "allowance_schedules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"parent_id" uuid NOT NULL,
+	"child_id" uuid NOT NULL,
+	"source_account_id" uuid NOT NULL,
+	"amount" bigint NOT NULL,
+	"frequency" "allowance_frequency" NOT NULL,
+	"start_date" timestamp NOT NULL,
+	"next_run_at" timestamp NOT NULL,
+	"is_paused" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "allowance_runs" ADD CONSTRAINT "allowance_runs_schedule_id_allowance_schedules_id_fk" FOREIGN KEY ("schedule_id") REFERENCES "public"."allowance_schedules"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "allowance_schedules" ADD CONSTRAINT "allowance_schedules_parent_id_users_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "allowance_schedules" ADD CONSTRAINT "allowance_schedules_child_id_users_id_fk" FOREIGN KEY ("child_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "allowance_schedules" ADD CONSTRAINT "allowance_schedules_source_account_id_accounts_id_fk" FOREIGN KEY ("source_account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "allowance_runs_schedule_id_scheduled_for_idx" ON "allowance_runs" USING btree ("schedule_id","scheduled_for");--> statement-breakpoint
+CREATE INDEX "allowance_schedules_next_run_at_idx" ON "allowance_schedules" USING btree ("next_run_at");
\ No newline at end of file
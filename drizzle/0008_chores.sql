@@ -0,0 +1,24 @@
+CREATE TYPE "public"."chore_status" AS ENUM('open', 'submitted', 'approved', 'cancelled');--> statement-breakpoint
+CREATE TABLE "chores" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"parent_id" uuid NOT NULL,
+	"child_id" uuid NOT NULL,
+	"source_account_id" uuid NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"reward" bigint NOT NULL,
+	"due_date" timestamp NOT NULL,
+	"status" "chore_status" DEFAULT 'open' NOT NULL,
+	"submitted_at" timestamp,
+	"decided_at" timestamp,
+	"parent_comment" text,
+	"transfer_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chores" ADD CONSTRAINT "chores_parent_id_users_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chores" ADD CONSTRAINT "chores_child_id_users_id_fk" FOREIGN KEY ("child_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chores" ADD CONSTRAINT "chores_source_account_id_accounts_id_fk" FOREIGN KEY ("source_account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "chores_child_id_idx" ON "chores" USING btree ("child_id");--> statement-breakpoint
+CREATE INDEX "chores_parent_id_status_idx" ON "chores" USING btree ("parent_id","status");
\ No newline at end of file
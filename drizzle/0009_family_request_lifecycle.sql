@@ -0,0 +1,17 @@
+CREATE TYPE "public"."family_request_status" AS ENUM('pending', 'approved', 'rejected', 'cancelled', 'expired');--> statement-breakpoint
+UPDATE "family_requests" SET "status" = 'rejected' WHERE "status" NOT IN ('pending', 'approved', 'rejected', 'cancelled', 'expired');--> statement-breakpoint
+ALTER TABLE "family_requests" ALTER COLUMN "status" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "family_requests" ALTER COLUMN "status" SET DATA TYPE "public"."family_request_status" USING "status"::"public"."family_request_status";--> statement-breakpoint
+ALTER TABLE "family_requests" ALTER COLUMN "status" SET DEFAULT 'pending'::"public"."family_request_status";--> statement-breakpoint
+ALTER TABLE "family_requests" ADD COLUMN "expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "family_requests" ADD COLUMN "decided_at" timestamp;--> statement-breakpoint
+UPDATE "family_requests" SET "expires_at" = "created_at" + interval '7 days';--> statement-breakpoint
+UPDATE "family_requests" SET "decided_at" = "updated_at" WHERE "status" <> 'pending';--> statement-breakpoint
+ALTER TABLE "family_requests" ALTER COLUMN "expires_at" SET NOT NULL;--> statement-breakpoint
+UPDATE "family_requests" SET "status" = 'cancelled', "decided_at" = now(), "updated_at" = now()
+WHERE "status" = 'pending' AND "id" NOT IN (
+	SELECT DISTINCT ON ("child_id", "parent_id") "id" FROM "family_requests"
+	WHERE "status" = 'pending'
+	ORDER BY "child_id", "parent_id", "created_at" DESC
+);--> statement-breakpoint
+CREATE UNIQUE INDEX "family_requests_pending_pair_idx" ON "family_requests" USING btree ("child_id","parent_id") WHERE "family_requests"."status" = 'pending';
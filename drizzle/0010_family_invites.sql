@@ -0,0 +1,12 @@
+CREATE TABLE "family_invites" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"parent_id" uuid NOT NULL,
+	"code" text DEFAULT upper(substr(gen_random_uuid()::text, 1, 8)) NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "family_invites_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "family_invites" ADD CONSTRAINT "family_invites_parent_id_users_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "family_invites_parent_id_idx" ON "family_invites" USING btree ("parent_id");
\ No newline at end of file
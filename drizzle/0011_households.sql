@@ -0,0 +1,38 @@
+CREATE TYPE "public"."household_role" AS ENUM('guardian', 'member', 'child');--> statement-breakpoint
+CREATE TABLE "household_members" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"household_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"role" "household_role" NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "household_members_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "households" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "family_invites" ADD COLUMN "role" "household_role" DEFAULT 'child' NOT NULL;--> statement-breakpoint
+ALTER TABLE "household_members" ADD CONSTRAINT "household_members_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "household_members" ADD CONSTRAINT "household_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "households" ADD CONSTRAINT "households_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "household_members_household_id_idx" ON "household_members" USING btree ("household_id");--> statement-breakpoint
+-- One household per existing parent, with the parent as its guardian and their linked
+-- children as its children
+INSERT INTO "households" ("name", "created_by")
+SELECT coalesce("first_name" || '''s family', 'Family'), "id" FROM "users" "parent"
+WHERE "parent"."role" = 'parent' OR EXISTS (SELECT 1 FROM "users" "child" WHERE "child"."parent_id" = "parent"."id");--> statement-breakpoint
+INSERT INTO "household_members" ("household_id", "user_id", "role")
+SELECT "id", "created_by", 'guardian' FROM "households";--> statement-breakpoint
+INSERT INTO "household_members" ("household_id", "user_id", "role")
+SELECT "households"."id", "users"."id", 'child' FROM "users"
+INNER JOIN "households" ON "households"."created_by" = "users"."parent_id"
+ON CONFLICT ("user_id") DO NOTHING;--> statement-breakpoint
+ALTER TABLE "users" DROP CONSTRAINT "users_parent_id_users_id_fk";--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN "role";--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN "parent_id";--> statement-breakpoint
+DROP TYPE "public"."user_role";
\ No newline at end of file
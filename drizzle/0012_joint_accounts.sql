@@ -0,0 +1,16 @@
+CREATE TYPE "public"."account_permission" AS ENUM('view', 'spend', 'spend_with_approval');--> statement-breakpoint
+CREATE TABLE "account_members" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"account_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"permission" "account_permission" DEFAULT 'view' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "account_members" ADD CONSTRAINT "account_members_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "account_members" ADD CONSTRAINT "account_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "account_members_account_id_user_id_idx" ON "account_members" USING btree ("account_id","user_id");--> statement-breakpoint
+CREATE INDEX "account_members_user_id_idx" ON "account_members" USING btree ("user_id");--> statement-breakpoint
+-- Existing joint accounts were only usable by their owner; keep it that way
+INSERT INTO "account_members" ("account_id", "user_id", "permission")
+SELECT "id", "user_id", 'spend' FROM "accounts" WHERE "account_type" = 'joint_family';
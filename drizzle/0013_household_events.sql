@@ -0,0 +1,20 @@
+CREATE TYPE "public"."household_event_type" AS ENUM('joined', 'leave_requested', 'leave_cancelled', 'leave_declined', 'unlinked', 'graduated');--> statement-breakpoint
+CREATE TABLE "household_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"household_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"actor_id" uuid NOT NULL,
+	"type" "household_event_type" NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "household_members" ADD COLUMN "leave_requested_at" timestamp;--> statement-breakpoint
+ALTER TABLE "household_events" ADD CONSTRAINT "household_events_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "household_events" ADD CONSTRAINT "household_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "household_events" ADD CONSTRAINT "household_events_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "household_events_household_id_idx" ON "household_events" USING btree ("household_id");--> statement-breakpoint
+CREATE INDEX "household_events_user_id_idx" ON "household_events" USING btree ("user_id");--> statement-breakpoint
+-- Start the trail with everyone already in a household
+INSERT INTO "household_events" ("household_id", "user_id", "actor_id", "type", "created_at")
+SELECT "household_id", "user_id", "user_id", 'joined', "created_at" FROM "household_members";
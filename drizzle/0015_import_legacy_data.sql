@@ -0,0 +1,64 @@
+-- Imports the data of a database set up before these migrations existed (integer user
+-- ids, text transaction ids, amounts in rupees). scripts/migrate.ts moves its tables into
+-- the "legacy" schema before running the migrations; they stay there afterwards as an
+-- archive, including anything that couldn't be carried over. A no-op for any other database.
+DO $$
+BEGIN
+	IF to_regclass('legacy.users') IS NULL THEN
+		RETURN;
+	END IF;
+
+	-- Legacy users have no Clerk id yet; they're matched up by email the first time they
+	-- sign in (see insertUser in db/actions.ts)
+	ALTER TABLE legacy.users ADD COLUMN imported_id uuid NOT NULL DEFAULT gen_random_uuid();
+	ALTER TABLE legacy.users ADD COLUMN imported_account_id uuid NOT NULL DEFAULT gen_random_uuid();
+	INSERT INTO users (id, clerk_id, email, first_name, last_name)
+	SELECT
+		imported_id,
+		'legacy_' || id,
+		email,
+		coalesce(first_name, nullif(split_part(name, ' ', 1), '')),
+		coalesce(last_name, nullif(substr(name, length(split_part(name, ' ', 1)) + 2), ''))
+	FROM legacy.users;
+
+	-- Each user's money lands in a main account, at the balance the old ledger last recorded
+	INSERT INTO accounts (id, user_id, account_name, balance)
+	SELECT
+		u.imported_account_id,
+		u.imported_id,
+		'Main Account',
+		coalesce((
+			SELECT round(t.balance_after * 100)::bigint
+			FROM legacy.transactions t
+			WHERE t.user_id = u.id::text
+			ORDER BY t.created_at DESC
+			LIMIT 1
+		), 0)
+	FROM legacy.users u;
+
+	ALTER TABLE legacy.payment_methods ADD COLUMN imported_id uuid NOT NULL DEFAULT gen_random_uuid();
+	INSERT INTO payment_methods (id, user_id, type, provider, last_four, is_default, created_at)
+	SELECT pm.imported_id, u.imported_id, pm.type, pm.brand, pm.last4, coalesce(pm.is_default, false), pm.created_at
+	FROM legacy.payment_methods pm
+	JOIN legacy.users u ON pm.user_id = u.id::text;
+
+	-- Old transfers have no counterparty to pair with, so they come across as the deposit or
+	-- withdrawal they were for this user
+	INSERT INTO transactions (user_id, account_id, payment_method_id, type, amount, description, status, created_at)
+	SELECT
+		u.imported_id,
+		u.imported_account_id,
+		pm.imported_id,
+		CASE
+			WHEN t.type = 'deposit' OR (t.type = 'transfer' AND t.amount > 0) THEN 'deposit'::transaction_type
+			ELSE 'withdrawal'::transaction_type
+		END,
+		round(abs(t.amount) * 100)::bigint,
+		coalesce(t.description, CASE WHEN t.type = 'transfer' THEN 'Transfer' END),
+		'completed',
+		t.created_at
+	FROM legacy.transactions t
+	JOIN legacy.users u ON t.user_id = u.id::text
+	LEFT JOIN legacy.payment_methods pm ON pm.id = t.payment_method_id
+	WHERE t.type IN ('deposit', 'withdrawal', 'transfer') AND t.amount <> 0;
+END $$;
@@ -0,0 +1,7 @@
+ALTER TABLE "budgets" ADD COLUMN "recurring" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "budgets" ADD COLUMN "carry_over" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "budgets" ADD COLUMN "carried_over" bigint DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "budgets" ADD COLUMN "previous_budget_id" uuid;--> statement-breakpoint
+ALTER TABLE "budgets" ADD COLUMN "renewed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "budgets" ADD CONSTRAINT "budgets_previous_budget_id_budgets_id_fk" FOREIGN KEY ("previous_budget_id") REFERENCES "public"."budgets"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "budgets" ADD CONSTRAINT "budgets_previous_budget_id_unique" UNIQUE("previous_budget_id");
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TYPE "public"."notification_type" AS ENUM('budget_half_spent', 'budget_nearly_spent', 'budget_overspent', 'family_request', 'approval_needed', 'approval_decided', 'allowance_paid');--> statement-breakpoint
+CREATE TABLE "notifications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"type" "notification_type" NOT NULL,
+	"title" text NOT NULL,
+	"body" text NOT NULL,
+	"href" text,
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "budgets" ADD COLUMN "notified_percent" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "muted_notifications" "notification_type"[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "notifications_user_id_created_at_idx" ON "notifications" USING btree ("user_id","created_at");--> statement-breakpoint
+-- Existing budgets count as already alerted for what they've spent, so the first
+-- transaction after this migration doesn't set off alerts for old spending
+UPDATE "budgets" SET "notified_percent" = CASE
+	WHEN "spent" = 0 THEN 0
+	WHEN "spent" >= "amount" + "carried_over" THEN 100
+	WHEN "spent" * 5 >= ("amount" + "carried_over") * 4 THEN 80
+	WHEN "spent" * 2 >= "amount" + "carried_over" THEN 50
+	ELSE 0
+END;
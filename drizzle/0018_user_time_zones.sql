@@ -0,0 +1 @@
+ALTER TABLE "users" ADD COLUMN "time_zone" text DEFAULT 'Asia/Kolkata' NOT NULL;
\ No newline at end of file
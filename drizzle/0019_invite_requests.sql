@@ -0,0 +1,11 @@
+CREATE TABLE "invite_code_failures" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "family_invites" ALTER COLUMN "code" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "family_requests" ADD COLUMN "role" "household_role" DEFAULT 'child' NOT NULL;--> statement-breakpoint
+ALTER TABLE "invite_code_failures" ADD CONSTRAINT "invite_code_failures_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "invite_code_failures_user_id_created_at_idx" ON "invite_code_failures" USING btree ("user_id","created_at");--> statement-breakpoint
+UPDATE "family_invites" SET "revoked_at" = now() WHERE "revoked_at" IS NULL;
@@ -1,3 +0,0 @@
-import { relations } from "drizzle-orm/relations";
-import {  } from "./schema";
-
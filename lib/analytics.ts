@@ -0,0 +1,62 @@
+import { fromWallClock, wallClock } from './dates';
+
+// The stretches of time the analytics screen can show, each ending today. Days, months
+// and years are the user's own, in the time zone their device is set to.
+export const ANALYTICS_RANGES = ['month', 'quarter', 'year'] as const;
+
+export type AnalyticsRange = (typeof ANALYTICS_RANGES)[number];
+
+export const ANALYTICS_RANGE_LABELS: Record<AnalyticsRange, string> = {
+  month: 'This month',
+  quarter: 'Last 3 months',
+  year: 'This year',
+};
+
+export function isAnalyticsRange(value: unknown): value is AnalyticsRange {
+  return ANALYTICS_RANGES.includes(value as AnalyticsRange);
+}
+
+// Midnight in `timeZone` on the first day of the range: the first of this month or of the
+// month two months back, or January 1st
+export function analyticsRangeStart(range: AnalyticsRange, now: Date, timeZone = 'UTC'): Date {
+  const today = wallClock(now, timeZone);
+  const first = range === 'year'
+    ? Date.UTC(today.getUTCFullYear(), 0, 1)
+    : Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - (range === 'quarter' ? 2 : 0), 1);
+  return fromWallClock(new Date(first), timeZone);
+}
+
+// "2026-10" for each month in `timeZone` from `start` up to and including the one `end`
+// falls in
+export function monthKeys(start: Date, end: Date, timeZone = 'UTC'): string[] {
+  const from = wallClock(start, timeZone);
+  const last = wallClock(end, timeZone);
+  const first = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), 1));
+  const keys = [];
+  for (let month = first; month <= last; month.setUTCMonth(month.getUTCMonth() + 1)) {
+    keys.push(month.toISOString().slice(0, 7));
+  }
+  return keys;
+}
+
+// "2026-10-19" for each day in `timeZone` from `start` up to and including the one `end`
+// falls in
+export function dayKeys(start: Date, end: Date, timeZone = 'UTC'): string[] {
+  const from = wallClock(start, timeZone);
+  const last = wallClock(end, timeZone);
+  const first = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+  const keys = [];
+  for (let day = first; day <= last; day.setUTCDate(day.getUTCDate() + 1)) {
+    keys.push(day.toISOString().slice(0, 10));
+  }
+  return keys;
+}
+
+// "Oct" for "2026-10", or "Oct 2026" when asked for the year too
+export function formatMonthKey(key: string, withYear = false): string {
+  return new Date(`${key}-01T00:00:00Z`).toLocaleDateString(undefined, {
+    month: 'short',
+    year: withYear ? 'numeric' : undefined,
+    timeZone: 'UTC',
+  });
+}
@@ -0,0 +1,45 @@
+import { getClerkInstance } from '@clerk/clerk-expo';
+import { ActionError, type ActionErrorCode } from '@/db/errors';
+import { parseJson } from '@/lib/json';
+import type { ProcedureName, Procedures } from '@/server/procedures';
+
+// Where the API routes are served from. Empty on web, where they share the app's origin.
+const API_URL = process.env.EXPO_PUBLIC_API_URL ?? '';
+
+// The procedure's input, without the caller the server fills in from the session
+type ProcedureInput<Name extends ProcedureName> = Parameters<Procedures[Name]> extends [unknown, ...infer Input]
+  ? Input
+  : never;
+
+type ApiClient = {
+  [Name in ProcedureName]: (...input: ProcedureInput<Name>) => ReturnType<Procedures[Name]>;
+};
+
+const callProcedure = async (name: string, input: unknown) => {
+  const token = await getClerkInstance().session?.getToken();
+  const response = await fetch(`${API_URL}/api/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(input ?? null),
+  });
+
+  const body = parseJson(await response.text());
+  if (!response.ok) {
+    // Expected failures come back as ActionErrors, so screens can keep showing their message
+    const { error } = (body ?? {}) as { error?: { code: ActionErrorCode | 'internal_error'; message: string } };
+    if (error?.code && error.code !== 'internal_error') {
+      throw new ActionError(error.code, error.message);
+    }
+    throw new Error(`${name} failed with status ${response.status}`);
+  }
+  return body;
+};
+
+// Typed client for the API routes: `api.createTransfer({ ... })` runs the createTransfer
+// procedure in server/procedures.ts as the signed-in user
+export const api = new Proxy({} as ApiClient, {
+  get: (_, name: string) => (input?: unknown) => callProcedure(name, input),
+});
@@ -0,0 +1,55 @@
+import { deviceTimeZone, fromWallClock, wallClock } from './dates';
+import { addMoney, type Money } from './money';
+
+// How long a budget runs. `budgets.period` is free text, so older rows may hold other values.
+export const BUDGET_PERIODS = ['weekly', 'monthly', 'yearly'] as const;
+
+export type BudgetPeriod = (typeof BUDGET_PERIODS)[number];
+
+// "week", for "this week" or "every week"
+export const BUDGET_PERIOD_NAMES: Record<BudgetPeriod, string> = { weekly: 'week', monthly: 'month', yearly: 'year' };
+
+export function isBudgetPeriod(value: unknown): value is BudgetPeriod {
+  return BUDGET_PERIODS.includes(value as BudgetPeriod);
+}
+
+// Local midnight at the start of the period containing `date`; weeks start on Monday
+export function budgetPeriodStart(date: Date, period: BudgetPeriod): Date {
+  if (period === 'yearly') {
+    return new Date(date.getFullYear(), 0, 1);
+  }
+  if (period === 'monthly') {
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+}
+
+// Where a period beginning at `start` ends: the start of the next one, at the same time of
+// day on a clock in `timeZone`. Budgets count spending up to, but not including, this
+// moment. A month or year later lands on `day` (the start's day of the month unless
+// given), or the last day of a shorter month: a budget from 31 January runs to 28 or 29
+// February, and one from 29 February 2028 to 28 February 2029.
+export function budgetPeriodEnd(start: Date, period: BudgetPeriod, timeZone = deviceTimeZone(), day?: number): Date {
+  const from = wallClock(start, timeZone);
+  const end = new Date(from);
+  if (period === 'weekly') {
+    end.setUTCDate(from.getUTCDate() + 7);
+  } else {
+    const month = from.getUTCMonth() + (period === 'yearly' ? 12 : 1);
+    const lastDay = new Date(Date.UTC(from.getUTCFullYear(), month + 1, 0)).getUTCDate();
+    end.setUTCFullYear(from.getUTCFullYear(), month, Math.min(day ?? from.getUTCDate(), lastDay));
+  }
+  return fromWallClock(end, timeZone);
+}
+
+// What a budget allows for its period: its amount plus whatever an earlier period carried
+// over, which is negative when that period overspent
+export function budgetAvailable(budget: { amount: Money; carriedOver: Money }): Money {
+  return addMoney(budget.amount, budget.carriedOver);
+}
+
+// "1/10/2026 – 31/10/2026": the first and last day a budget covers
+export function formatBudgetDates(startDate: Date, endDate: Date): string {
+  const lastDay = new Date(new Date(endDate).getTime() - 1);
+  return `${new Date(startDate).toLocaleDateString()} – ${lastDay.toLocaleDateString()}`;
+}
@@ -0,0 +1,18 @@
+// Spending categories offered in the UI. `transactions.category` is free text, so
+// older rows may hold values outside this list.
+export const TRANSACTION_CATEGORIES = [
+  'food',
+  'transport',
+  'entertainment',
+  'shopping',
+  'education',
+  'bills',
+  'health',
+  'other',
+] as const;
+
+export type TransactionCategory = (typeof TRANSACTION_CATEGORIES)[number];
+
+export function isTransactionCategory(value: unknown): value is TransactionCategory {
+  return TRANSACTION_CATEGORIES.includes(value as TransactionCategory);
+}
@@ -0,0 +1,63 @@
+const DATE_INPUT_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Local calendar date as "YYYY-MM-DD", for date text inputs
+export function toDateInput(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Parses "YYYY-MM-DD" as local midnight. Returns null for anything else, including
+// dates that don't exist such as 2025-02-30.
+export function parseDateInput(input: string): Date | null {
+  const match = DATE_INPUT_PATTERN.exec(input.trim());
+  if (!match) return null;
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return toDateInput(date) === input.trim() ? date : null;
+}
+
+// The IANA time zone this device is set to, like "Asia/Kolkata"
+export function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Whether `value` is a time zone name, like "Asia/Kolkata", that Intl knows
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || value === '') {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The date and time on a clock in `timeZone` at `date`, as a UTC timestamp: the day,
+// month and time of day there can be read off with getUTCDate() and the like
+export function wallClock(date: Date, timeZone: string): Date {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(date).map(({ type, value }) => [type, Number(value)])
+  );
+  return new Date(Date.UTC(
+    parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, date.getUTCMilliseconds()
+  ));
+}
+
+// The moment a clock in `timeZone` shows `time`, given as wallClock() returns it
+export function fromWallClock(time: Date, timeZone: string): Date {
+  const guess = new Date(time.getTime() - (wallClock(time, timeZone).getTime() - time.getTime()));
+  // Correct once more in case the offset changes (for daylight saving) in between
+  return new Date(guess.getTime() - (wallClock(guess, timeZone).getTime() - time.getTime()));
+}
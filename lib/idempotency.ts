@@ -0,0 +1,29 @@
+import * as React from 'react';
+
+function createIdempotencyKey() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+// Hands out one idempotency key per distinct request: retrying the same request after
+// a timeout reuses its key (so the server replays it instead of posting it twice),
+// while a request with different details gets a fresh key.
+export function useIdempotencyKey() {
+  const pending = React.useRef<{ request: string; key: string } | null>(null);
+
+  return React.useMemo(
+    () => ({
+      keyFor(request: unknown) {
+        const serialized = JSON.stringify(request);
+        if (pending.current?.request !== serialized) {
+          pending.current = { request: serialized, key: createIdempotencyKey() };
+        }
+        return pending.current.key;
+      },
+      // Call once the server has given a definite answer (success or a rejection)
+      settle() {
+        pending.current = null;
+      },
+    }),
+    []
+  );
+}
@@ -0,0 +1,28 @@
+// Family invites travel as a deep link, FimPay://join?code=ABCD2345WXYZ, either tapped
+// directly or scanned from the QR code the parent shows. The code alone also works,
+// for typing in by hand, so its alphabet leaves out 0/O and 1/I.
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 12;
+const INVITE_LINK_PATTERN = /^fimpay:\/\/join\/?\?(?:.*&)?code=([a-hj-np-z2-9]{12})(?:&.*)?$/i;
+const INVITE_CODE_PATTERN = /^[a-hj-np-z2-9]{12}$/i;
+
+// A fresh random code: 12 characters from a 32-letter alphabet is 60 bits, drawn from
+// the platform's cryptographic random source
+export function generateInviteCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(INVITE_CODE_LENGTH));
+  // 256 is a multiple of the alphabet's 32 letters, so every letter is equally likely
+  return Array.from(bytes, (byte) => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length]).join('');
+}
+
+export function familyInviteLink(code: string): string {
+  return `FimPay://join?code=${code}`;
+}
+
+// Pulls the invite code out of a scanned QR payload, link or typed code. Returns null
+// for anything else.
+export function parseFamilyInvite(input: string): string | null {
+  const trimmed = input.trim();
+  const match = INVITE_LINK_PATTERN.exec(trimmed);
+  if (match) return match[1].toUpperCase();
+  return INVITE_CODE_PATTERN.test(trimmed) ? trimmed.toUpperCase() : null;
+}
@@ -0,0 +1,13 @@
+// Timestamps as written by Date#toJSON
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d{1,3})?Z$/;
+
+// JSON.parse that turns timestamps back into Dates, so rows and inputs passed between
+// the app and its API routes keep the types db/schema.ts gives them
+export function parseJson(text: string): unknown {
+  if (!text) {
+    return null;
+  }
+  return JSON.parse(text, (_, value) =>
+    typeof value === 'string' && ISO_TIMESTAMP.test(value) ? new Date(value) : value
+  );
+}
@@ -0,0 +1,61 @@
+// Money is an integer number of paise (₹1 = 100 paise). Amounts are stored, summed and
+// compared as paise everywhere; they only become rupee strings at the UI edge, via
+// `parseMoney` on the way in and `formatMoney` on the way out.
+export type Money = number;
+
+export const ZERO: Money = 0;
+
+const MONEY_PATTERN = /^(-)?(\d+)(?:\.(\d{1,2}))?$/;
+
+export function isMoney(value: unknown): value is Money {
+  return typeof value === 'number' && Number.isSafeInteger(value);
+}
+
+// Parses user input such as "1,250.5" or "₹99" into paise. Returns null for anything
+// that isn't a plain rupee amount with at most two decimal places.
+export function parseMoney(input: string): Money | null {
+  const match = MONEY_PATTERN.exec(input.trim().replace(/^₹/, '').replace(/,/g, ''));
+  if (!match) return null;
+
+  const [, sign, rupees, paise = ''] = match;
+  const amount = Number(rupees) * 100 + Number(paise.padEnd(2, '0'));
+  if (!Number.isSafeInteger(amount)) return null;
+  return sign ? -amount : amount;
+}
+
+export function addMoney(...amounts: Money[]): Money {
+  return amounts.reduce((sum, amount) => sum + amount, ZERO);
+}
+
+export function subtractMoney(amount: Money, other: Money): Money {
+  return amount - other;
+}
+
+export function compareMoney(amount: Money, other: Money): -1 | 0 | 1 {
+  return amount < other ? -1 : amount > other ? 1 : 0;
+}
+
+// Plain decimal rupees ("1234.50"), for text inputs and anything machine-read
+export function toRupeeString(amount: Money): string {
+  const abs = Math.abs(amount);
+  const rupees = Math.floor(abs / 100);
+  const paise = String(abs % 100).padStart(2, '0');
+  return `${amount < 0 ? '-' : ''}${rupees}.${paise}`;
+}
+
+// Whether a transaction brought money into its account: a deposit, or the receiving
+// side of a transfer. Lists show these in green with a "+".
+export function isCredit(transaction: { type: string; transferDirection?: string | null }): boolean {
+  return transaction.type === 'deposit' || transaction.transferDirection === 'credit';
+}
+
+// Display format with Indian digit grouping: 12345678 → "₹1,23,456.78"
+export function formatMoney(amount: Money, options: { signed?: boolean } = {}): string {
+  const [rupees, paise] = toRupeeString(Math.abs(amount)).split('.');
+  const lastThree = rupees.slice(-3);
+  const rest = rupees.slice(0, -3);
+  const grouped = rest ? `${rest.replace(/\B(?=(\d{2})+(?!\d))/g, ',')},${lastThree}` : lastThree;
+
+  const sign = amount < 0 ? '-' : options.signed && amount > 0 ? '+' : '';
+  return `${sign}₹${grouped}.${paise}`;
+}
@@ -0,0 +1,41 @@
+import { db } from '@/db';
+import { findDatabaseDrift, findUnmigratedChanges } from '@/db/drift';
+
+// Fails when db/schema.ts, the migrations in drizzle/ and the database at DATABASE_URL
+// don't agree. Run with `npm run db:check`, in CI and before deploying.
+
+const main = async () => {
+  let ok = true;
+
+  const unmigrated = await findUnmigratedChanges();
+  if (unmigrated.length > 0) {
+    ok = false;
+    console.error('db/schema.ts has changes with no migration (run `npx drizzle-kit generate`):');
+    unmigrated.forEach((statement) => console.error(`  ${statement}`));
+  }
+
+  const drift = await findDatabaseDrift(db);
+  if (drift.pendingMigrations > 0) {
+    ok = false;
+    console.error(`The database is ${drift.pendingMigrations} migration(s) behind (run \`npm run db:migrate\`)`);
+  }
+  if (drift.missing.length > 0 || drift.unexpected.length > 0) {
+    ok = false;
+    console.error('The database schema differs from the migrations:');
+    drift.missing.forEach((line) => console.error(`  - ${line}`));
+    drift.unexpected.forEach((line) => console.error(`  + ${line}`));
+  }
+
+  if (ok) {
+    console.log('Schema is in sync');
+  }
+  return ok;
+};
+
+main().then(
+  (ok) => process.exit(ok ? 0 : 1),
+  (error) => {
+    console.error('Schema check failed:', error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,23 @@
+import { databaseDriver, db } from '@/db';
+import { migrateDatabase } from '@/db/driver';
+import { isLegacyDatabase, moveLegacyTables } from '@/db/legacy';
+
+// Brings the database up to date with the migrations in drizzle/. Run with `npm run db:migrate`.
+// A database set up before those migrations existed is upgraded in place, see db/legacy.ts.
+
+const main = async () => {
+  if (await isLegacyDatabase(db)) {
+    const moved = await moveLegacyTables(db);
+    console.log(`Moved ${moved} legacy tables into the "legacy" schema`);
+  }
+  await migrateDatabase(databaseDriver, db);
+  console.log('Database is up to date');
+};
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,18 @@
+import { recomputeBudgetSpent } from '@/db/actions';
+
+// Recomputes what every budget has spent from the transactions in the database at
+// DATABASE_URL. Run with `npm run db:recompute-budgets` after importing or fixing data
+// outside the app.
+
+const main = async () => {
+  const count = await recomputeBudgetSpent();
+  console.log(`Recomputed ${count} budgets`);
+};
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('Recomputing budgets failed:', error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,44 @@
+import { seedDatabase } from '@/db/seed';
+import { parseArgs } from 'node:util';
+
+// Fills the database at DATABASE_URL with made-up families, see db/seed.ts. Run with
+// `npm run db:seed -- --families 10 --months 12 --seed 7 --email you@example.com`; the
+// migrations must have been applied first.
+
+const { values } = parseArgs({
+  options: {
+    families: { type: 'string', default: '5' },
+    months: { type: 'string', default: '6' },
+    seed: { type: 'string', default: '1' },
+    email: { type: 'string' },
+  },
+});
+
+const count = (name: keyof typeof values) => {
+  const value = Number(values[name]);
+  if (!Number.isSafeInteger(value) || value < 1) {
+    throw new Error(`--${name} must be a whole number above zero`);
+  }
+  return value;
+};
+
+const main = async () => {
+  const summary = await seedDatabase({
+    families: count('families'),
+    months: count('months'),
+    seed: count('seed'),
+    email: values.email,
+  });
+  console.log(
+    `Seeded ${summary.users} users, ${summary.transactions} transactions, `
+    + `${summary.pendingApprovals} pending approvals and ${summary.familyRequests} family requests`
+  );
+};
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('Seeding failed:', error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,37 @@
+import { createClerkClient, verifyToken, type User as ClerkUser } from '@clerk/backend';
+import { createUser, getUserByClerkId } from '@/db/actions';
+import { ActionError } from '@/db/errors';
+
+const clerk = createClerkClient({ secretKey: process.env.CLERK_SECRET_KEY });
+
+const profileFromClerk = (profile: ClerkUser) => ({
+  clerkId: profile.id,
+  email: profile.primaryEmailAddress?.emailAddress ?? '',
+  firstName: profile.firstName ?? undefined,
+  lastName: profile.lastName ?? undefined,
+  profileImageUrl: profile.imageUrl,
+});
+
+// The FimPay user behind a request, from the Clerk session token in its Authorization
+// header. Users are normally created by the Clerk webhook (app/api/webhooks/clerk+api.ts);
+// one whose first request beats the webhook is created here from their Clerk profile.
+export const authenticate = async (request: Request) => {
+  const token = request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) {
+    throw new ActionError('not_authenticated', 'Sign in to continue');
+  }
+
+  let clerkId: string;
+  try {
+    ({ sub: clerkId } = await verifyToken(token, { secretKey: process.env.CLERK_SECRET_KEY }));
+  } catch {
+    throw new ActionError('not_authenticated', 'Your session has expired, please sign in again');
+  }
+
+  const user = (await getUserByClerkId(clerkId))
+    ?? (await createUser(profileFromClerk(await clerk.users.getUser(clerkId))));
+  if (user.deletedAt) {
+    throw new ActionError('not_authenticated', 'This account has been deleted');
+  }
+  return user;
+};
@@ -0,0 +1,115 @@
+import { ActionError } from '@/db/errors';
+import { isTimeZone } from '@/lib/dates';
+import { isMoney, type Money } from '@/lib/money';
+
+// Checks for the inputs procedures take from request bodies. Each check returns the value
+// it was given, typed, or throws an invalid_input ActionError naming the field that's
+// wrong, so a malformed request gets a 400 instead of reaching the actions.
+
+export type Check<T> = (value: unknown, field: string) => T;
+
+export type Checked<C> = C extends Check<infer T> ? T : never;
+
+type Shape = Record<string, Check<unknown>>;
+
+// Fields whose check accepts undefined can be left out
+type ObjectOf<S extends Shape> = {
+  [K in keyof S as undefined extends Checked<S[K]> ? never : K]: Checked<S[K]>;
+} & {
+  [K in keyof S as undefined extends Checked<S[K]> ? K : never]?: Checked<S[K]>;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const invalid = (field: string, expected: string) =>
+  new ActionError('invalid_input', `${field} must be ${expected}`);
+
+export const string: Check<string> = (value, field) => {
+  if (typeof value !== 'string') {
+    throw invalid(field, 'text');
+  }
+  return value;
+};
+
+// A row id. Postgres rejects a malformed uuid with an error of its own, so it's caught here.
+export const id: Check<string> = (value, field) => {
+  if (typeof value !== 'string' || !UUID_PATTERN.test(value)) {
+    throw invalid(field, 'an id');
+  }
+  return value;
+};
+
+export const boolean: Check<boolean> = (value, field) => {
+  if (typeof value !== 'boolean') {
+    throw invalid(field, 'true or false');
+  }
+  return value;
+};
+
+// Checks that it's a whole number of paise; whether the amount makes sense (greater than
+// zero, say) is up to the action
+export const money: Check<Money> = (value, field) => {
+  if (!isMoney(value)) {
+    throw invalid(field, 'a whole number of paise');
+  }
+  return value;
+};
+
+// A page size and the like
+export const count: Check<number> = (value, field) => {
+  if (typeof value !== 'number' || !Number.isSafeInteger(value) || value <= 0) {
+    throw invalid(field, 'a whole number greater than zero');
+  }
+  return value;
+};
+
+// Timestamps arrive as Dates, revived by parseJson
+export const date: Check<Date> = (value, field) => {
+  if (!(value instanceof Date) || Number.isNaN(value.getTime())) {
+    throw invalid(field, 'a date');
+  }
+  return value;
+};
+
+// An IANA time zone name, like "Asia/Kolkata"
+export const timeZone: Check<string> = (value, field) => {
+  if (!isTimeZone(value)) {
+    throw invalid(field, 'a time zone');
+  }
+  return value;
+};
+
+export const oneOf = <T extends string>(values: readonly T[]): Check<T> => (value, field) => {
+  if (!values.includes(value as T)) {
+    throw invalid(field, `one of ${values.join(', ')}`);
+  }
+  return value as T;
+};
+
+// Missing (or null, as the API client sends no input) becomes undefined
+export const optional = <T>(check: Check<T>): Check<T | undefined> => (value, field) =>
+  value === undefined || value === null ? undefined : check(value, field);
+
+// For fields that can be cleared; use optional(nullable(...)) if it can also be left out
+export const nullable = <T>(check: Check<T>): Check<T | null> => (value, field) =>
+  value === null ? null : check(value, field);
+
+export const arrayOf = <T>(check: Check<T>): Check<T[]> => (value, field) => {
+  if (!Array.isArray(value)) {
+    throw invalid(field, 'a list');
+  }
+  return value.map((item, index) => check(item, `${field}[${index}]`));
+};
+
+// Only the fields in `shape` are kept; anything else in the request is dropped
+export const object = <S extends Shape>(shape: S): Check<ObjectOf<S>> => (value, field) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalid(field, 'an object');
+  }
+  const fields = value as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.entries(shape)
+      .map(([key, check]) => [key, check(fields[key], field === 'input' ? key : `${field}.${key}`)])
+      .filter(([, checked]) => checked !== undefined)
+  ) as ObjectOf<S>;
+};
@@ -0,0 +1,422 @@
+import { db } from '@/db';
+import * as actions from '@/db/actions';
+import { ActionError } from '@/db/errors';
+import {
+  accountPermissionEnum,
+  allowanceFrequencyEnum,
+  householdRoleEnum,
+  notificationTypeEnum,
+  type User,
+} from '@/db/schema';
+import { ANALYTICS_RANGES } from '@/lib/analytics';
+import { BUDGET_PERIODS } from '@/lib/budgets';
+import { TRANSACTION_CATEGORIES } from '@/lib/categories';
+import {
+  arrayOf,
+  boolean,
+  count,
+  date,
+  id,
+  money,
+  nullable,
+  object,
+  oneOf,
+  optional,
+  string,
+  timeZone,
+  type Check,
+  type Checked,
+} from './input';
+
+// Everything the app can ask the API routes to do. Each procedure runs as `caller`, the
+// signed-in user, and takes only the fields it needs from `input`: ids that say who is
+// acting always come from the session, never from the request. Input comes straight
+// from the request body, so each procedure that takes any checks it first.
+
+// A procedure whose input must pass `check` before `run` sees it
+const withInput = <C extends Check<unknown>, R>(check: C, run: (caller: User, input: Checked<C>) => Promise<R>) =>
+  async (caller: User, ...[input]: undefined extends Checked<C> ? [input?: Checked<C>] : [input: Checked<C>]) =>
+    run(caller, check(input, 'input') as Checked<C>);
+
+const category = oneOf(TRANSACTION_CATEGORIES);
+
+// Reads about a child are for the child themselves and their guardians
+const checkSelfOrGuardian = async (caller: User, childId: string) => {
+  if (caller.id !== childId && !(await actions.isGuardianOf(db, caller.id, childId))) {
+    throw new ActionError('not_authorized', "Only this child's guardians can see this");
+  }
+};
+
+const checkGuardian = async (caller: User, childId: string) => {
+  if (!(await actions.isGuardianOf(db, caller.id, childId))) {
+    throw new ActionError('not_authorized', "Only this child's guardians can see this");
+  }
+};
+
+export const procedures = {
+  // User
+  getMe: async (caller: User) => caller,
+
+  updateTimeZone: withInput(object({ timeZone }), async (caller, input) =>
+    actions.updateTimeZone(caller.id, input.timeZone)
+  ),
+
+  getDashboardData: async (caller: User) => actions.getUserDashboardData(caller.id),
+
+  // Accounts
+  createJointAccount: withInput(object({ accountName: string }), async (caller, input) =>
+    actions.createAccount({ userId: caller.id, accountType: 'joint_family', accountName: input.accountName })
+  ),
+
+  setAccountMember: withInput(
+    object({ accountId: id, memberId: id, permission: oneOf(accountPermissionEnum.enumValues) }),
+    async (caller, input) => actions.setAccountMember(input.accountId, caller.id, input.memberId, input.permission)
+  ),
+
+  removeAccountMember: withInput(object({ accountId: id, memberId: id }), async (caller, input) =>
+    actions.removeAccountMember(input.accountId, caller.id, input.memberId)
+  ),
+
+  getAccountMembers: withInput(object({ accountId: id }), async (caller, input) =>
+    actions.getAccountMembers(input.accountId, caller.id)
+  ),
+
+  getAccountTransactions: withInput(object({ accountId: id, limit: optional(count) }), async (caller, input) =>
+    actions.getAccountTransactions(input.accountId, caller.id, input.limit)
+  ),
+
+  // Transactions
+  createTransaction: withInput(
+    object({
+      accountId: id,
+      type: oneOf(['deposit', 'withdrawal'] as const),
+      amount: money,
+      description: optional(string),
+      category: optional(category),
+      idempotencyKey: optional(string),
+    }),
+    async (caller, input) =>
+      actions.createTransaction({
+        userId: caller.id,
+        accountId: input.accountId,
+        type: input.type,
+        amount: input.amount,
+        description: input.description,
+        category: input.category,
+        idempotencyKey: input.idempotencyKey,
+      })
+  ),
+
+  // To one of the caller's own accounts, or another user's by email
+  createTransfer: withInput(
+    object({
+      fromAccountId: id,
+      toAccountId: optional(id),
+      toEmail: optional(string),
+      amount: money,
+      description: optional(string),
+      category: optional(category),
+      idempotencyKey: optional(string),
+    }),
+    async (caller, input) =>
+      actions.createTransfer({
+        userId: caller.id,
+        fromAccountId: input.fromAccountId,
+        toAccountId: input.toAccountId,
+        toEmail: input.toEmail,
+        amount: input.amount,
+        description: input.description,
+        category: input.category,
+        idempotencyKey: input.idempotencyKey,
+      })
+  ),
+
+  approveTransaction: withInput(object({ transactionId: id, comment: optional(string) }), async (caller, input) =>
+    actions.approveTransaction(input.transactionId, caller.id, input.comment)
+  ),
+
+  rejectTransaction: withInput(object({ transactionId: id, comment: optional(string) }), async (caller, input) =>
+    actions.rejectTransaction(input.transactionId, caller.id, input.comment)
+  ),
+
+  updateTransactionCategory: withInput(
+    object({ transactionId: id, category: nullable(category) }),
+    async (caller, input) => actions.updateTransactionCategory(input.transactionId, caller.id, input.category)
+  ),
+
+  // Spending limits
+  getSpendingLimits: withInput(object({ childId: id }), async (caller, input) => {
+    await checkSelfOrGuardian(caller, input.childId);
+    return (await actions.getSpendingLimits(input.childId)) ?? null;
+  }),
+
+  updateSpendingLimits: withInput(
+    object({
+      childId: id,
+      limits: object({
+        dailyLimit: optional(nullable(money)),
+        weeklyLimit: optional(nullable(money)),
+        monthlyLimit: optional(nullable(money)),
+        perTransactionLimit: optional(nullable(money)),
+        autoApproveThreshold: optional(nullable(money)),
+        blockedCategories: optional(arrayOf(category)),
+      }),
+    }),
+    async (caller, input) => {
+      const { dailyLimit, weeklyLimit, monthlyLimit, perTransactionLimit, autoApproveThreshold, blockedCategories } =
+        input.limits;
+      return actions.updateSpendingLimits(caller.id, input.childId, {
+        dailyLimit,
+        weeklyLimit,
+        monthlyLimit,
+        perTransactionLimit,
+        autoApproveThreshold,
+        blockedCategories,
+      });
+    }
+  ),
+
+  // Allowances
+  createAllowanceSchedule: withInput(
+    object({
+      childId: id,
+      sourceAccountId: id,
+      amount: money,
+      frequency: oneOf(allowanceFrequencyEnum.enumValues),
+      startDate: date,
+    }),
+    async (caller, input) =>
+      actions.createAllowanceSchedule({
+        parentId: caller.id,
+        childId: input.childId,
+        sourceAccountId: input.sourceAccountId,
+        amount: input.amount,
+        frequency: input.frequency,
+        startDate: input.startDate,
+      })
+  ),
+
+  updateAllowanceSchedule: withInput(
+    object({
+      scheduleId: id,
+      changes: object({
+        sourceAccountId: optional(id),
+        amount: optional(money),
+        frequency: optional(oneOf(allowanceFrequencyEnum.enumValues)),
+        startDate: optional(date),
+      }),
+    }),
+    async (caller, input) => {
+      const { sourceAccountId, amount, frequency, startDate } = input.changes;
+      return actions.updateAllowanceSchedule(input.scheduleId, caller.id, { sourceAccountId, amount, frequency, startDate });
+    }
+  ),
+
+  setAllowancePaused: withInput(object({ scheduleId: id, paused: boolean }), async (caller, input) =>
+    actions.setAllowancePaused(input.scheduleId, caller.id, input.paused)
+  ),
+
+  skipNextAllowance: withInput(object({ scheduleId: id }), async (caller, input) =>
+    actions.skipNextAllowance(input.scheduleId, caller.id)
+  ),
+
+  getAllowanceSchedules: withInput(object({ childId: id }), async (caller, input) => {
+    await checkSelfOrGuardian(caller, input.childId);
+    return actions.getAllowanceSchedules(input.childId);
+  }),
+
+  // Chores
+  createChore: withInput(
+    object({
+      childId: id,
+      sourceAccountId: id,
+      title: string,
+      description: optional(string),
+      reward: money,
+      dueDate: date,
+    }),
+    async (caller, input) =>
+      actions.createChore({
+        parentId: caller.id,
+        childId: input.childId,
+        sourceAccountId: input.sourceAccountId,
+        title: input.title,
+        description: input.description,
+        reward: input.reward,
+        dueDate: input.dueDate,
+      })
+  ),
+
+  submitChore: withInput(object({ choreId: id }), async (caller, input) => actions.submitChore(input.choreId, caller.id)),
+
+  approveChore: withInput(object({ choreId: id, comment: optional(string) }), async (caller, input) =>
+    actions.approveChore(input.choreId, caller.id, input.comment)
+  ),
+
+  rejectChore: withInput(object({ choreId: id, comment: optional(string) }), async (caller, input) =>
+    actions.rejectChore(input.choreId, caller.id, input.comment)
+  ),
+
+  cancelChore: withInput(object({ choreId: id }), async (caller, input) => actions.cancelChore(input.choreId, caller.id)),
+
+  getMyChores: async (caller: User) => actions.getChoresForChild(caller.id),
+
+  getOutstandingChores: withInput(object({ childId: id }), async (caller, input) => {
+    await checkGuardian(caller, input.childId);
+    return actions.getOutstandingChores(input.childId);
+  }),
+
+  // Households
+  getHousehold: async (caller: User) => actions.getHousehold(caller.id),
+
+  getChildren: async (caller: User) => actions.getUserChildren(caller.id),
+
+  getHouseholdEvents: withInput(optional(object({ limit: optional(count) })), async (caller, input) =>
+    actions.getHouseholdEvents(caller.id, input?.limit)
+  ),
+
+  requestLeaveHousehold: withInput(optional(object({ note: optional(string) })), async (caller, input) =>
+    actions.requestLeaveHousehold(caller.id, input?.note)
+  ),
+
+  cancelLeaveHousehold: async (caller: User) => actions.cancelLeaveHousehold(caller.id),
+
+  declineLeaveHousehold: withInput(object({ childId: id, note: optional(string) }), async (caller, input) =>
+    actions.declineLeaveHousehold(caller.id, input.childId, input.note)
+  ),
+
+  unlinkChild: withInput(object({ childId: id, note: optional(string) }), async (caller, input) =>
+    actions.unlinkChild(caller.id, input.childId, input.note)
+  ),
+
+  graduateChild: withInput(object({ childId: id, note: optional(string) }), async (caller, input) =>
+    actions.graduateChild(caller.id, input.childId, input.note)
+  ),
+
+  // Family requests and invites
+  getFamilyRequests: async (caller: User) => actions.getFamilyRequests(caller.id),
+
+  getSentFamilyRequests: async (caller: User) => actions.getSentFamilyRequests(caller.id),
+
+  approveFamilyRequest: withInput(object({ requestId: id }), async (caller, input) =>
+    actions.approveFamilyRequest(input.requestId, caller.id)
+  ),
+
+  rejectFamilyRequest: withInput(object({ requestId: id }), async (caller, input) =>
+    actions.rejectFamilyRequest(input.requestId, caller.id)
+  ),
+
+  cancelFamilyRequest: withInput(object({ requestId: id }), async (caller, input) =>
+    actions.cancelFamilyRequest(input.requestId, caller.id)
+  ),
+
+  createFamilyInvite: withInput(
+    optional(object({ role: optional(oneOf(householdRoleEnum.enumValues)) })),
+    async (caller, input) => actions.createFamilyInvite(caller.id, input?.role)
+  ),
+
+  getActiveFamilyInvite: withInput(
+    optional(object({ role: optional(oneOf(householdRoleEnum.enumValues)) })),
+    async (caller, input) => (await actions.getActiveFamilyInvite(caller.id, input?.role)) ?? null
+  ),
+
+  getFamilyInvite: withInput(object({ code: string }), async (caller, input) =>
+    (await actions.getFamilyInvite(caller.id, input.code)) ?? null
+  ),
+
+  joinFamilyWithInvite: withInput(object({ code: string, message: optional(string) }), async (caller, input) =>
+    actions.joinFamilyWithInvite(caller.id, input.code, input.message)
+  ),
+
+  // Budgets
+  getBudgets: async (caller: User) => actions.getUserBudgets(caller.id),
+
+  createBudget: withInput(
+    object({
+      category,
+      amount: money,
+      period: optional(oneOf(BUDGET_PERIODS)),
+      startDate: date,
+      endDate: date,
+      recurring: optional(boolean),
+      carryOver: optional(boolean),
+    }),
+    async (caller, input) =>
+      actions.createBudget({
+        userId: caller.id,
+        category: input.category,
+        amount: input.amount,
+        period: input.period,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        recurring: input.recurring,
+        carryOver: input.carryOver,
+      })
+  ),
+
+  getBudget: withInput(object({ budgetId: id }), async (caller, input) => actions.getBudget(input.budgetId, caller.id)),
+
+  updateBudget: withInput(
+    object({
+      budgetId: id,
+      changes: object({
+        category: optional(category),
+        amount: optional(money),
+        period: optional(oneOf(BUDGET_PERIODS)),
+        startDate: optional(date),
+        endDate: optional(date),
+        recurring: optional(boolean),
+        carryOver: optional(boolean),
+      }),
+    }),
+    async (caller, input) => {
+      const { category, amount, period, startDate, endDate, recurring, carryOver } = input.changes;
+      return actions.updateBudget(input.budgetId, caller.id, {
+        category,
+        amount,
+        period,
+        startDate,
+        endDate,
+        recurring,
+        carryOver,
+      });
+    }
+  ),
+
+  deleteBudget: withInput(object({ budgetId: id }), async (caller, input) => actions.deleteBudget(input.budgetId, caller.id)),
+
+  // Notifications
+  getNotifications: withInput(optional(object({ limit: optional(count) })), async (caller, input) =>
+    actions.getNotifications(caller.id, input?.limit)
+  ),
+
+  getUnreadNotificationCount: async (caller: User) => actions.getUnreadNotificationCount(caller.id),
+
+  markNotificationsRead: withInput(
+    optional(object({ notificationIds: optional(arrayOf(id)) })),
+    async (caller, input) => actions.markNotificationsRead(caller.id, input?.notificationIds)
+  ),
+
+  setMutedNotifications: withInput(
+    object({ muted: arrayOf(oneOf(notificationTypeEnum.enumValues)) }),
+    async (caller, input) => actions.setMutedNotifications(caller.id, input.muted)
+  ),
+
+  // Analytics
+  getSpendingAnalytics: withInput(
+    object({ range: oneOf(ANALYTICS_RANGES), timeZone: optional(timeZone) }),
+    async (caller, input) => actions.getSpendingAnalytics(caller.id, input.range, input.timeZone ?? caller.timeZone)
+  ),
+
+  // AI chats
+  getAIChats: withInput(optional(object({ limit: optional(count) })), async (caller, input) =>
+    actions.getUserAIChats(caller.id, input?.limit)
+  ),
+
+  saveAIChat: withInput(object({ message: string, response: string }), async (caller, input) =>
+    actions.saveAIChat({ userId: caller.id, message: input.message, response: input.response })
+  ),
+};
+
+export type Procedures = typeof procedures;
+export type ProcedureName = keyof Procedures;
@@ -0,0 +1,247 @@
+import { POST as runScheduledAllowances } from '@/app/api/cron/allowances+api';
+import { allowanceRuns, allowanceSchedules, db } from '@/db';
+import {
+  approveChore,
+  approveFamilyRequest,
+  cancelChore,
+  createAccount,
+  createAllowanceSchedule,
+  createChore,
+  createFamilyInvite,
+  getAllowanceSchedules,
+  getChoresForChild,
+  joinFamilyWithInvite,
+  rejectChore,
+  runDueAllowances,
+  setAccountMember,
+  setAllowancePaused,
+  submitChore,
+  updateTimeZone,
+} from '@/db/actions';
+import { wallClock } from '@/lib/dates';
+import { asc, eq } from 'drizzle-orm';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { balanceOf, expectActionError, linkChild, mainAccount, makeFundedUser, makeUser } from './helpers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const makeFamily = async (guardianFunds: number) => {
+  const { user: guardian, account: source } = await makeFundedUser(guardianFunds, 'Guardian');
+  const child = await makeUser('Child');
+  await linkChild(guardian.id, child.id);
+  return { guardian, source, child, childAccount: await mainAccount(child.id) };
+};
+
+describe('allowances', () => {
+  it('pay the child when they come due, once', async () => {
+    const { guardian, source, child, childAccount } = await makeFamily(10_000);
+    const startDate = new Date(Date.now() + DAY_MS);
+    await createAllowanceSchedule({
+      parentId: guardian.id,
+      childId: child.id,
+      sourceAccountId: source.id,
+      amount: 500,
+      frequency: 'weekly',
+      startDate,
+    });
+
+    expect(await runDueAllowances({ userId: child.id })).toHaveLength(0);
+    const dueAt = new Date(startDate.getTime() + 60 * 60 * 1000);
+    const runs = await runDueAllowances({ userId: child.id, now: dueAt });
+    expect(runs.map((run) => run.status)).toEqual(['paid']);
+    expect(await runDueAllowances({ userId: child.id, now: dueAt })).toHaveLength(0);
+
+    expect((await balanceOf(childAccount.id, child.id)).balance).toBe(500);
+    expect((await balanceOf(source.id, guardian.id)).balance).toBe(9_500);
+  });
+
+  it('record a failed run and move on when the guardian is short', async () => {
+    const { guardian, source, child } = await makeFamily(100);
+    const startDate = new Date(Date.now() + DAY_MS);
+    const schedule = await createAllowanceSchedule({
+      parentId: guardian.id,
+      childId: child.id,
+      sourceAccountId: source.id,
+      amount: 500,
+      frequency: 'weekly',
+      startDate,
+    });
+
+    const [run] = await runDueAllowances({ userId: child.id, now: new Date(startDate.getTime() + 1000) });
+    expect(run).toMatchObject({ status: 'failed', failureReason: 'Insufficient balance' });
+
+    const [{ schedule: saved }] = await getAllowanceSchedules(child.id);
+    expect(saved.nextRunAt.getTime()).toBeGreaterThan(schedule.nextRunAt.getTime());
+  });
+
+  it("don't pay while paused, and only a guardian manages them", async () => {
+    const { guardian, source, child } = await makeFamily(10_000);
+    const startDate = new Date(Date.now() + DAY_MS);
+    const schedule = await createAllowanceSchedule({
+      parentId: guardian.id,
+      childId: child.id,
+      sourceAccountId: source.id,
+      amount: 500,
+      frequency: 'weekly',
+      startDate,
+    });
+
+    await expectActionError(setAllowancePaused(schedule.id, child.id, true), 'not_authorized');
+    await setAllowancePaused(schedule.id, guardian.id, true);
+    expect(await runDueAllowances({ userId: child.id, now: new Date(startDate.getTime() + 1000) })).toHaveLength(0);
+  });
+
+  it('pause when the payer can no longer spend from the source account', async () => {
+    const { guardian, child, childAccount } = await makeFamily(100);
+    const partner = await makeUser('Partner');
+    const request = await joinFamilyWithInvite(partner.id, (await createFamilyInvite(guardian.id, 'guardian')).code);
+    await approveFamilyRequest(request.id, guardian.id);
+
+    const joint = await createAccount({ userId: guardian.id, accountType: 'joint_family', accountName: 'Family', balance: 10_000 });
+    await setAccountMember(joint.id, guardian.id, partner.id, 'spend');
+    const startDate = new Date(Date.now() + DAY_MS);
+    await createAllowanceSchedule({
+      parentId: partner.id,
+      childId: child.id,
+      sourceAccountId: joint.id,
+      amount: 500,
+      frequency: 'weekly',
+      startDate,
+    });
+    await setAccountMember(joint.id, guardian.id, partner.id, 'view');
+
+    const [run] = await runDueAllowances({ userId: child.id, now: new Date(startDate.getTime() + 1000) });
+    expect(run).toMatchObject({ status: 'failed', failureReason: 'You can only view this account' });
+    expect((await getAllowanceSchedules(child.id))[0].schedule.isPaused).toBe(true);
+    expect((await balanceOf(childAccount.id, child.id)).balance).toBe(0);
+    expect((await balanceOf(joint.id, guardian.id)).balance).toBe(10_000);
+  });
+});
+
+describe('the allowance schedule route', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const call = (authorization?: string) => runScheduledAllowances(new Request('http://localhost/api/cron/allowances', {
+    method: 'POST',
+    headers: authorization ? { authorization } : {},
+  }));
+
+  it('pays allowances that have come due without anyone opening the app', async () => {
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+    const { guardian, source, child, childAccount } = await makeFamily(10_000);
+    const schedule = await createAllowanceSchedule({
+      parentId: guardian.id,
+      childId: child.id,
+      sourceAccountId: source.id,
+      amount: 700,
+      frequency: 'weekly',
+      startDate: new Date(Date.now() + DAY_MS),
+    });
+    // As if the start date passed while nobody was using the app
+    await db.update(allowanceSchedules)
+      .set({ nextRunAt: new Date(Date.now() - 1000) })
+      .where(eq(allowanceSchedules.id, schedule.id));
+
+    const response = await call('Bearer cron-secret');
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).paid).toBeGreaterThanOrEqual(1);
+    expect((await balanceOf(childAccount.id, child.id)).balance).toBe(700);
+  });
+
+  it("pays on the day and at the time the allowance started where the payer lives", async () => {
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+    const { guardian, source, child } = await makeFamily(100_000);
+    await updateTimeZone(guardian.id, 'Asia/Kolkata');
+    // Midnight on 1 October in India; tests run in UTC, where it's still 30 September
+    const startDate = new Date('2025-09-30T18:30:00Z');
+    const schedule = await createAllowanceSchedule({
+      parentId: guardian.id,
+      childId: child.id,
+      sourceAccountId: source.id,
+      amount: 100,
+      frequency: 'monthly',
+      startDate,
+    });
+    await db.update(allowanceSchedules).set({ nextRunAt: startDate }).where(eq(allowanceSchedules.id, schedule.id));
+
+    expect((await call('Bearer cron-secret')).status).toBe(200);
+
+    const runs = await db.select().from(allowanceRuns)
+      .where(eq(allowanceRuns.scheduleId, schedule.id))
+      .orderBy(asc(allowanceRuns.scheduledFor));
+    expect(runs.slice(0, 3).map(({ scheduledFor }) => scheduledFor.toISOString())).toEqual([
+      '2025-09-30T18:30:00.000Z',
+      '2025-10-31T18:30:00.000Z',
+      '2025-11-30T18:30:00.000Z',
+    ]);
+    const [{ nextRunAt }] = await db.select().from(allowanceSchedules).where(eq(allowanceSchedules.id, schedule.id));
+    for (const date of [...runs.map(({ scheduledFor }) => scheduledFor), nextRunAt]) {
+      expect(wallClock(date, 'Asia/Kolkata').toISOString()).toMatch(/-01T00:00:00.000Z$/);
+    }
+  });
+
+  it('refuses callers without the secret', async () => {
+    expect((await call('Bearer cron-secret')).status).toBe(401);
+
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+    expect((await call()).status).toBe(401);
+    expect((await call('Bearer wrong-secret')).status).toBe(401);
+  });
+});
+
+describe('chores', () => {
+  const makeChore = async (guardianFunds: number, reward = 300) => {
+    const family = await makeFamily(guardianFunds);
+    const chore = await createChore({
+      parentId: family.guardian.id,
+      childId: family.child.id,
+      sourceAccountId: family.source.id,
+      title: 'Wash the car',
+      reward,
+      dueDate: new Date(Date.now() + DAY_MS),
+    });
+    return { ...family, chore };
+  };
+
+  it('pay the reward once the guardian approves the work', async () => {
+    const { guardian, source, child, childAccount, chore } = await makeChore(1_000);
+
+    await submitChore(chore.id, child.id);
+    const approved = await approveChore(chore.id, guardian.id, 'Spotless');
+
+    expect(approved.status).toBe('approved');
+    expect((await balanceOf(childAccount.id, child.id)).balance).toBe(300);
+    expect((await balanceOf(source.id, guardian.id)).balance).toBe(700);
+  });
+
+  it('go back to the child when rejected', async () => {
+    const { guardian, child, chore } = await makeChore(1_000);
+
+    await submitChore(chore.id, child.id);
+    await rejectChore(chore.id, guardian.id, 'Missed a spot');
+
+    const [saved] = await getChoresForChild(child.id);
+    expect(saved.status).toBe('open');
+  });
+
+  it("can't be paid before they're done or after they're cancelled", async () => {
+    const { guardian, child, chore } = await makeChore(1_000);
+
+    await expectActionError(approveChore(chore.id, guardian.id), 'invalid_status_transition');
+    await cancelChore(chore.id, guardian.id);
+    await expectActionError(submitChore(chore.id, child.id), 'invalid_status_transition');
+  });
+
+  it('leave the chore submitted when the guardian is short', async () => {
+    const { guardian, child, childAccount, chore } = await makeChore(100);
+
+    await submitChore(chore.id, child.id);
+    await expectActionError(approveChore(chore.id, guardian.id), 'insufficient_funds');
+
+    expect((await getChoresForChild(child.id))[0].status).toBe('submitted');
+    expect((await balanceOf(childAccount.id, child.id)).balance).toBe(0);
+  });
+});
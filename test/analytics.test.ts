@@ -0,0 +1,109 @@
+import { db, transactions } from '@/db';
+import { createAccount, createTransaction, createTransfer, getSpendingAnalytics } from '@/db/actions';
+import { analyticsRangeStart } from '@/lib/analytics';
+import { eq } from 'drizzle-orm';
+import { describe, expect, it } from 'vitest';
+import { expectActionError, mainAccount, makeFundedUser, makeUser } from './helpers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Someone who has been paid, bought food this month and 40 days ago, paid a bill and
+// moved money into their own savings
+const makeSpender = async () => {
+  const { user, account } = await makeFundedUser(50_000);
+  const payee = await makeUser('Payee');
+  const savings = await createAccount({ userId: user.id, accountName: 'Savings' });
+
+  await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 1_000, category: 'food' });
+  const earlier = await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 2_000, category: 'food' });
+  await db.update(transactions).set({ createdAt: new Date(Date.now() - 40 * DAY_MS) }).where(eq(transactions.id, earlier.id));
+  await createTransfer({
+    userId: user.id,
+    fromAccountId: account.id,
+    toAccountId: (await mainAccount(payee.id)).id,
+    amount: 3_000,
+    category: 'bills',
+  });
+  await createTransfer({ userId: user.id, fromAccountId: account.id, toAccountId: savings.id, amount: 5_000 });
+  return user;
+};
+
+describe('spending analytics', () => {
+  it('sums this month by category, month, recipient and day', async () => {
+    const user = await makeSpender();
+
+    const analytics = await getSpendingAnalytics(user.id, 'month');
+
+    expect(analytics).toMatchObject({ income: 50_000, spending: 4_000 });
+    expect(analytics.byCategory).toEqual([
+      { category: 'bills', total: 3_000 },
+      { category: 'food', total: 1_000 },
+    ]);
+    expect(analytics.monthly).toEqual([
+      { month: new Date().toISOString().slice(0, 7), income: 50_000, spending: 4_000 },
+    ]);
+    expect(analytics.topRecipients).toEqual([{ recipient: 'Payee', total: 3_000, count: 1 }]);
+    expect(analytics.daily).toHaveLength(new Date().getUTCDate());
+    expect(analytics.daily[analytics.daily.length - 1]).toEqual({ day: new Date().toISOString().slice(0, 10), spending: 4_000 });
+  });
+
+  it('fills in the months of a longer range', async () => {
+    const user = await makeSpender();
+
+    const analytics = await getSpendingAnalytics(user.id, 'quarter');
+
+    expect(analytics.spending).toBe(6_000);
+    expect(analytics.byCategory).toContainEqual({ category: 'food', total: 3_000 });
+    const spentIn = (date: Date) =>
+      analytics.monthly.find(({ month }) => month === date.toISOString().slice(0, 7))?.spending;
+    expect(spentIn(new Date())).toBe(4_000);
+    expect(spentIn(new Date(Date.now() - 40 * DAY_MS))).toBe(2_000);
+    expect(analytics.monthly).toHaveLength(3);
+  });
+
+  it("leaves out other users' transactions and unknown ranges", async () => {
+    await makeSpender();
+    const bystander = await makeUser();
+
+    const analytics = await getSpendingAnalytics(bystander.id, 'year');
+
+    expect(analytics).toMatchObject({ income: 0, spending: 0, byCategory: [], topRecipients: [] });
+    // The calendar year so far
+    expect(analytics.monthly).toHaveLength(new Date().getUTCMonth() + 1);
+    await expectActionError(getSpendingAnalytics(bystander.id, 'decade' as never), 'invalid_analytics_range');
+    await expectActionError(getSpendingAnalytics(bystander.id, 'month', 'Mars/Olympus'), 'invalid_analytics_range');
+  });
+
+  it("counts days and months in the user's time zone", async () => {
+    const { user, account } = await makeFundedUser(10_000);
+    // 1:30 on April 1st in India, still March 31st in UTC
+    const spent = await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 700 });
+    await db.update(transactions).set({ createdAt: new Date('2026-03-31T20:00:00Z') }).where(eq(transactions.id, spent.id));
+    const now = new Date('2026-04-10T12:00:00Z');
+
+    const inIndia = await getSpendingAnalytics(user.id, 'month', 'Asia/Kolkata', now);
+    expect(inIndia.start).toEqual(new Date('2026-03-31T18:30:00Z'));
+    expect(inIndia.spending).toBe(700);
+    expect(inIndia.monthly).toEqual([{ month: '2026-04', income: 0, spending: 700 }]);
+    expect(inIndia.daily).toHaveLength(10);
+    expect(inIndia.daily[0]).toEqual({ day: '2026-04-01', spending: 700 });
+
+    const inUTC = await getSpendingAnalytics(user.id, 'month', 'UTC', now);
+    expect(inUTC.spending).toBe(0);
+    const quarterInUTC = await getSpendingAnalytics(user.id, 'quarter', 'UTC', now);
+    expect(quarterInUTC.monthly.find(({ month }) => month === '2026-03')?.spending).toBe(700);
+    expect(quarterInUTC.daily.find(({ day }) => day === '2026-03-31')?.spending).toBe(700);
+  });
+});
+
+describe('analyticsRangeStart', () => {
+  it('starts at midnight where the user is', () => {
+    // Still New Year's Eve in New York
+    const now = new Date('2026-01-01T03:00:00Z');
+
+    expect(analyticsRangeStart('month', now, 'America/New_York')).toEqual(new Date('2025-12-01T05:00:00Z'));
+    expect(analyticsRangeStart('quarter', now, 'America/New_York')).toEqual(new Date('2025-10-01T04:00:00Z'));
+    expect(analyticsRangeStart('year', now, 'America/New_York')).toEqual(new Date('2025-01-01T05:00:00Z'));
+    expect(analyticsRangeStart('year', now)).toEqual(new Date('2026-01-01T00:00:00Z'));
+  });
+});
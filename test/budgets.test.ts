@@ -0,0 +1,371 @@
+import { budgets, db, transactions } from '@/db';
+import {
+  approveTransaction,
+  createBudget,
+  createTransaction,
+  createTransfer,
+  deleteBudget,
+  getBudget,
+  getNotifications,
+  getUserBudgets,
+  recomputeBudgetSpent,
+  rejectTransaction,
+  rollOverBudgets,
+  updateBudget,
+  updateSpendingLimits,
+  updateTimeZone,
+  updateTransactionCategory,
+} from '@/db/actions';
+import { budgetPeriodEnd } from '@/lib/budgets';
+import { eq } from 'drizzle-orm';
+import { describe, expect, it } from 'vitest';
+import { expectActionError, linkChild, mainAccount, makeFundedUser, makeUser } from './helpers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A budget whose period is the two days around now
+const makeBudget = (userId: string, category: string) =>
+  createBudget({
+    userId,
+    category,
+    amount: 100_000,
+    startDate: new Date(Date.now() - DAY_MS),
+    endDate: new Date(Date.now() + DAY_MS),
+  });
+
+const spentOn = async (budgetId: string) => {
+  const [budget] = await db.select().from(budgets).where(eq(budgets.id, budgetId));
+  return budget.spent;
+};
+
+describe('budget spending', () => {
+  it('counts completed withdrawals in the budget category and period', async () => {
+    const { user, account } = await makeFundedUser(50_000);
+    const food = await makeBudget(user.id, 'food');
+    const lastMonth = await createBudget({
+      userId: user.id,
+      category: 'food',
+      amount: 100_000,
+      startDate: new Date(Date.now() - 30 * DAY_MS),
+      endDate: new Date(Date.now() - DAY_MS),
+    });
+
+    await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 1_500, category: 'food' });
+    await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 700, category: 'transport' });
+    await createTransaction({ userId: user.id, accountId: account.id, type: 'deposit', amount: 900, category: 'food' });
+
+    expect(await spentOn(food.id)).toBe(1_500);
+    expect(await spentOn(lastMonth.id)).toBe(0);
+  });
+
+  it('starts a new budget with what was already spent in its period', async () => {
+    const { user, account } = await makeFundedUser(50_000);
+    await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 2_000, category: 'shopping' });
+
+    const shopping = await makeBudget(user.id, 'shopping');
+
+    expect(shopping.spent).toBe(2_000);
+  });
+
+  it('counts a transfer for the sender, not the recipient', async () => {
+    const sender = await makeFundedUser(50_000);
+    const recipient = await makeUser();
+    const senderBudget = await makeBudget(sender.user.id, 'bills');
+    const recipientBudget = await makeBudget(recipient.id, 'bills');
+
+    await createTransfer({
+      userId: sender.user.id,
+      fromAccountId: sender.account.id,
+      toAccountId: (await mainAccount(recipient.id)).id,
+      amount: 3_000,
+      category: 'bills',
+    });
+
+    expect(await spentOn(senderBudget.id)).toBe(3_000);
+    expect(await spentOn(recipientBudget.id)).toBe(0);
+  });
+
+  it("counts a child's purchase once a guardian approves it, and never if they reject it", async () => {
+    const parent = await makeUser('Parent');
+    const { user: child, account } = await makeFundedUser(50_000, 'Child');
+    await linkChild(parent.id, child.id);
+    await updateSpendingLimits(parent.id, child.id, { autoApproveThreshold: 0 });
+    const budget = await makeBudget(child.id, 'entertainment');
+
+    const approved = await createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount: 1_200, category: 'entertainment' });
+    const rejected = await createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount: 800, category: 'entertainment' });
+    expect(await spentOn(budget.id)).toBe(0);
+
+    await approveTransaction(approved.id, parent.id);
+    await rejectTransaction(rejected.id, parent.id);
+
+    expect(await spentOn(budget.id)).toBe(1_200);
+  });
+
+  it('moves spending between budgets when a transaction is re-categorized', async () => {
+    const { user, account } = await makeFundedUser(50_000);
+    const food = await makeBudget(user.id, 'food');
+    const health = await makeBudget(user.id, 'health');
+    const purchase = await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 2_500, category: 'food' });
+
+    const updated = await updateTransactionCategory(purchase.id, user.id, 'health');
+
+    expect(updated.category).toBe('health');
+    expect(await spentOn(food.id)).toBe(0);
+    expect(await spentOn(health.id)).toBe(2_500);
+  });
+
+  it("can't re-categorize someone else's transaction", async () => {
+    const { user, account } = await makeFundedUser(5_000);
+    const stranger = await makeUser();
+    const purchase = await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 500, category: 'food' });
+
+    await expectActionError(updateTransactionCategory(purchase.id, stranger.id, 'other'), 'transaction_not_found');
+  });
+
+  it('recomputes budgets whose spending was changed outside the actions', async () => {
+    const { user, account } = await makeFundedUser(50_000);
+    const food = await makeBudget(user.id, 'food');
+    await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 4_000, category: 'food' });
+    await db.update(budgets).set({ spent: 0 }).where(eq(budgets.userId, user.id));
+
+    expect(await recomputeBudgetSpent(user.id)).toBe(1);
+    expect(await spentOn(food.id)).toBe(4_000);
+  });
+});
+
+describe('managing budgets', () => {
+  it('rejects budgets with no category, amount or period', async () => {
+    const user = await makeUser();
+    const valid = { userId: user.id, category: 'food', amount: 10_000, startDate: new Date(), endDate: new Date(Date.now() + DAY_MS) };
+
+    await expectActionError(createBudget({ ...valid, category: ' ' }), 'invalid_budget');
+    await expectActionError(createBudget({ ...valid, amount: 0 }), 'invalid_amount');
+    await expectActionError(createBudget({ ...valid, period: 'daily' }), 'invalid_budget');
+    await expectActionError(createBudget({ ...valid, endDate: valid.startDate }), 'invalid_budget');
+  });
+
+  it('lists the transactions that counted towards a budget', async () => {
+    const { user, account } = await makeFundedUser(50_000);
+    const food = await makeBudget(user.id, 'food');
+    const lunch = await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 600, category: 'food' });
+    await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 900, category: 'shopping' });
+
+    const { budget, transactions } = await getBudget(food.id, user.id);
+
+    expect(budget.spent).toBe(600);
+    expect(transactions.map((transaction) => transaction.id)).toEqual([lunch.id]);
+  });
+
+  it('recomputes spending when a budget moves to another category', async () => {
+    const { user, account } = await makeFundedUser(50_000);
+    const budget = await makeBudget(user.id, 'food');
+    await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 1_100, category: 'transport' });
+
+    const updated = await updateBudget(budget.id, user.id, { category: 'transport', amount: 20_000, period: undefined });
+
+    expect(updated).toMatchObject({ category: 'transport', amount: 20_000, period: 'monthly', spent: 1_100 });
+  });
+
+  it('keeps other users away from a budget', async () => {
+    const owner = await makeUser();
+    const stranger = await makeUser();
+    const budget = await makeBudget(owner.id, 'food');
+
+    await expectActionError(getBudget(budget.id, stranger.id), 'budget_not_found');
+    await expectActionError(updateBudget(budget.id, stranger.id, { amount: 1 }), 'budget_not_found');
+    await expectActionError(deleteBudget(budget.id, stranger.id), 'budget_not_found');
+
+    await deleteBudget(budget.id, owner.id);
+    expect(await getUserBudgets(owner.id)).toEqual([]);
+  });
+});
+
+describe('recurring budgets', () => {
+  // A monthly budget for last month, from the same day a month ago until now
+  const makeEndedBudget = (userId: string, carryOver: boolean) => {
+    const now = new Date();
+    return createBudget({
+      userId,
+      category: 'food',
+      amount: 10_000,
+      startDate: new Date(now.getFullYear(), now.getMonth() - 1, now.getDate()),
+      endDate: new Date(now.getTime() - 1),
+      recurring: true,
+      carryOver,
+    });
+  };
+
+  it('renews a recurring budget for the next period once it ends', async () => {
+    const user = await makeUser();
+    const ended = await makeEndedBudget(user.id, false);
+    await makeBudget(user.id, 'transport');
+
+    const [renewal, ...others] = await rollOverBudgets({ userId: user.id });
+
+    expect(others).toEqual([]);
+    expect(renewal).toMatchObject({
+      category: 'food',
+      amount: 10_000,
+      period: 'monthly',
+      startDate: ended.endDate,
+      recurring: true,
+      carriedOver: 0,
+      previousBudgetId: ended.id,
+    });
+    expect(await rollOverBudgets({ userId: user.id })).toEqual([]);
+  });
+
+  it('renews ended budgets when they are listed', async () => {
+    const user = await makeUser();
+    const ended = await makeEndedBudget(user.id, false);
+
+    const listed = await getUserBudgets(user.id);
+
+    expect(listed).toHaveLength(2);
+    expect(listed[0]).toMatchObject({ previousBudgetId: ended.id, startDate: ended.endDate });
+  });
+
+  it('renews an ended budget when spending comes in, and alerts on the new period', async () => {
+    const { user, account } = await makeFundedUser(50_000);
+    const ended = await makeEndedBudget(user.id, false);
+
+    await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 6_000, category: 'food' });
+
+    const [renewal] = await db.select().from(budgets).where(eq(budgets.previousBudgetId, ended.id));
+    expect(renewal).toMatchObject({ spent: 6_000, notifiedPercent: 50 });
+    expect((await getNotifications(user.id)).map(({ type, href }) => ({ type, href }))).toEqual([
+      { type: 'budget_half_spent', href: `/budgets/${renewal.id}` },
+    ]);
+  });
+
+  it('renews once for every period missed', async () => {
+    const user = await makeUser();
+    await createBudget({
+      userId: user.id,
+      category: 'food',
+      amount: 10_000,
+      period: 'weekly',
+      startDate: new Date(Date.now() - 22 * DAY_MS),
+      endDate: new Date(Date.now() - 15 * DAY_MS),
+      recurring: true,
+    });
+
+    const renewals = await rollOverBudgets({ userId: user.id });
+
+    expect(renewals).toHaveLength(3);
+    expect(renewals[2].startDate.getTime()).toBeLessThanOrEqual(Date.now());
+    expect(renewals[2].endDate.getTime()).toBeGreaterThan(Date.now());
+    const { earlier } = await getBudget(renewals[2].id, user.id);
+    expect(earlier.map((budget) => budget.id)).toEqual([renewals[1].id, renewals[0].id, renewals[0].previousBudgetId]);
+  });
+
+  it('keeps a budget that starts at the end of a month on the last day of shorter ones', async () => {
+    const user = await makeUser();
+    const startDate = new Date(2026, 0, 31);
+    await createBudget({
+      userId: user.id,
+      category: 'food',
+      amount: 10_000,
+      startDate,
+      endDate: budgetPeriodEnd(startDate, 'monthly'),
+      recurring: true,
+    });
+
+    const renewals = await rollOverBudgets({ userId: user.id, now: new Date(2026, 4, 1) });
+
+    expect(renewals.map(({ startDate, endDate }) => [startDate, endDate])).toEqual([
+      [new Date(2026, 1, 28), new Date(2026, 2, 31)],
+      [new Date(2026, 2, 31), new Date(2026, 3, 30)],
+      [new Date(2026, 3, 30), new Date(2026, 4, 31)],
+    ]);
+  });
+
+  it("follows the calendar where the user lives, not the server's", async () => {
+    // Tests run in UTC; these are all midnight in India
+    const user = await updateTimeZone((await makeUser()).id, 'Asia/Kolkata');
+    const makeRecurring = (category: string, period: 'weekly' | 'monthly', startDate: string, endDate: string) =>
+      createBudget({
+        userId: user.id,
+        category,
+        amount: 10_000,
+        period,
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+        recurring: true,
+      });
+    await makeRecurring('food', 'monthly', '2026-09-30T18:30:00Z', '2026-10-31T18:30:00Z');
+    await makeRecurring('bills', 'weekly', '2026-10-11T18:30:00Z', '2026-10-18T18:30:00Z');
+
+    const renewals = await rollOverBudgets({ userId: user.id, now: new Date('2026-11-01T00:00:00Z') });
+
+    const periods = (category: string) => renewals
+      .filter((renewal) => renewal.category === category)
+      .map(({ startDate, endDate }) => [startDate.toISOString(), endDate.toISOString()]);
+    expect(periods('food')).toEqual([['2026-10-31T18:30:00.000Z', '2026-11-30T18:30:00.000Z']]);
+    expect(periods('bills')).toEqual([
+      ['2026-10-18T18:30:00.000Z', '2026-10-25T18:30:00.000Z'],
+      ['2026-10-25T18:30:00.000Z', '2026-11-01T18:30:00.000Z'],
+    ]);
+  });
+
+  it('carries what was left, or overspent, into the next period', async () => {
+    const { user, account } = await makeFundedUser(50_000);
+    const ended = await makeEndedBudget(user.id, true);
+    const [renewal] = await rollOverBudgets({ userId: user.id });
+    expect(renewal.carriedOver).toBe(10_000);
+
+    // Spending that turns up in the ended period later comes off what the renewal was given
+    const purchase = await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 12_500, category: 'food' });
+    await db.update(transactions).set({ createdAt: ended.startDate }).where(eq(transactions.id, purchase.id));
+    await recomputeBudgetSpent(user.id);
+
+    expect(await spentOn(ended.id)).toBe(12_500);
+    expect(await spentOn(renewal.id)).toBe(0);
+    expect((await getBudget(renewal.id, user.id)).budget.carriedOver).toBe(-2_500);
+  });
+
+  it('stops carrying over when the earlier budget is changed not to', async () => {
+    const user = await makeUser();
+    const ended = await makeEndedBudget(user.id, true);
+    const [renewal] = await rollOverBudgets({ userId: user.id });
+
+    await updateBudget(ended.id, user.id, { carryOver: false });
+
+    expect((await getBudget(renewal.id, user.id)).budget.carriedOver).toBe(0);
+  });
+
+  it('keeps the renewal when an ended budget is deleted', async () => {
+    const user = await makeUser();
+    const ended = await makeEndedBudget(user.id, true);
+    const [renewal] = await rollOverBudgets({ userId: user.id });
+
+    await deleteBudget(ended.id, user.id);
+
+    expect(await getUserBudgets(user.id)).toEqual([{ ...renewal, previousBudgetId: null }]);
+  });
+});
+
+describe('budgetPeriodEnd', () => {
+  it('ends a month or a year later, on the last day of a shorter month', () => {
+    expect(budgetPeriodEnd(new Date(2026, 9, 1), 'monthly')).toEqual(new Date(2026, 10, 1));
+    expect(budgetPeriodEnd(new Date(2026, 0, 31), 'monthly')).toEqual(new Date(2026, 1, 28));
+    expect(budgetPeriodEnd(new Date(2028, 0, 31), 'monthly')).toEqual(new Date(2028, 1, 29));
+    expect(budgetPeriodEnd(new Date(2026, 2, 31), 'monthly')).toEqual(new Date(2026, 3, 30));
+    expect(budgetPeriodEnd(new Date(2026, 11, 31), 'monthly')).toEqual(new Date(2027, 0, 31));
+    expect(budgetPeriodEnd(new Date(2028, 1, 29), 'yearly')).toEqual(new Date(2029, 1, 28));
+    expect(budgetPeriodEnd(new Date(2026, 0, 29), 'weekly')).toEqual(new Date(2026, 1, 5));
+  });
+
+  it("keeps the start's time of day in the given time zone", () => {
+    expect(budgetPeriodEnd(new Date('2026-09-30T18:30:00Z'), 'monthly', 'Asia/Kolkata'))
+      .toEqual(new Date('2026-10-31T18:30:00Z'));
+    expect(budgetPeriodEnd(new Date('2026-01-30T18:30:00Z'), 'monthly', 'Asia/Kolkata', 31))
+      .toEqual(new Date('2026-02-27T18:30:00Z'));
+    // Midnight in New York moves an hour when daylight saving ends on 1 November
+    expect(budgetPeriodEnd(new Date('2026-10-01T04:00:00Z'), 'monthly', 'America/New_York'))
+      .toEqual(new Date('2026-11-01T04:00:00Z'));
+    expect(budgetPeriodEnd(new Date('2026-11-01T04:00:00Z'), 'monthly', 'America/New_York'))
+      .toEqual(new Date('2026-12-01T05:00:00Z'));
+  });
+});
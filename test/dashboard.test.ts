@@ -0,0 +1,82 @@
+import { accounts, db } from '@/db';
+import {
+  createAccount,
+  createChore,
+  createTransaction,
+  getUserDashboardData,
+  setAccountMember,
+  submitChore,
+} from '@/db/actions';
+import { eq } from 'drizzle-orm';
+import { describe, expect, it } from 'vitest';
+import { expectActionError, linkChild, makeFundedUser, makeUser } from './helpers';
+
+describe('getUserDashboardData', () => {
+  it("totals the user's balance, leaving out money on hold", async () => {
+    const guardian = await makeUser();
+    const { user: child, account } = await makeFundedUser(5_000);
+    await linkChild(guardian.id, child.id);
+
+    await createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount: 1_200, category: 'food' });
+
+    const data = await getUserDashboardData(child.id);
+    expect(data.totalBalance).toBe(5_000);
+    expect(data.availableBalance).toBe(3_800);
+    expect(data.recentTransactions).toHaveLength(2);
+    expect(data.household?.role).toBe('child');
+  });
+
+  it("lists a child's pending transactions and finished chores for their guardian", async () => {
+    const { user: guardian, account: source } = await makeFundedUser(1_000);
+    const { user: child, account } = await makeFundedUser(5_000);
+    await linkChild(guardian.id, child.id);
+
+    const pending = await createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount: 700, category: 'food' });
+    const chore = await createChore({
+      parentId: guardian.id,
+      childId: child.id,
+      sourceAccountId: source.id,
+      title: 'Tidy room',
+      reward: 100,
+      dueDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    });
+    await submitChore(chore.id, child.id);
+
+    const data = await getUserDashboardData(guardian.id);
+    expect(data.pendingApprovals.map(({ transaction }) => transaction.id)).toEqual([pending.id]);
+    expect(data.choresAwaitingApproval.map(({ chore }) => chore.id)).toEqual([chore.id]);
+    expect(data.household?.members).toHaveLength(2);
+  });
+
+  it('counts shared joint accounts the user can spend from, but not view-only ones', async () => {
+    const owner = await makeUser();
+    const spender = await makeUser();
+    const viewer = await makeUser();
+    const joint = await createAccount({ userId: owner.id, accountType: 'joint_family', accountName: 'House' });
+    await createTransaction({ userId: owner.id, accountId: joint.id, type: 'deposit', amount: 9_000 });
+
+    await setAccountMember(joint.id, owner.id, spender.id, 'spend');
+    await setAccountMember(joint.id, owner.id, viewer.id, 'view');
+
+    expect((await getUserDashboardData(spender.id)).totalBalance).toBe(9_000);
+    const viewerData = await getUserDashboardData(viewer.id);
+    expect(viewerData.totalBalance).toBe(0);
+    expect(viewerData.accounts.map((account) => account.permission)).toEqual(['spend', 'view']);
+    await expectActionError(
+      createTransaction({ userId: viewer.id, accountId: joint.id, type: 'withdrawal', amount: 100 }),
+      'not_authorized'
+    );
+  });
+
+  it("points deposits and withdrawals at the user's own account, even with an older joint one", async () => {
+    const owner = await makeUser();
+    const { user: member, account } = await makeFundedUser(2_000);
+    const joint = await createAccount({ userId: owner.id, accountType: 'joint_family', accountName: 'House' });
+    await db.update(accounts).set({ createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000) }).where(eq(accounts.id, joint.id));
+    await setAccountMember(joint.id, owner.id, member.id, 'spend');
+
+    const data = await getUserDashboardData(member.id);
+    expect(data.accounts[0].id).toBe(joint.id);
+    expect(data.primaryAccountId).toBe(account.id);
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  approveFamilyRequest,
+  cancelFamilyRequest,
+  createFamilyInvite,
+  createFamilyRequest,
+  getFamilyInvite,
+  getFamilyRequests,
+  getHousehold,
+  getHouseholdEvents,
+  getUserChildren,
+  graduateChild,
+  isGuardianOf,
+  joinFamilyWithInvite,
+  rejectFamilyRequest,
+  requestLeaveHousehold,
+  unlinkChild,
+} from '@/db/actions';
+import { db } from '@/db';
+import { describe, expect, it } from 'vitest';
+import { expectActionError, linkChild, makeUser } from './helpers';
+
+describe('family requests', () => {
+  it('adds the child to the guardian household once approved', async () => {
+    const guardian = await makeUser('Guardian');
+    const child = await makeUser('Child');
+
+    const request = await createFamilyRequest({ childId: child.id, parentId: guardian.id, message: 'Hi' });
+    expect(await getFamilyRequests(guardian.id)).toEqual([{
+      request,
+      requester: { id: child.id, email: child.email, firstName: 'Child', lastName: child.lastName },
+    }]);
+    const approved = await approveFamilyRequest(request.id, guardian.id);
+
+    expect(approved.status).toBe('approved');
+    expect(await isGuardianOf(db, guardian.id, child.id)).toBe(true);
+    expect((await getUserChildren(guardian.id)).map((user) => user.id)).toEqual([child.id]);
+    expect((await getHousehold(child.id))?.role).toBe('child');
+  });
+
+  it('can be rejected by the guardian or withdrawn by the child', async () => {
+    const guardian = await makeUser();
+    const child = await makeUser();
+
+    const first = await createFamilyRequest({ childId: child.id, parentId: guardian.id });
+    expect((await rejectFamilyRequest(first.id, guardian.id)).status).toBe('rejected');
+
+    const second = await createFamilyRequest({ childId: child.id, parentId: guardian.id });
+    expect((await cancelFamilyRequest(second.id, child.id)).status).toBe('cancelled');
+
+    await expectActionError(approveFamilyRequest(second.id, guardian.id), 'invalid_status_transition');
+    expect(await getHousehold(child.id)).toBeNull();
+  });
+
+  it('allow only one pending request per guardian', async () => {
+    const guardian = await makeUser();
+    const child = await makeUser();
+
+    await createFamilyRequest({ childId: child.id, parentId: guardian.id });
+    await expectActionError(
+      createFamilyRequest({ childId: child.id, parentId: guardian.id }),
+      'duplicate_family_request'
+    );
+  });
+
+  it("can't be approved by someone else", async () => {
+    const guardian = await makeUser();
+    const child = await makeUser();
+    const stranger = await makeUser();
+
+    const request = await createFamilyRequest({ childId: child.id, parentId: guardian.id });
+    await expectActionError(approveFamilyRequest(request.id, stranger.id), 'family_request_not_found');
+  });
+
+  it("can't be sent to yourself or from inside a household", async () => {
+    const guardian = await makeUser();
+    const child = await makeUser();
+    const other = await makeUser();
+    await linkChild(guardian.id, child.id);
+
+    await expectActionError(createFamilyRequest({ childId: other.id, parentId: other.id }), 'invalid_family_request');
+    await expectActionError(createFamilyRequest({ childId: child.id, parentId: other.id }), 'invalid_family_request');
+  });
+});
+
+describe('family invites', () => {
+  it('replace the previous code for the same role', async () => {
+    const guardian = await makeUser();
+    const child = await makeUser();
+
+    const first = await createFamilyInvite(guardian.id);
+    const second = await createFamilyInvite(guardian.id);
+
+    expect(second.code).toMatch(/^[A-HJ-NP-Z2-9]{12}$/);
+    expect(await getFamilyInvite(child.id, first.code)).toBeUndefined();
+    expect((await getFamilyInvite(child.id, second.code.toLowerCase()))?.invite.id).toBe(second.id);
+  });
+
+  it('add a second guardian once the first approves', async () => {
+    const guardian = await makeUser();
+    const partner = await makeUser();
+    const child = await makeUser();
+    await linkChild(guardian.id, child.id);
+
+    const invite = await createFamilyInvite(guardian.id, 'guardian');
+    const request = await joinFamilyWithInvite(partner.id, invite.code);
+
+    expect(request).toMatchObject({ status: 'pending', role: 'guardian' });
+    expect(await getHousehold(partner.id)).toBeNull();
+
+    await approveFamilyRequest(request.id, guardian.id);
+    expect((await getHousehold(partner.id))?.role).toBe('guardian');
+    expect(await isGuardianOf(db, partner.id, child.id)).toBe(true);
+  });
+
+  it('turn away a user after too many wrong codes', async () => {
+    const guardian = await makeUser();
+    const guesser = await makeUser();
+    const invite = await createFamilyInvite(guardian.id);
+
+    for (let attempt = 0; attempt < 10; attempt++) {
+      await expectActionError(joinFamilyWithInvite(guesser.id, 'AAAAAAAAAAAA'), 'invite_not_found');
+    }
+
+    await expectActionError(joinFamilyWithInvite(guesser.id, invite.code), 'too_many_attempts');
+    expect(await getFamilyInvite(guardian.id, invite.code)).toBeDefined();
+  });
+});
+
+describe('leaving a household', () => {
+  it('graduates a child to an adult member', async () => {
+    const guardian = await makeUser();
+    const child = await makeUser();
+    await linkChild(guardian.id, child.id);
+
+    await graduateChild(guardian.id, child.id, 'Turned 18');
+
+    expect((await getHousehold(child.id))?.role).toBe('member');
+    expect(await isGuardianOf(db, guardian.id, child.id)).toBe(false);
+  });
+
+  it('unlinks a child and keeps the history', async () => {
+    const guardian = await makeUser('Guardian');
+    const child = await makeUser('Child');
+    await linkChild(guardian.id, child.id);
+
+    await requestLeaveHousehold(child.id, 'Moving out');
+    await unlinkChild(guardian.id, child.id);
+
+    expect(await getHousehold(child.id)).toBeNull();
+    const events = await getHouseholdEvents(guardian.id);
+    expect(events.map(({ event }) => event.type)).toEqual(expect.arrayContaining(['joined', 'leave_requested', 'unlinked']));
+  });
+
+  it('is up to the guardians', async () => {
+    const guardian = await makeUser();
+    const child = await makeUser();
+    const stranger = await makeUser();
+    await linkChild(guardian.id, child.id);
+
+    await expectActionError(unlinkChild(stranger.id, child.id), 'not_authorized');
+    await expectActionError(graduateChild(child.id, child.id), 'not_authorized');
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  approveFamilyRequest,
+  createFamilyInvite,
+  createTransaction,
+  createUser,
+  getUserAccounts,
+  joinFamilyWithInvite,
+} from '@/db/actions';
+import { ActionError, type ActionErrorCode } from '@/db/errors';
+import type { Money } from '@/lib/money';
+import { randomUUID } from 'node:crypto';
+import { expect } from 'vitest';
+
+// Tests in a file share its database, so every user they make is new
+export const makeUser = async (firstName = 'Test') => {
+  const clerkId = `user_${randomUUID()}`;
+  return await createUser({ clerkId, email: `${clerkId}@example.com`, firstName });
+};
+
+// The user's default personal account
+export const mainAccount = async (userId: string) => {
+  const [account] = await getUserAccounts(userId);
+  return account;
+};
+
+export const balanceOf = async (accountId: string, userId: string) => {
+  const account = (await getUserAccounts(userId)).find((candidate) => candidate.id === accountId)!;
+  return { balance: account.balance, held: account.heldBalance };
+};
+
+// A user with `amount` already in their main account
+export const makeFundedUser = async (amount: Money, firstName?: string) => {
+  const user = await makeUser(firstName);
+  const account = await mainAccount(user.id);
+  await createTransaction({ userId: user.id, accountId: account.id, type: 'deposit', amount });
+  return { user, account };
+};
+
+// Puts `childId` in the guardian's household, as a child with no spending limits set
+export const linkChild = async (guardianId: string, childId: string) => {
+  const invite = await createFamilyInvite(guardianId);
+  const request = await joinFamilyWithInvite(childId, invite.code);
+  await approveFamilyRequest(request.id, guardianId);
+};
+
+export const expectActionError = async (promise: Promise<unknown>, code: ActionErrorCode) => {
+  const error = await promise.then(() => null, (caught: unknown) => caught);
+  expect(error).toBeInstanceOf(ActionError);
+  expect((error as ActionError).code).toBe(code);
+};
@@ -0,0 +1,148 @@
+import { accounts, paymentMethods, transactions, users } from '@/db';
+import { rows } from '@/db/drift';
+import { createDatabase, migrateDatabase } from '@/db/driver';
+import { isLegacyDatabase, moveLegacyTables } from '@/db/legacy';
+import { asc, eq, sql } from 'drizzle-orm';
+import { describe, expect, it } from 'vitest';
+
+// The tables of a database from before the migrations, as they were last introspected
+const LEGACY_SCHEMA = [
+  sql`CREATE TYPE account_type AS ENUM ('personal', 'joint_family')`,
+  sql`CREATE TYPE transaction_type AS ENUM ('deposit', 'withdrawal', 'transfer')`,
+  sql`CREATE TYPE user_role AS ENUM ('parent', 'child')`,
+  sql`CREATE TABLE users (
+    id integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+    name varchar(255) NOT NULL,
+    age integer NOT NULL,
+    email varchar(255) NOT NULL,
+    first_name varchar(225),
+    last_name varchar(225)
+  )`,
+  sql`CREATE TABLE payment_methods (
+    id text PRIMARY KEY,
+    user_id text NOT NULL,
+    type text NOT NULL,
+    last4 text,
+    brand text,
+    expiry_month integer,
+    expiry_year integer,
+    is_default boolean DEFAULT false,
+    stripe_payment_method_id text,
+    created_at timestamp DEFAULT now() NOT NULL,
+    updated_at timestamp DEFAULT now() NOT NULL
+  )`,
+  sql`CREATE TABLE transactions (
+    id text PRIMARY KEY,
+    user_id text NOT NULL,
+    family_account_id text,
+    type text NOT NULL,
+    amount numeric(19, 2) NOT NULL,
+    balance_after numeric(19, 2) NOT NULL,
+    description text,
+    payment_method_id text,
+    stripe_transaction_id text,
+    created_at timestamp DEFAULT now() NOT NULL
+  )`,
+  sql`CREATE TABLE accounts (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL,
+    account_type account_type DEFAULT 'personal' NOT NULL,
+    account_name text NOT NULL,
+    balance numeric(10, 2) DEFAULT '0.00' NOT NULL,
+    is_active boolean DEFAULT true NOT NULL,
+    created_at timestamp DEFAULT now() NOT NULL,
+    updated_at timestamp DEFAULT now() NOT NULL
+  )`,
+  sql`CREATE TABLE budgets (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL,
+    category text NOT NULL,
+    amount numeric(10, 2) NOT NULL,
+    spent numeric(10, 2) DEFAULT '0.00' NOT NULL,
+    period text DEFAULT 'monthly' NOT NULL,
+    start_date timestamp NOT NULL,
+    end_date timestamp NOT NULL,
+    created_at timestamp DEFAULT now() NOT NULL
+  )`,
+  sql`CREATE TABLE family_requests (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    child_id uuid NOT NULL,
+    parent_id uuid NOT NULL,
+    status text DEFAULT 'pending' NOT NULL,
+    message text,
+    created_at timestamp DEFAULT now() NOT NULL,
+    updated_at timestamp DEFAULT now() NOT NULL
+  )`,
+  sql`CREATE TABLE ai_chats (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL,
+    message text NOT NULL,
+    response text NOT NULL,
+    message_type text DEFAULT 'user' NOT NULL,
+    created_at timestamp DEFAULT now() NOT NULL
+  )`,
+];
+
+// Asha paid in ₹500 with her card, spent ₹120.50 and sent ₹79.50 to Ravi
+const LEGACY_DATA = [
+  sql`INSERT INTO users (name, age, email, first_name, last_name) VALUES
+    ('Asha Rao', 41, 'asha@example.com', NULL, NULL),
+    ('Ravi', 12, 'ravi@example.com', 'Ravi', 'Kumar')`,
+  sql`INSERT INTO payment_methods (id, user_id, type, last4, brand, is_default) VALUES
+    ('pm_1', '1', 'card', '4242', 'visa', true)`,
+  sql`INSERT INTO transactions (id, user_id, type, amount, balance_after, description, payment_method_id, created_at) VALUES
+    ('txn_1', '1', 'deposit', 500.00, 500.00, 'Top-up', 'pm_1', '2024-01-01 10:00'),
+    ('txn_2', '1', 'withdrawal', 120.50, 379.50, 'Groceries', NULL, '2024-01-02 10:00'),
+    ('txn_3', '1', 'transfer', -79.50, 300.00, NULL, NULL, '2024-01-03 10:00'),
+    ('txn_4', '2', 'transfer', 79.50, 79.50, NULL, NULL, '2024-01-03 10:00'),
+    ('txn_5', '2', 'fee', 0.00, 79.50, 'Not a movement of money', NULL, '2024-01-04 10:00')`,
+  sql`INSERT INTO budgets (user_id, category, amount, start_date, end_date) VALUES
+    (gen_random_uuid(), 'food', 1000.00, '2024-01-01', '2024-02-01')`,
+  sql`INSERT INTO ai_chats (user_id, message, response) VALUES (gen_random_uuid(), 'Hi', 'Hello')`,
+];
+
+describe('upgrading a legacy database', () => {
+  it('imports users, balances, payment methods and transactions', async () => {
+    const database = createDatabase('pglite', 'memory://');
+    for (const statement of [...LEGACY_SCHEMA, ...LEGACY_DATA]) {
+      await database.execute(statement);
+    }
+
+    expect(await isLegacyDatabase(database)).toBe(true);
+    expect(await moveLegacyTables(database)).toBe(7);
+    await migrateDatabase('pglite', database);
+    expect(await isLegacyDatabase(database)).toBe(false);
+
+    const imported = await database.select().from(users).orderBy(users.clerkId);
+    expect(imported).toMatchObject([
+      { clerkId: 'legacy_1', email: 'asha@example.com', firstName: 'Asha', lastName: 'Rao' },
+      { clerkId: 'legacy_2', email: 'ravi@example.com', firstName: 'Ravi', lastName: 'Kumar' },
+    ]);
+    const [asha, ravi] = imported;
+
+    const balances = await database.select({ userId: accounts.userId, balance: accounts.balance }).from(accounts);
+    expect(balances).toHaveLength(2);
+    expect(balances).toContainEqual({ userId: asha.id, balance: 30_000 });
+    expect(balances).toContainEqual({ userId: ravi.id, balance: 7_950 });
+
+    const [card] = await database.select().from(paymentMethods).where(eq(paymentMethods.userId, asha.id));
+    expect(card).toMatchObject({ type: 'card', provider: 'visa', lastFour: '4242', isDefault: true });
+
+    // Old transfers become a withdrawal for the sender and a deposit for the recipient
+    const history = await database.select().from(transactions).orderBy(asc(transactions.createdAt), transactions.type);
+    expect(history.map(({ userId, type, amount, description, paymentMethodId, status }) =>
+      ({ userId, type, amount, description, paymentMethodId, status })
+    )).toEqual([
+      { userId: asha.id, type: 'deposit', amount: 50_000, description: 'Top-up', paymentMethodId: card.id, status: 'completed' },
+      { userId: asha.id, type: 'withdrawal', amount: 12_050, description: 'Groceries', paymentMethodId: null, status: 'completed' },
+      { userId: ravi.id, type: 'deposit', amount: 7_950, description: 'Transfer', paymentMethodId: null, status: 'completed' },
+      { userId: asha.id, type: 'withdrawal', amount: 7_950, description: 'Transfer', paymentMethodId: null, status: 'completed' },
+    ]);
+
+    // Rows with no legacy user to belong to stay behind in the archive
+    const [archived] = await rows<{ budgets: number; chats: number }>(database, sql`
+      SELECT (SELECT count(*)::int FROM legacy.budgets) AS budgets, (SELECT count(*)::int FROM legacy.ai_chats) AS chats
+    `);
+    expect(archived).toEqual({ budgets: 1, chats: 1 });
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  approveTransaction,
+  createAccount,
+  createAllowanceSchedule,
+  createBudget,
+  createFamilyInvite,
+  createTransaction,
+  getNotifications,
+  getUnreadNotificationCount,
+  joinFamilyWithInvite,
+  markNotificationsRead,
+  rejectTransaction,
+  runDueAllowances,
+  setAccountMember,
+  setMutedNotifications,
+  updateSpendingLimits,
+  updateTransactionCategory,
+} from '@/db/actions';
+import { describe, expect, it } from 'vitest';
+import { expectActionError, linkChild, makeFundedUser, makeUser } from './helpers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const typesFor = async (userId: string) =>
+  (await getNotifications(userId)).map((notification) => notification.type).reverse();
+
+// A guardian and a linked child with money to spend, whose purchases all need approval
+const makeFamily = async () => {
+  const { user: parent, account: parentAccount } = await makeFundedUser(100_000, 'Parent');
+  const { user: child, account } = await makeFundedUser(50_000, 'Child');
+  await linkChild(parent.id, child.id);
+  await updateSpendingLimits(parent.id, child.id, { autoApproveThreshold: 0 });
+  return { parent, parentAccount, child, account };
+};
+
+describe('notifications', () => {
+  it('tells a parent about a family request', async () => {
+    const parent = await makeUser('Parent');
+    const child = await makeUser('Asha');
+    const invite = await createFamilyInvite(parent.id);
+
+    await joinFamilyWithInvite(child.id, invite.code, 'Please add me');
+
+    const [notification] = await getNotifications(parent.id);
+    expect(notification).toMatchObject({
+      type: 'family_request',
+      body: 'Asha wants to join your family: "Please add me"',
+      href: '/profile',
+      readAt: null,
+    });
+  });
+
+  it('asks guardians to approve a purchase and tells the child what they decided', async () => {
+    const { parent, child, account } = await makeFamily();
+
+    const first = await createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount: 1_500, description: 'Cinema', category: 'entertainment' });
+    const second = await createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount: 800, category: 'food' });
+    await approveTransaction(first.id, parent.id);
+    await rejectTransaction(second.id, parent.id, 'Not this week');
+
+    const [needed] = await getNotifications(parent.id);
+    expect(needed).toMatchObject({ type: 'approval_needed', body: 'Child is asking you to approve a ₹8.00 purchase' });
+    expect((await getNotifications(child.id)).map(({ title, body }) => ({ title, body }))).toEqual([
+      { title: 'Declined', body: 'Parent declined your ₹8.00 purchase: "Not this week"' },
+      { title: 'Approved', body: 'Parent approved your ₹15.00 purchase (Cinema)' },
+    ]);
+  });
+
+  it('tells a child when their allowance is paid', async () => {
+    const { parent, parentAccount, child } = await makeFamily();
+    const startDate = new Date(Date.now() + DAY_MS);
+    await createAllowanceSchedule({
+      parentId: parent.id,
+      childId: child.id,
+      sourceAccountId: parentAccount.id,
+      amount: 500,
+      frequency: 'weekly',
+      startDate,
+    });
+
+    await runDueAllowances({ userId: child.id, now: new Date(startDate.getTime() + 1000) });
+
+    const [notification] = await getNotifications(child.id);
+    expect(notification).toMatchObject({ type: 'allowance_paid', body: 'Parent paid your weekly allowance of ₹5.00' });
+  });
+
+  it('counts and clears unread notifications', async () => {
+    const { parent, child, account } = await makeFamily();
+    await markNotificationsRead(parent.id);
+    for (const amount of [100, 200, 300]) {
+      await createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount, category: 'food' });
+    }
+    const [latest] = await getNotifications(parent.id);
+
+    expect(await getUnreadNotificationCount(parent.id)).toBe(3);
+    expect(await markNotificationsRead(parent.id, [latest.id])).toBe(1);
+    expect(await markNotificationsRead(child.id)).toBe(0);
+    expect(await getUnreadNotificationCount(parent.id)).toBe(2);
+    expect(await markNotificationsRead(parent.id)).toBe(2);
+    expect(await getUnreadNotificationCount(parent.id)).toBe(0);
+  });
+
+  it("doesn't send kinds of notification the user has turned off", async () => {
+    const { parent, child, account } = await makeFamily();
+    await setMutedNotifications(parent.id, ['approval_needed']);
+
+    await createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount: 100, category: 'food' });
+
+    expect(await typesFor(parent.id)).toEqual(['family_request']);
+    await expectActionError(setMutedNotifications(parent.id, ['everything' as never]), 'invalid_notification_type');
+  });
+});
+
+describe('budget alerts', () => {
+  const makeBudget = (userId: string) =>
+    createBudget({
+      userId,
+      category: 'food',
+      amount: 10_000,
+      startDate: new Date(Date.now() - DAY_MS),
+      endDate: new Date(Date.now() + DAY_MS),
+    });
+
+  it('alerts once as spending passes half, 80% and all of the budget', async () => {
+    const { user, account } = await makeFundedUser(50_000);
+    const budget = await makeBudget(user.id);
+    const spend = (amount: number) =>
+      createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount, category: 'food' });
+
+    await spend(4_000);
+    expect(await typesFor(user.id)).toEqual([]);
+    await spend(1_000);
+    await spend(500);
+    await spend(3_000);
+    await spend(2_000);
+    await spend(100);
+
+    expect(await typesFor(user.id)).toEqual(['budget_half_spent', 'budget_nearly_spent', 'budget_overspent']);
+    const [overspent] = await getNotifications(user.id);
+    expect(overspent).toMatchObject({
+      title: 'Your food budget is used up',
+      body: "You've spent ₹105.00, ₹5.00 over your ₹100.00 budget",
+      href: `/budgets/${budget.id}`,
+    });
+  });
+
+  it('sends only the highest alert when spending jumps past several', async () => {
+    const { user, account } = await makeFundedUser(50_000);
+    await makeBudget(user.id);
+
+    await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 9_000, category: 'food' });
+
+    expect(await typesFor(user.id)).toEqual(['budget_nearly_spent']);
+  });
+
+  it('alerts again after spending drops back below a threshold and crosses it again', async () => {
+    const { user, account } = await makeFundedUser(50_000);
+    await makeBudget(user.id);
+    const purchase = await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 6_000, category: 'food' });
+
+    await updateTransactionCategory(purchase.id, user.id, 'shopping');
+    await updateTransactionCategory(purchase.id, user.id, 'food');
+
+    expect(await typesFor(user.id)).toEqual(['budget_half_spent', 'budget_half_spent']);
+  });
+});
+
+describe('notifications for joint accounts', () => {
+  it('asks the account owner to approve a member who needs approval', async () => {
+    const owner = await makeUser('Owner');
+    const member = await makeUser('Member');
+    const joint = await createAccount({ userId: owner.id, accountType: 'joint_family', accountName: 'Household' });
+    await createTransaction({ userId: owner.id, accountId: joint.id, type: 'deposit', amount: 10_000 });
+    await setAccountMember(joint.id, owner.id, member.id, 'spend_with_approval');
+
+    await createTransaction({ userId: member.id, accountId: joint.id, type: 'withdrawal', amount: 2_000 });
+
+    expect(await typesFor(owner.id)).toEqual(['approval_needed']);
+    expect(await typesFor(member.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+import { procedures } from '@/server/procedures';
+import { describe, expect, it } from 'vitest';
+import { balanceOf, expectActionError, makeFundedUser, makeUser } from './helpers';
+
+// Procedures get their input straight from the request body, so it's passed here as
+// `never` to stand in for whatever a client might send
+describe('procedure inputs', () => {
+  it('refuse a missing or misshapen body', async () => {
+    const user = await makeUser();
+
+    await expectActionError(procedures.createTransaction(user, null as never), 'invalid_input');
+    await expectActionError(procedures.getBudget(user, [] as never), 'invalid_input');
+    await expectActionError(procedures.getBudget(user, { budgetId: 'not-an-id' }), 'invalid_input');
+    await expectActionError(
+      procedures.updateBudget(user, { budgetId: crypto.randomUUID() } as never),
+      'invalid_input'
+    );
+  });
+
+  it('refuse values outside an enum', async () => {
+    const { user, account } = await makeFundedUser(1_000);
+    const valid = { accountId: account.id, type: 'withdrawal', amount: 100 } as const;
+
+    for (const input of [
+      { ...valid, type: 'transfer' },
+      { ...valid, category: 'rent' },
+      { ...valid, amount: '100' },
+    ]) {
+      await expectActionError(procedures.createTransaction(user, input as never), 'invalid_input');
+    }
+    await expectActionError(procedures.createFamilyInvite(user, { role: 'admin' } as never), 'invalid_input');
+    await expectActionError(
+      procedures.createBudget(user, {
+        category: 'food',
+        amount: 1_000,
+        period: 'daily' as never,
+        startDate: new Date(),
+        endDate: new Date(),
+      }),
+      'invalid_input'
+    );
+    await expectActionError(procedures.getSpendingAnalytics(user, { range: 'decade' } as never), 'invalid_input');
+    await expectActionError(procedures.getSpendingAnalytics(user, { range: 'month', timeZone: 'Mars/Olympus' }), 'invalid_input');
+    expect(await balanceOf(account.id, user.id)).toEqual({ balance: 1_000, held: 0 });
+  });
+
+  it('name the field that is wrong', async () => {
+    const user = await makeUser();
+
+    await expect(
+      procedures.updateSpendingLimits(user, { childId: user.id, limits: { blockedCategories: ['food', 'rent'] } } as never)
+    ).rejects.toThrow('limits.blockedCategories[1] must be one of');
+  });
+
+  it('pass on only the fields a procedure takes', async () => {
+    const { user, account } = await makeFundedUser(1_000);
+    const other = await makeUser();
+
+    const transaction = await procedures.createTransaction(user, {
+      accountId: account.id,
+      type: 'withdrawal',
+      amount: 100,
+      category: 'food',
+      userId: other.id,
+    } as never);
+
+    expect(transaction).toMatchObject({ userId: user.id, category: 'food', amount: 100 });
+  });
+});
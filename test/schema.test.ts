@@ -0,0 +1,36 @@
+import { db } from '@/db';
+import { updateSpendingLimits } from '@/db/actions';
+import { findDatabaseDrift, findUnmigratedChanges } from '@/db/drift';
+import { describe, expect, it } from 'vitest';
+import { linkChild, makeUser } from './helpers';
+
+describe('schema drift', () => {
+  it('has a migration for every change to db/schema.ts', async () => {
+    expect(await findUnmigratedChanges()).toEqual([]);
+  });
+
+  it('finds nothing to report on a migrated database', async () => {
+    expect(await findDatabaseDrift(db)).toEqual({ pendingMigrations: 0, missing: [], unexpected: [] });
+  });
+});
+
+describe('schema relations', () => {
+  it("load a user's spending limits from either side", async () => {
+    const guardian = await makeUser();
+    const child = await makeUser();
+    await linkChild(guardian.id, child.id);
+    await updateSpendingLimits(guardian.id, child.id, { dailyLimit: 1_000 });
+
+    const loaded = await db.query.users.findFirst({
+      where: (users, { eq }) => eq(users.id, guardian.id),
+      with: { setSpendingLimits: { with: { child: true } } },
+    });
+    expect(loaded?.setSpendingLimits.map((limits) => limits.child.id)).toEqual([child.id]);
+
+    const limited = await db.query.users.findFirst({
+      where: (users, { eq }) => eq(users.id, child.id),
+      with: { spendingLimits: { with: { parent: true } } },
+    });
+    expect(limited?.spendingLimits.map((limits) => limits.parent.id)).toEqual([guardian.id]);
+  });
+});
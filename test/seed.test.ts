@@ -0,0 +1,33 @@
+import { accounts, db } from '@/db';
+import { createUser, getHousehold } from '@/db/actions';
+import { seedDatabase } from '@/db/seed';
+import { sql } from 'drizzle-orm';
+import { describe, expect, it } from 'vitest';
+
+describe('seedDatabase', () => {
+  it('creates families whose balances match their transactions', async () => {
+    const developer = await createUser({ clerkId: 'user_developer', email: 'dev@example.com' });
+
+    const summary = await seedDatabase({ families: 2, months: 2, seed: 42, email: 'Dev@example.com' });
+    expect(summary.users).toBeGreaterThanOrEqual(4);
+    expect(summary.transactions).toBeGreaterThan(0);
+
+    const seeded = await db.select({
+      balance: accounts.balance,
+      heldBalance: accounts.heldBalance,
+      ledger: sql<number>`coalesce((
+        SELECT sum(CASE WHEN t.type = 'deposit' OR t.transfer_direction = 'credit' THEN t.amount ELSE -t.amount END)
+        FROM transactions t WHERE t.account_id = accounts.id AND t.status = 'completed'
+      ), 0)`.mapWith(Number),
+    }).from(accounts);
+    for (const account of seeded) {
+      expect(account.balance).toBe(account.ledger);
+      expect(account.balance - account.heldBalance).toBeGreaterThanOrEqual(0);
+    }
+    expect((await getHousehold(developer.id))?.role).toBe('guardian');
+  });
+
+  it('refuses to seed the same database twice', async () => {
+    await expect(seedDatabase({ families: 1, months: 1, seed: 42 })).rejects.toThrow('already been seeded');
+  });
+});
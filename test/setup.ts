@@ -0,0 +1,5 @@
+import { databaseDriver, db } from '@/db';
+import { migrateDatabase } from '@/db/driver';
+
+// vitest.config.ts points the app at a fresh PGlite database per test file
+await migrateDatabase(databaseDriver, db);
@@ -0,0 +1,250 @@
+import { db, transactions } from '@/db';
+import {
+  approveTransaction,
+  createTransaction,
+  createTransfer,
+  getTransactionDecisions,
+  rejectTransaction,
+  updateSpendingLimits,
+  updateTimeZone,
+} from '@/db/actions';
+import { fromWallClock, wallClock } from '@/lib/dates';
+import { eq } from 'drizzle-orm';
+import { describe, expect, it } from 'vitest';
+import { balanceOf, expectActionError, linkChild, mainAccount, makeFundedUser, makeUser } from './helpers';
+
+describe('createTransaction', () => {
+  it('posts deposits and withdrawals straight away for adults', async () => {
+    const { user, account } = await makeFundedUser(10_000);
+
+    const withdrawal = await createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 2_500 });
+
+    expect(withdrawal.status).toBe('completed');
+    expect(await balanceOf(account.id, user.id)).toEqual({ balance: 7_500, held: 0 });
+  });
+
+  it('rejects amounts that are not a positive number of paise', async () => {
+    const user = await makeUser();
+    const account = await mainAccount(user.id);
+
+    for (const amount of [0, -100, 10.5]) {
+      await expectActionError(
+        createTransaction({ userId: user.id, accountId: account.id, type: 'deposit', amount }),
+        'invalid_amount'
+      );
+    }
+  });
+
+  it('refuses transfers, which only createTransfer can post', async () => {
+    const { user, account } = await makeFundedUser(1_000);
+
+    await expectActionError(
+      createTransaction({ userId: user.id, accountId: account.id, type: 'transfer' as 'withdrawal', amount: 500 }),
+      'invalid_transfer'
+    );
+    expect(await balanceOf(account.id, user.id)).toEqual({ balance: 1_000, held: 0 });
+  });
+
+  it('refuses to overdraw an account', async () => {
+    const { user, account } = await makeFundedUser(1_000);
+
+    await expectActionError(
+      createTransaction({ userId: user.id, accountId: account.id, type: 'withdrawal', amount: 1_001 }),
+      'insufficient_funds'
+    );
+    expect(await balanceOf(account.id, user.id)).toEqual({ balance: 1_000, held: 0 });
+  });
+
+  it("can't use someone else's account", async () => {
+    const { account } = await makeFundedUser(1_000);
+    const stranger = await makeUser();
+
+    await expectActionError(
+      createTransaction({ userId: stranger.id, accountId: account.id, type: 'withdrawal', amount: 100 }),
+      'account_not_found'
+    );
+  });
+
+  it('replays a retried request with the same idempotency key', async () => {
+    const { user, account } = await makeFundedUser(5_000);
+    const request = { userId: user.id, accountId: account.id, type: 'withdrawal' as const, amount: 1_000 };
+
+    const first = await createTransaction({ ...request, idempotencyKey: 'key-1' });
+    const retry = await createTransaction({ ...request, idempotencyKey: 'key-1' });
+
+    expect(retry.id).toBe(first.id);
+    expect(await balanceOf(account.id, user.id)).toEqual({ balance: 4_000, held: 0 });
+    await expectActionError(
+      createTransaction({ ...request, amount: 2_000, idempotencyKey: 'key-1' }),
+      'idempotency_key_reused'
+    );
+  });
+});
+
+describe('createTransfer', () => {
+  it('moves money between two users', async () => {
+    const { user: sender, account: from } = await makeFundedUser(10_000);
+    const recipient = await makeUser();
+    const to = await mainAccount(recipient.id);
+
+    const { debit, credit } = await createTransfer({
+      userId: sender.id,
+      fromAccountId: from.id,
+      toAccountId: to.id,
+      amount: 3_000,
+    });
+
+    expect(debit.status).toBe('completed');
+    expect(credit.transferId).toBe(debit.transferId);
+    expect(await balanceOf(from.id, sender.id)).toEqual({ balance: 7_000, held: 0 });
+    expect(await balanceOf(to.id, recipient.id)).toEqual({ balance: 3_000, held: 0 });
+  });
+
+  it("finds the recipient's account from their email", async () => {
+    const { user: sender, account: from } = await makeFundedUser(10_000);
+    const recipient = await makeUser('Recipient');
+    const to = await mainAccount(recipient.id);
+
+    const { credit } = await createTransfer({
+      userId: sender.id,
+      fromAccountId: from.id,
+      toEmail: ` ${recipient.email.toUpperCase()} `,
+      amount: 2_000,
+    });
+
+    expect(credit.accountId).toBe(to.id);
+    expect(await balanceOf(to.id, recipient.id)).toEqual({ balance: 2_000, held: 0 });
+    await expectActionError(
+      createTransfer({ userId: sender.id, fromAccountId: from.id, toEmail: 'nobody@example.com', amount: 100 }),
+      'account_not_found'
+    );
+    expect(await balanceOf(from.id, sender.id)).toEqual({ balance: 8_000, held: 0 });
+  });
+
+  it('refuses a transfer to the same account', async () => {
+    const { user, account } = await makeFundedUser(1_000);
+
+    await expectActionError(
+      createTransfer({ userId: user.id, fromAccountId: account.id, toAccountId: account.id, amount: 100 }),
+      'invalid_transfer'
+    );
+  });
+});
+
+describe("a child's transactions", () => {
+  const makeFamily = async () => {
+    const guardian = await makeUser('Guardian');
+    const { user: child, account } = await makeFundedUser(5_000, 'Child');
+    await linkChild(guardian.id, child.id);
+    return { guardian, child, account };
+  };
+
+  it('hold the money until a guardian approves', async () => {
+    const { guardian, child, account } = await makeFamily();
+
+    const pending = await createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount: 2_000, category: 'food' });
+    expect(pending.status).toBe('pending');
+    expect(await balanceOf(account.id, child.id)).toEqual({ balance: 5_000, held: 2_000 });
+
+    const approved = await approveTransaction(pending.id, guardian.id, 'OK');
+    expect(approved.status).toBe('completed');
+    expect(await balanceOf(account.id, child.id)).toEqual({ balance: 3_000, held: 0 });
+    expect((await getTransactionDecisions(pending.id)).map(({ decision }) => decision.comment)).toEqual(['OK']);
+  });
+
+  it('release the hold when rejected', async () => {
+    const { guardian, child, account } = await makeFamily();
+
+    const pending = await createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount: 2_000, category: 'food' });
+    await rejectTransaction(pending.id, guardian.id);
+
+    expect(await balanceOf(account.id, child.id)).toEqual({ balance: 5_000, held: 0 });
+  });
+
+  it("can't spend held money twice", async () => {
+    const { child, account } = await makeFamily();
+
+    await createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount: 4_000, category: 'food' });
+    await expectActionError(
+      createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount: 2_000, category: 'food' }),
+      'insufficient_funds'
+    );
+  });
+
+  it('are decided only once, and only by a guardian', async () => {
+    const { guardian, child, account } = await makeFamily();
+    const stranger = await makeUser();
+
+    const pending = await createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount: 500, category: 'food' });
+    await expectActionError(approveTransaction(pending.id, stranger.id), 'not_authorized');
+    await expectActionError(approveTransaction(pending.id, child.id), 'not_authorized');
+
+    await approveTransaction(pending.id, guardian.id);
+    await expectActionError(rejectTransaction(pending.id, guardian.id), 'invalid_status_transition');
+    expect(await balanceOf(account.id, child.id)).toEqual({ balance: 4_500, held: 0 });
+  });
+
+  it('follow the spending limits a guardian sets', async () => {
+    const { guardian, child, account } = await makeFamily();
+    await updateSpendingLimits(guardian.id, child.id, {
+      dailyLimit: 1_500,
+      perTransactionLimit: 1_000,
+      autoApproveThreshold: 200,
+      blockedCategories: ['Gaming'],
+    });
+    const spend = (amount: number, category = 'food') =>
+      createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount, category });
+
+    expect((await spend(200)).status).toBe('completed');
+    expect((await spend(800)).status).toBe('pending');
+    await expectActionError(spend(1_001), 'limit_exceeded');
+    await expectActionError(spend(100, 'Gaming'), 'category_blocked');
+    // 200 + 800 already spent today, pending or not
+    await expectActionError(spend(600), 'limit_exceeded');
+  });
+
+  it("count a day's spending from midnight where the child lives", async () => {
+    const { guardian, child, account } = await makeFamily();
+    await updateTimeZone(child.id, 'Asia/Kolkata');
+    // Tests run in UTC, five and a half hours behind India
+    const today = wallClock(new Date(), 'Asia/Kolkata');
+    const midnight = fromWallClock(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate())), 'Asia/Kolkata');
+    const spendAt = async (amount: number, createdAt: Date) => {
+      const spent = await createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount, category: 'food' });
+      await db.update(transactions).set({ createdAt }).where(eq(transactions.id, spent.id));
+    };
+    await spendAt(900, new Date(midnight.getTime() - 60_000));
+    await spendAt(500, new Date(midnight.getTime() + 60_000));
+    await updateSpendingLimits(guardian.id, child.id, { dailyLimit: 1_000, autoApproveThreshold: 10_000 });
+    const spend = (amount: number) =>
+      createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount, category: 'food' });
+
+    expect((await spend(400)).status).toBe('completed');
+    await expectActionError(spend(200), 'limit_exceeded');
+  });
+
+  it('need a category when spending, so blocked categories apply', async () => {
+    const { child, account } = await makeFamily();
+    const friend = await mainAccount((await makeUser()).id);
+
+    await expectActionError(
+      createTransaction({ userId: child.id, accountId: account.id, type: 'withdrawal', amount: 100 }),
+      'category_required'
+    );
+    await expectActionError(
+      createTransfer({ userId: child.id, fromAccountId: account.id, toAccountId: friend.id, amount: 100 }),
+      'category_required'
+    );
+    expect(await balanceOf(account.id, child.id)).toEqual({ balance: 5_000, held: 0 });
+    // Money coming in needs no category
+    await expect(createTransaction({ userId: child.id, accountId: account.id, type: 'deposit', amount: 100 }))
+      .resolves.toMatchObject({ type: 'deposit' });
+  });
+
+  it('only a guardian can set limits', async () => {
+    const { child } = await makeFamily();
+    const stranger = await makeUser();
+
+    await expectActionError(updateSpendingLimits(stranger.id, child.id, { dailyLimit: 100 }), 'not_authorized');
+  });
+});
@@ -0,0 +1,90 @@
+import { db, users } from '@/db';
+import { createUser, deleteClerkUser, getUserAccounts, getUserByClerkId, syncClerkUser, updateTimeZone } from '@/db/actions';
+import { describe, expect, it } from 'vitest';
+import { expectActionError, makeUser } from './helpers';
+
+describe('createUser', () => {
+  it('opens a main account for a new user', async () => {
+    const user = await makeUser();
+
+    const accounts = await getUserAccounts(user.id);
+    expect(accounts).toHaveLength(1);
+    expect(accounts[0]).toMatchObject({ accountName: 'Main Account', accountType: 'personal', balance: 0 });
+  });
+
+  it('returns the existing user when two sign-ins race', async () => {
+    const profile = { clerkId: 'user_race', email: 'race@example.com' };
+
+    const [first, second] = await Promise.all([createUser(profile), createUser(profile)]);
+
+    expect(second.id).toBe(first.id);
+    expect(await getUserAccounts(first.id)).toHaveLength(1);
+  });
+
+  it('claims a user imported from the legacy database by email', async () => {
+    const [legacy] = await db
+      .insert(users)
+      .values({ clerkId: 'legacy_7', email: 'old.timer@example.com', firstName: 'Old' })
+      .returning();
+
+    const user = await createUser({ clerkId: 'user_old_timer', email: 'Old.Timer@example.com' });
+
+    expect(user.id).toBe(legacy.id);
+    expect(user.clerkId).toBe('user_old_timer');
+  });
+
+  it("doesn't hand a seeded user to someone signing up with the same email", async () => {
+    const [seeded] = await db
+      .insert(users)
+      .values({ clerkId: 'seed_1_1', email: 'seeded@example.com', firstName: 'Seeded' })
+      .returning();
+
+    const user = await createUser({ clerkId: 'user_seeded', email: 'seeded@example.com' });
+
+    expect(user.id).not.toBe(seeded.id);
+    expect(await getUserAccounts(user.id)).toHaveLength(1);
+  });
+});
+
+describe('updateTimeZone', () => {
+  it("keeps the zone the user's device is set to", async () => {
+    const user = await makeUser();
+    expect(user.timeZone).toBe('Asia/Kolkata');
+
+    expect(await updateTimeZone(user.id, 'Europe/London')).toMatchObject({ id: user.id, timeZone: 'Europe/London' });
+    await expectActionError(updateTimeZone(user.id, 'Mars/Olympus'), 'invalid_input');
+  });
+});
+
+describe('Clerk webhook sync', () => {
+  it('creates users and applies profile changes', async () => {
+    await syncClerkUser('evt_created', 'user.created', { clerkId: 'user_sync', email: 'old@example.com' });
+    await syncClerkUser('evt_updated', 'user.updated', {
+      clerkId: 'user_sync',
+      email: 'new@example.com',
+      firstName: 'Asha',
+    });
+
+    expect(await getUserByClerkId('user_sync')).toMatchObject({ email: 'new@example.com', firstName: 'Asha' });
+  });
+
+  it('ignores a redelivered event', async () => {
+    await syncClerkUser('evt_once', 'user.created', { clerkId: 'user_once', email: 'first@example.com' });
+    await syncClerkUser('evt_twice', 'user.updated', { clerkId: 'user_once', email: 'second@example.com' });
+    await syncClerkUser('evt_once', 'user.created', { clerkId: 'user_once', email: 'first@example.com' });
+
+    expect((await getUserByClerkId('user_once'))?.email).toBe('second@example.com');
+  });
+
+  it('soft-deletes the user and closes their accounts', async () => {
+    const user = await makeUser();
+
+    await deleteClerkUser('evt_deleted', 'user.deleted', user.clerkId);
+    await syncClerkUser('evt_late_update', 'user.updated', { clerkId: user.clerkId, email: 'late@example.com' });
+
+    const deleted = await getUserByClerkId(user.clerkId);
+    expect(deleted?.deletedAt).toBeInstanceOf(Date);
+    expect(deleted?.email).toBe(user.email);
+    expect((await getUserAccounts(user.id)).every((account) => !account.isActive)).toBe(true);
+  });
+});
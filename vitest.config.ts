@@ -0,0 +1,17 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': __dirname },
+  },
+  test: {
+    include: ['test/**/*.test.ts'],
+    // Each test file gets its own in-memory database, migrated by test/setup.ts. Servers
+    // usually run in UTC, so tests do too, whatever zone the machine is in.
+    env: { DATABASE_DRIVER: 'pglite', DATABASE_URL: 'memory://', TZ: 'UTC' },
+    setupFiles: ['./test/setup.ts'],
+    // One database at a time keeps memory use down
+    fileParallelism: false,
+    testTimeout: 20_000,
+  },
+});